@@ -1,124 +1,333 @@
-/// <reference types="debug" />
-const debug: debug.IDebugger = require('debug')('mcft:cache:CacheAddOn')
-
-import { Guard, IDependencyContainer, Types as CmT, Maybe, decorators as d,
-    IConfigurationProvider, CriticalException, constants, IServiceAddOn} from '@micro-fleet/common'
-
-import { RedisCacheProvider, CacheProviderConstructorOpts } from './RedisCacheProvider'
-import { Types as T } from './Types'
-import { CacheConnectionDetail } from './ICacheProvider'
-
-
-const { Service: S, Cache: C } = constants
-const DEFAULT_HOST = 'localhost'
-const DEFAULT_PORT = 6379
-
-@d.injectable()
-export class CacheAddOn implements IServiceAddOn {
-    public readonly name: string = 'CacheAddOn'
-
-    private _cacheProvider: RedisCacheProvider
-
-    constructor(
-        @d.inject(CmT.CONFIG_PROVIDER) private _configProvider: IConfigurationProvider,
-        @d.inject(CmT.DEPENDENCY_CONTAINER) private _depContainer: IDependencyContainer,
-    ) {
-        Guard.assertArgDefined('_configProvider', _configProvider)
-        Guard.assertArgDefined('_depContainer', _depContainer)
-    }
-
-    /**
-     * @see IServiceAddOn.init
-     */
-    public init(): Promise<void> {
-        const slugMaybe = (this._configProvider.get(S.SERVICE_SLUG) as Maybe<string>)
-        if (slugMaybe.isNothing) {
-            return Promise.reject(new CriticalException('The setting SERVICE_SLUG is required'))
-        }
-
-        const nConnMaybe = (this._configProvider.get(C.CACHE_NUM_CONN) as Maybe<number>)
-        if (nConnMaybe.isNothing) {
-            return Promise.reject(new CriticalException('The setting CACHE_NUM_CONN is required'))
-        }
-        const opts = this._buildConnOptions(slugMaybe.value, nConnMaybe.value)
-        this._cacheProvider = new RedisCacheProvider(opts)
-        this._depContainer.bindConstant<RedisCacheProvider>(T.CACHE_PROVIDER, this._cacheProvider)
-        return Promise.resolve()
-    }
-
-    /**
-     * @see IServiceAddOn.deadLetter
-     */
-    public deadLetter(): Promise<void> {
-        return Promise.resolve()
-    }
-
-    /**
-     * @see IServiceAddOn.dispose
-     */
-    public dispose(): Promise<void> {
-        return (this._cacheProvider) ? this._cacheProvider.dispose() : Promise.resolve()
-    }
-
-    private _buildConnOptions(svcSlug: string, nConn: number): CacheProviderConstructorOpts {
-        const opts: CacheProviderConstructorOpts = {
-            name: svcSlug,
-        }
-        if (nConn === 0) { return opts }
-
-        const hosts: string[] = this._getHosts(nConn)
-        const ports: number[] = this._getPorts(nConn)
-        const details: CacheConnectionDetail[] = []
-
-        for (let i = 0; i < nConn; ++i) {
-            details.push({
-                host: hosts[i],
-                port: ports[i],
-            })
-        }
-
-        debug(`Cache with ${details.length} connections`)
-
-        if (details.length > 1) {
-            opts.cluster = details
-        }
-        else {
-            opts.single = details[0]
-        }
-        return opts
-    }
-
-    private _getHosts(nConn: number): string[] {
-        const address = this._configProvider.get(C.CACHE_HOST).tryGetValue(DEFAULT_HOST)
-        // If number of connection is greater than number of given host addresses,
-        // we use default address for the rest.
-        if (Array.isArray(address) && address.length != nConn) {
-            return this._padArray(address, nConn, DEFAULT_HOST) as string[]
-        }
-        // If there is only one address as string, we use it for all connections
-        return this._padArray([], nConn, address) as string[]
-    }
-
-    private _getPorts(nConn: number): number[] {
-        const port = this._configProvider.get(C.CACHE_PORT).tryGetValue(DEFAULT_PORT)
-        // If number of connection is greater than number of given ports,
-        // we use default port for the rest.
-        if (Array.isArray(port) && port.length != nConn) {
-            return this._padArray(port, nConn, DEFAULT_PORT) as number[]
-        }
-        // If there is only one port as number, we use it for all connections
-        return this._padArray([], nConn, port) as number[]
-    }
-
-    /**
-     * Keeps appending `value` to `arr` until the array reaches specified `newLength`.
-     * Returns a new array instance.
-     */
-    private _padArray(arr: any[], newLength: number, value: any): any[] {
-        const newArr = [...arr]
-        while (newArr.length < newLength) {
-            newArr.push(value)
-        }
-        return newArr
-    }
-}
+/// <reference types="debug" />
+const debug: debug.IDebugger = require('debug')('mcft:cache:CacheAddOn')
+
+import { Guard, IDependencyContainer, Types as CmT, Maybe, decorators as d,
+    IConfigurationProvider, CriticalException, constants, IServiceAddOn} from '@micro-fleet/common'
+
+import { RedisCacheProvider, CacheProviderConstructorOpts } from './RedisCacheProvider'
+import { MemoryCacheProvider } from './MemoryCacheProvider'
+import { Types as T } from './Types'
+import { ICacheProvider, CacheConnectionDetail, CacheTlsOptions, CacheLevel, CircuitBreakerOptions,
+    CacheHealth } from './ICacheProvider'
+import { CacheSettingKeys as CS, CacheEngine } from './SettingKeys'
+
+
+const { Service: S, Cache: C } = constants
+const DEFAULT_HOST = 'localhost'
+const DEFAULT_PORT = 6379
+const DEFAULT_SENTINEL_PORT = 26379
+const DEFAULT_READY_TIMEOUT = 10000
+const DEFAULT_SHUTDOWN_TIMEOUT = 5000
+const DEFAULT_PROVIDER_NAME = 'default'
+
+export type CacheAddOnHealth = {
+    /**
+     * Whether all cache providers are healthy.
+     */
+    isHealthy: boolean,
+
+    /**
+     * Why cache providers cannot be checked, eg: the add-on is not initialized.
+     */
+    error?: string,
+
+    /**
+     * Health of the default provider with key `default`, and of each named provider with its name.
+     */
+    providers: { [providerName: string]: CacheHealth },
+}
+
+@d.injectable()
+export class CacheAddOn implements IServiceAddOn {
+    public readonly name: string = 'CacheAddOn'
+
+    private _cacheProvider: ICacheProvider
+    private _namedProviders: Map<string, ICacheProvider>
+
+    constructor(
+        @d.inject(CmT.CONFIG_PROVIDER) private _configProvider: IConfigurationProvider,
+        @d.inject(CmT.DEPENDENCY_CONTAINER) private _depContainer: IDependencyContainer,
+    ) {
+        Guard.assertArgDefined('_configProvider', _configProvider)
+        Guard.assertArgDefined('_depContainer', _depContainer)
+        this._namedProviders = new Map()
+    }
+
+    /**
+     * @see IServiceAddOn.init
+     */
+    public async init(): Promise<void> {
+        const slugMaybe = (this._configProvider.get(S.SERVICE_SLUG) as Maybe<string>)
+        if (slugMaybe.isNothing) {
+            throw new CriticalException('The setting SERVICE_SLUG is required')
+        }
+
+        try {
+            this._cacheProvider = this._createProvider(slugMaybe.value)
+            this._depContainer.bindConstant<ICacheProvider>(T.CACHE_PROVIDER, this._cacheProvider)
+
+            for (const providerName of this._getProviderNames()) {
+                debug(`Cache provider "${providerName}"`)
+                const provider = this._createProvider(slugMaybe.value, providerName)
+                this._namedProviders.set(providerName, provider)
+                this._depContainer.bindConstant<ICacheProvider>(T.cacheProvider(providerName), provider)
+            }
+
+            await Promise.all([
+                this._waitUntilReady(this._cacheProvider),
+                ...Array.from(this._namedProviders).map(([name, provider]) => this._waitUntilReady(provider, name)),
+            ])
+        }
+        catch (err) {
+            // Providers already created must not keep their connections and timers
+            await this.dispose()
+            throw err
+        }
+    }
+
+    /**
+     * Checks health of all cache providers.
+     * @param {number} timeout Milliseconds to wait for each provider to reply PING.
+     */
+    public async healthCheck(timeout?: number): Promise<CacheAddOnHealth> {
+        if (!this._cacheProvider) {
+            return {
+                isHealthy: false,
+                error: 'Cache providers are not initialized',
+                providers: {},
+            }
+        }
+        const names = [DEFAULT_PROVIDER_NAME, ...this._namedProviders.keys()]
+        const results = await Promise.all([
+            this._cacheProvider,
+            ...this._namedProviders.values(),
+        ].map(provider => provider.healthCheck(timeout)))
+
+        return {
+            isHealthy: results.every(health => health.isHealthy),
+            providers: names.reduce((prev, name, i) => {
+                prev[name] = results[i]
+                return prev
+            }, {}),
+        }
+    }
+
+    /**
+     * Gets the default cache provider, or the one with `providerName` listed in setting `cache_providers`.
+     */
+    public getProvider(providerName?: string): Maybe<ICacheProvider> {
+        const provider = (providerName)
+            ? this._namedProviders.get(providerName)
+            : this._cacheProvider
+        return provider ? Maybe.Just(provider) : Maybe.Nothing()
+    }
+
+    /**
+     * Stops keeping newly saved values in sync, then waits for writes in progress.
+     * @see IServiceAddOn.deadLetter
+     */
+    public async deadLetter(): Promise<void> {
+        const providers = [this._cacheProvider, ...this._namedProviders.values()]
+        await Promise.all(providers
+            .filter(Boolean)
+            .map(provider => provider.deadLetter(this._getShutdownTimeout())),
+        )
+    }
+
+    /**
+     * @see IServiceAddOn.dispose
+     */
+    public async dispose(): Promise<void> {
+        const providers = [this._cacheProvider, ...this._namedProviders.values()]
+        this._cacheProvider = null
+        this._namedProviders.clear()
+        await Promise.all(providers
+            .filter(Boolean)
+            .map(provider => provider.dispose(this._getShutdownTimeout())),
+        )
+    }
+
+    /**
+     * @param {string} providerName If specified, settings suffixed with `_{providerName}` are used.
+     */
+    private _createProvider(svcSlug: string, providerName?: string): ICacheProvider {
+        const engine = this._getSetting(CS.CACHE_ENGINE, providerName).tryGetValue(CacheEngine.REDIS)
+        const defaultDuration = this._getSetting(CS.CACHE_DEFAULT_DURATION, providerName).tryGetValue(undefined) as number
+        if (engine === CacheEngine.MEMORY) {
+            debug('Cache with in-memory provider')
+            return new MemoryCacheProvider({ name: svcSlug, defaultDuration })
+        }
+        if (engine !== CacheEngine.REDIS) {
+            throw new CriticalException(`Unsupported cache engine "${engine}"`)
+        }
+
+        const nConnKey = this._settingKey(C.CACHE_NUM_CONN, providerName)
+        const nConnMaybe = (this._configProvider.get(nConnKey) as Maybe<number>)
+        if (nConnMaybe.isNothing) {
+            throw new CriticalException(`The setting ${nConnKey.toUpperCase()} is required`)
+        }
+        const opts = this._buildConnOptions(svcSlug, nConnMaybe.value, providerName)
+        opts.defaultDuration = defaultDuration
+        this._getSetting(CS.CACHE_DEFAULT_LEVEL, providerName)
+            .map(val => opts.defaultLevel = this._parseLevel(val as string))
+        this._getCircuitBreakerOptions(providerName)
+            .map(val => opts.circuitBreaker = val)
+        return new RedisCacheProvider(opts)
+    }
+
+    /**
+     * @throws {CriticalException} If the provider is not ready within setting `cache_ready_timeout`.
+     */
+    private async _waitUntilReady(provider: ICacheProvider, providerName?: string): Promise<void> {
+        const timeout = this._getSetting(CS.CACHE_READY_TIMEOUT, providerName).tryGetValue(DEFAULT_READY_TIMEOUT) as number
+        if (!(timeout > 0)) { return }
+        try {
+            await provider.waitUntilReady(timeout)
+        }
+        catch (err) {
+            const label = providerName ? `Cache provider "${providerName}"` : 'Cache provider'
+            throw new CriticalException(`${label} is not ready: ${err.message}`)
+        }
+    }
+
+    /**
+     * @returns `Nothing` if none of circuit breaker settings is configured.
+     */
+    private _getCircuitBreakerOptions(providerName?: string): Maybe<CircuitBreakerOptions> {
+        const options: CircuitBreakerOptions = {}
+        this._getSetting(CS.CACHE_CIRCUIT_FAILURE_THRESHOLD, providerName)
+            .map(val => options.failureThreshold = val as number)
+        this._getSetting(CS.CACHE_CIRCUIT_RESET_TIMEOUT, providerName)
+            .map(val => options.resetTimeout = val as number)
+        this._getSetting(CS.CACHE_CIRCUIT_OPERATION_TIMEOUT, providerName)
+            .map(val => options.operationTimeout = val as number)
+        this._getSetting(CS.CACHE_CIRCUIT_FALLBACK_DURATION, providerName)
+            .map(val => options.fallbackDuration = val as number)
+        return Object.keys(options).length ? Maybe.Just(options) : Maybe.Nothing()
+    }
+
+    private _getShutdownTimeout(): number {
+        return this._configProvider.get(CS.CACHE_SHUTDOWN_TIMEOUT).tryGetValue(DEFAULT_SHUTDOWN_TIMEOUT) as number
+    }
+
+    private _getProviderNames(): string[] {
+        const names = this._configProvider.get(CS.CACHE_PROVIDERS).tryGetValue([]) as string | string[]
+        return (Array.isArray(names) ? names : names.split(','))
+            .map(name => name.trim())
+            .filter(Boolean)
+    }
+
+    private _parseLevel(level: string): CacheLevel {
+        const parsed = CacheLevel[String(level).toUpperCase() as keyof typeof CacheLevel]
+        if (!parsed) {
+            throw new CriticalException(`Unsupported cache level "${level}"`)
+        }
+        return parsed
+    }
+
+    private _settingKey(key: string, providerName?: string): string {
+        return providerName ? `${key}_${providerName}` : key
+    }
+
+    private _getSetting(key: string, providerName?: string): Maybe<number | boolean | string | any[]> {
+        return this._configProvider.get(this._settingKey(key, providerName))
+    }
+
+    private _buildConnOptions(svcSlug: string, nConn: number, providerName?: string): CacheProviderConstructorOpts {
+        const opts: CacheProviderConstructorOpts = {
+            name: svcSlug,
+        }
+        if (nConn === 0) { return opts }
+
+        const masterMaybe = this._getSetting(CS.CACHE_SENTINEL_MASTER, providerName) as Maybe<string>
+        const hosts: string[] = this._getHosts(nConn, providerName)
+        const ports: number[] = this._getPorts(nConn, masterMaybe.isJust ? DEFAULT_SENTINEL_PORT : DEFAULT_PORT, providerName)
+        const credentials = this._getCredentials(providerName)
+        const details: CacheConnectionDetail[] = []
+
+        for (let i = 0; i < nConn; ++i) {
+            details.push({
+                host: hosts[i],
+                port: ports[i],
+            })
+        }
+
+        if (masterMaybe.isJust) {
+            debug(`Cache with master "${masterMaybe.value}" monitored by ${details.length} sentinels`)
+            opts.sentinel = {
+                masterName: masterMaybe.value,
+                sentinels: details,
+                master: credentials,
+            }
+            return opts
+        }
+
+        details.forEach(detail => Object.assign(detail, credentials))
+
+        debug(`Cache with ${details.length} connections`)
+
+        if (details.length > 1) {
+            opts.cluster = details
+        }
+        else {
+            opts.single = details[0]
+        }
+        return opts
+    }
+
+    /**
+     * Gets password, username, database index and TLS options.
+     * Only configured settings are included.
+     */
+    private _getCredentials(providerName?: string): CacheConnectionDetail {
+        const cfg = { get: (key: string) => this._getSetting(key, providerName) }
+        const credentials: CacheConnectionDetail = {}
+        cfg.get(CS.CACHE_PASSWORD).map(val => credentials.password = val as string)
+        cfg.get(CS.CACHE_USERNAME).map(val => credentials.username = val as string)
+        cfg.get(CS.CACHE_DB).map(val => credentials.db = val as number)
+
+        const tls: CacheTlsOptions = {}
+        cfg.get(CS.CACHE_TLS_CA).map(val => tls.ca = val as string)
+        cfg.get(CS.CACHE_TLS_CERT).map(val => tls.cert = val as string)
+        cfg.get(CS.CACHE_TLS_KEY).map(val => tls.key = val as string)
+        cfg.get(CS.CACHE_TLS_SERVERNAME).map(val => tls.servername = val as string)
+        if (cfg.get(CS.CACHE_TLS).tryGetValue(false) || Object.keys(tls).length) {
+            credentials.tls = tls
+        }
+        return credentials
+    }
+
+    private _getHosts(nConn: number, providerName?: string): string[] {
+        const address = this._getSetting(C.CACHE_HOST, providerName).tryGetValue(DEFAULT_HOST)
+        // If number of connection is greater than number of given host addresses,
+        // we use default address for the rest.
+        if (Array.isArray(address)) {
+            return this._padArray(address, nConn, DEFAULT_HOST) as string[]
+        }
+        // If there is only one address as string, we use it for all connections
+        return this._padArray([], nConn, address) as string[]
+    }
+
+    private _getPorts(nConn: number, defaultPort: number, providerName?: string): number[] {
+        const port = this._getSetting(C.CACHE_PORT, providerName).tryGetValue(defaultPort)
+        // If number of connection is greater than number of given ports,
+        // we use default port for the rest.
+        if (Array.isArray(port)) {
+            return this._padArray(port, nConn, defaultPort) as number[]
+        }
+        // If there is only one port as number, we use it for all connections
+        return this._padArray([], nConn, port) as number[]
+    }
+
+    /**
+     * Keeps appending `value` to `arr` until the array reaches specified `newLength`.
+     * Returns a new array instance.
+     */
+    private _padArray(arr: any[], newLength: number, value: any): any[] {
+        const newArr = [...arr]
+        while (newArr.length < newLength) {
+            newArr.push(value)
+        }
+        return newArr
+    }
+}
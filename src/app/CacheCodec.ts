@@ -0,0 +1,121 @@
+import * as msgpack from 'msgpack-lite'
+
+import { ICacheCodec } from './ICacheProvider'
+
+
+// Not declared by ES2018 lib
+declare const BigInt: (value: string) => any
+
+const TYPE_PROP = '$type'
+const VALUE_PROP = '$value'
+
+/**
+ * Supports Date, RegExp, Error and typed arrays via MessagePack extension types.
+ */
+const MSGPACK_CODEC = msgpack.createCodec({ preset: true })
+
+/**
+ * Encodes values with `JSON.stringify`.
+ * Values encoded by this codec are saved without codec name, the same as previous versions.
+ */
+export class JsonCodec implements ICacheCodec {
+    public readonly name = 'json'
+
+    public encode(value: any): string {
+        return JSON.stringify(value)
+    }
+
+    public decode(encoded: string): any {
+        return JSON.parse(encoded)
+    }
+}
+
+/**
+ * Encodes values to JSON, preserving types which JSON doesn't support:
+ * `Date`, `Map`, `Set`, `BigInt` and `Buffer`.
+ *
+ * Objects having exactly two properties `$type` and `$value` are reserved by this codec.
+ */
+export class TypedJsonCodec implements ICacheCodec {
+    public readonly name = 'typed-json'
+
+    public encode(value: any): string {
+        return JSON.stringify(value, function (key: string, val: any) {
+            // `val` has already been converted by `toJSON()`, e.g Date to string.
+            const raw = this[key]
+            if (raw instanceof Date) {
+                return tag('Date', raw.getTime())
+            }
+            if (raw instanceof Map) {
+                return tag('Map', Array.from(raw.entries()))
+            }
+            if (raw instanceof Set) {
+                return tag('Set', Array.from(raw.values()))
+            }
+            if (Buffer.isBuffer(raw)) {
+                return tag('Buffer', raw.toString('base64'))
+            }
+            if (typeof raw === 'bigint') {
+                return tag('BigInt', String(raw))
+            }
+            return val
+        })
+    }
+
+    public decode(encoded: string): any {
+        return JSON.parse(encoded, (key: string, val: any) => {
+            if (!isTagged(val)) {
+                return val
+            }
+            const inner = val[VALUE_PROP]
+            switch (val[TYPE_PROP]) {
+                case 'Date':
+                    return new Date(inner == null ? NaN : inner)
+                case 'Map':
+                    return new Map(inner)
+                case 'Set':
+                    return new Set(inner)
+                case 'Buffer':
+                    return Buffer.from(inner, 'base64')
+                case 'BigInt':
+                    return BigInt(inner)
+                default:
+                    return val
+            }
+        })
+    }
+}
+
+/**
+ * Encodes values to MessagePack binary format, which is more compact than JSON
+ * and supports `Date`, `Buffer`, `RegExp`, `Error` and typed arrays.
+ */
+export class MessagePackCodec implements ICacheCodec {
+    public readonly name = 'msgpack'
+
+    public encode(value: any): Buffer {
+        return msgpack.encode(value, { codec: MSGPACK_CODEC })
+    }
+
+    public decode(encoded: Buffer): any {
+        return msgpack.decode(encoded, { codec: MSGPACK_CODEC })
+    }
+}
+
+
+function tag(type: string, value: any): object {
+    return {
+        [TYPE_PROP]: type,
+        [VALUE_PROP]: value,
+    }
+}
+
+function isTagged(val: any): boolean {
+    return (val != null
+        && typeof val === 'object'
+        && !Array.isArray(val)
+        && Object.keys(val).length === 2
+        && val.hasOwnProperty(TYPE_PROP)
+        && val.hasOwnProperty(VALUE_PROP)
+    )
+}
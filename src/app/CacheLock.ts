@@ -0,0 +1,190 @@
+import * as crypto from 'crypto'
+import { Maybe } from '@micro-fleet/common'
+
+import { ICacheLock, CacheLockOptions } from './ICacheProvider'
+
+
+/**
+ * Is appended to the real key to make lock key, so that locking a key doesn't touch its value.
+ */
+export const LOCK_SUFFIX = '::@lock'
+
+const DEFAULT_RETRY_DELAY = 50
+const DEFAULT_RETRY_BACKOFF = 2
+
+/**
+ * Deletes the lock key only if it is still owned by the given token.
+ */
+const UNLOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("del", KEYS[1])
+else
+    return 0
+end`
+
+/**
+ * Resets expiration of the lock key only if it is still owned by the given token.
+ */
+const EXTEND_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("pexpire", KEYS[1], ARGV[2])
+else
+    return 0
+end`
+
+/**
+ * Where lock keys are kept.
+ */
+export interface ILockStore {
+    /**
+     * Sets the lock key if it doesn't exist.
+     * @returns `true` if the lock is acquired.
+     */
+    tryAcquire(lockKey: string, token: string, ttl: number): Promise<boolean>
+
+    /**
+     * Removes the lock key if it is owned by `token`.
+     * @returns `true` if the lock is released, `false` if it has expired or belongs to another owner.
+     */
+    release(lockKey: string, token: string): Promise<boolean>
+
+    /**
+     * Resets expiration of the lock key if it is owned by `token`.
+     * @returns `true` if the lock is extended, `false` if it has expired or belongs to another owner.
+     */
+    extend(lockKey: string, token: string, ttl: number): Promise<boolean>
+}
+
+/**
+ * Keeps lock keys in remote cache service, so that they are shared between processes.
+ */
+export class RedisLockStore implements ILockStore {
+
+    /**
+     * @param {Function} _getEngine Returns a promisified Redis client.
+     */
+    constructor(private _getEngine: () => Promise<any>) {
+    }
+
+    public async tryAcquire(lockKey: string, token: string, ttl: number): Promise<boolean> {
+        const engine = await this._getEngine()
+        const reply = await engine.setAsync(lockKey, token, 'PX', ttl, 'NX')
+        return (reply === 'OK')
+    }
+
+    public async release(lockKey: string, token: string): Promise<boolean> {
+        const engine = await this._getEngine()
+        const reply = await engine.evalAsync(UNLOCK_SCRIPT, 1, lockKey, token)
+        return (reply === 1)
+    }
+
+    public async extend(lockKey: string, token: string, ttl: number): Promise<boolean> {
+        const engine = await this._getEngine()
+        const reply = await engine.evalAsync(EXTEND_SCRIPT, 1, lockKey, token, ttl)
+        return (reply === 1)
+    }
+}
+
+/**
+ * Keeps lock keys in memory, so that they are only visible to this process.
+ * Expired locks are removed when they are accessed.
+ */
+export class LocalLockStore implements ILockStore {
+
+    private _locks: Map<string, { token: string, expireAt: number }>
+
+
+    constructor() {
+        this._locks = new Map()
+    }
+
+    public tryAcquire(lockKey: string, token: string, ttl: number): Promise<boolean> {
+        if (this._getOwner(lockKey)) {
+            return Promise.resolve(false)
+        }
+        this._locks.set(lockKey, { token, expireAt: Date.now() + ttl })
+        return Promise.resolve(true)
+    }
+
+    public release(lockKey: string, token: string): Promise<boolean> {
+        if (this._getOwner(lockKey) !== token) {
+            return Promise.resolve(false)
+        }
+        this._locks.delete(lockKey)
+        return Promise.resolve(true)
+    }
+
+    public extend(lockKey: string, token: string, ttl: number): Promise<boolean> {
+        if (this._getOwner(lockKey) !== token) {
+            return Promise.resolve(false)
+        }
+        this._locks.set(lockKey, { token, expireAt: Date.now() + ttl })
+        return Promise.resolve(true)
+    }
+
+    private _getOwner(lockKey: string): string {
+        const lock = this._locks.get(lockKey)
+        if (!lock) { return null }
+        if (lock.expireAt <= Date.now()) {
+            this._locks.delete(lockKey)
+            return null
+        }
+        return lock.token
+    }
+}
+
+/**
+ * A lock acquired from an `ILockStore`.
+ */
+export class CacheLock implements ICacheLock {
+
+    constructor(
+        public readonly key: string,
+        public readonly token: string,
+        private _store: ILockStore,
+    ) {
+    }
+
+    /**
+     * @see ICacheLock.release
+     */
+    public release(): Promise<boolean> {
+        return this._store.release(this.key, this.token)
+    }
+
+    /**
+     * @see ICacheLock.extend
+     */
+    public extend(ttl: number): Promise<boolean> {
+        return this._store.extend(this.key, this.token, ttl)
+    }
+}
+
+/**
+ * Generates a random token to identify lock owner.
+ */
+export function createLockToken(): string {
+    return crypto.randomBytes(16).toString('hex')
+}
+
+/**
+ * Tries to acquire `lockKey`, retries with increasing delay if it is held by another owner.
+ * @returns The acquired lock, or `Nothing` if all attempts failed.
+ */
+export async function acquireLock(store: ILockStore, lockKey: string, opts: CacheLockOptions): Promise<Maybe<ICacheLock>> {
+    const token = createLockToken()
+    const retryCount = opts.retryCount || 0
+    const backoff = opts.retryBackoff || DEFAULT_RETRY_BACKOFF
+    let delay = opts.retryDelay || DEFAULT_RETRY_DELAY
+
+    for (let attempt = 0; attempt <= retryCount; ++attempt) {
+        if (attempt > 0) {
+            await new Promise(resolve => setTimeout(resolve, delay))
+            delay *= backoff
+        }
+        if (await store.tryAcquire(lockKey, token, opts.ttl)) {
+            return Maybe.Just(new CacheLock(lockKey, token, store))
+        }
+    }
+    return Maybe.Nothing()
+}
@@ -0,0 +1,216 @@
+import { CacheEvent, CacheLevel } from './ICacheProvider'
+
+
+/**
+ * Upper bounds (in milliseconds) of latency histogram buckets.
+ */
+const LATENCY_BUCKETS = [1, 2.5, 5, 10, 25, 50, 100, 250, 500, 1000, 2500]
+
+const METRIC_PREFIX = 'mcft_cache'
+
+/**
+ * Counters which are increased by `CacheStatsCollector.increase`.
+ */
+export type CacheCounterName = 'localHits' | 'remoteHits' | 'misses' | 'sets' | 'deletes' | 'syncEvents' | 'errors'
+
+/**
+ * Statistics counter of each event, except `CacheEvent.HIT` which depends on level.
+ */
+const EVENT_COUNTERS: { [event: string]: CacheCounterName } = {
+    [CacheEvent.MISS]: 'misses',
+    [CacheEvent.SET]: 'sets',
+    [CacheEvent.DELETE]: 'deletes',
+    [CacheEvent.SYNC_UPDATE]: 'syncEvents',
+    [CacheEvent.ERROR]: 'errors',
+}
+
+export type CacheLatencyHistogram = {
+    /**
+     * Upper bounds (in milliseconds) of buckets, in ascending order.
+     */
+    buckets: number[],
+
+    /**
+     * Number of observations less than or equal to the upper bound at the same index.
+     */
+    counts: number[],
+
+    /**
+     * Total number of observations.
+     */
+    count: number,
+
+    /**
+     * Sum of all observed latencies in milliseconds.
+     */
+    sum: number,
+}
+
+export type CacheStats = {
+    /**
+     * Number of values read from local cache.
+     */
+    localHits: number,
+
+    /**
+     * Number of values read from remote cache service.
+     */
+    remoteHits: number,
+
+    /**
+     * Number of values not found.
+     */
+    misses: number,
+
+    /**
+     * Number of values saved.
+     */
+    sets: number,
+
+    /**
+     * Number of keys requested to be removed, a pattern counts as one key.
+     */
+    deletes: number,
+
+    /**
+     * Number of notifications received to keep local cache in sync with remote values.
+     */
+    syncEvents: number,
+
+    /**
+     * Number of failed operations.
+     */
+    errors: number,
+
+    /**
+     * Latency histograms per operation name.
+     */
+    latencies: { [operation: string]: CacheLatencyHistogram },
+}
+
+
+/**
+ * Counts cache hits, misses and other events, and measures latency of cache operations.
+ */
+export class CacheStatsCollector {
+
+    private _stats: CacheStats
+
+
+    constructor() {
+        this.reset()
+    }
+
+
+    /**
+     * Increases a counter by `amount`.
+     */
+    public increase(counter: CacheCounterName, amount: number = 1): void {
+        this._stats[counter] += amount
+    }
+
+    /**
+     * Increases the counter of `event`, if it has one. Hits are counted by `level`.
+     */
+    public countEvent(event: CacheEvent, level?: CacheLevel): void {
+        const counter = (event === CacheEvent.HIT)
+            ? (level === CacheLevel.LOCAL ? 'localHits' : 'remoteHits')
+            : EVENT_COUNTERS[event]
+        counter && this.increase(counter)
+    }
+
+    /**
+     * Adds an observed latency of an operation.
+     * @param {number} latency In milliseconds.
+     */
+    public observe(operation: string, latency: number): void {
+        const histogram = this._stats.latencies[operation] = this._stats.latencies[operation] || {
+            buckets: LATENCY_BUCKETS,
+            counts: LATENCY_BUCKETS.map(() => 0),
+            count: 0,
+            sum: 0,
+        }
+        LATENCY_BUCKETS.forEach((bound, i) => (latency <= bound) && ++histogram.counts[i])
+        ++histogram.count
+        histogram.sum += latency
+    }
+
+    /**
+     * Gets a copy of current statistics.
+     */
+    public snapshot(): CacheStats {
+        const latencies = Object.entries(this._stats.latencies)
+            .reduce((prev, [operation, histogram]) => {
+                prev[operation] = { ...histogram, counts: [...histogram.counts] }
+                return prev
+            }, {})
+        return { ...this._stats, latencies }
+    }
+
+    /**
+     * Sets all counters to zero and removes all latency observations.
+     */
+    public reset(): void {
+        this._stats = {
+            localHits: 0,
+            remoteHits: 0,
+            misses: 0,
+            sets: 0,
+            deletes: 0,
+            syncEvents: 0,
+            errors: 0,
+            latencies: {},
+        }
+    }
+}
+
+/**
+ * Renders statistics in Prometheus text exposition format.
+ * Latencies are converted to seconds, as recommended by Prometheus.
+ * @param {string} serviceSlug Is added to all metrics as label `service`.
+ */
+export function formatPrometheusStats(stats: CacheStats, serviceSlug: string): string {
+    const service = `service="${escapeLabel(serviceSlug)}"`
+    const counters: [CacheCounterName, string, string][] = [
+        ['localHits', 'local_hits_total', 'Number of values read from local cache.'],
+        ['remoteHits', 'remote_hits_total', 'Number of values read from remote cache service.'],
+        ['misses', 'misses_total', 'Number of values not found.'],
+        ['sets', 'sets_total', 'Number of values saved.'],
+        ['deletes', 'deletes_total', 'Number of keys requested to be removed.'],
+        ['syncEvents', 'sync_events_total', 'Number of notifications to sync local cache.'],
+        ['errors', 'errors_total', 'Number of failed operations.'],
+    ]
+    const lines: string[] = []
+    for (const [counter, metric, help] of counters) {
+        lines.push(
+            `# HELP ${METRIC_PREFIX}_${metric} ${help}`,
+            `# TYPE ${METRIC_PREFIX}_${metric} counter`,
+            `${METRIC_PREFIX}_${metric}{${service}} ${stats[counter]}`,
+        )
+    }
+
+    const histogramName = `${METRIC_PREFIX}_operation_duration_seconds`
+    lines.push(
+        `# HELP ${histogramName} Latency of cache operations.`,
+        `# TYPE ${histogramName} histogram`,
+    )
+    for (const [operation, histogram] of Object.entries(stats.latencies)) {
+        const labels = `${service},operation="${escapeLabel(operation)}"`
+        histogram.buckets.forEach((bound, i) => {
+            lines.push(`${histogramName}_bucket{${labels},le="${bound / 1000}"} ${histogram.counts[i]}`)
+        })
+        lines.push(
+            `${histogramName}_bucket{${labels},le="+Inf"} ${histogram.count}`,
+            `${histogramName}_sum{${labels}} ${histogram.sum / 1000}`,
+            `${histogramName}_count{${labels}} ${histogram.count}`,
+        )
+    }
+    return lines.join('\n') + '\n'
+}
+
+function escapeLabel(value: string): string {
+    return String(value)
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+}
@@ -0,0 +1,118 @@
+import { CircuitState, CircuitBreakerOptions } from './ICacheProvider'
+import { withTimeout } from './with-timeout'
+
+
+const DEFAULT_FAILURE_THRESHOLD = 5
+const DEFAULT_RESET_TIMEOUT = 10000
+const DEFAULT_OPERATION_TIMEOUT = 2000
+
+/**
+ * @param {Error} error The failure which has opened the circuit, if any.
+ */
+export type CircuitChangeListener = (state: CircuitState, error?: Error) => void
+
+
+/**
+ * Stops calling a failing service for a while, then probes it before calling it again as usual.
+ */
+export class CircuitBreaker {
+
+    private _state: CircuitState
+    private _failures: number
+    private _openedAt: number
+    private _isProbing: boolean
+    private _threshold: number
+    private _resetTimeout: number
+    private _timeout: number
+
+
+    /**
+     * @param {Function} _onChange Is invoked whenever the state changes.
+     * @param {Function} _isFailure Decides whether an error is a failure of the service.
+     *      Other errors are thrown to caller without affecting the circuit.
+     */
+    constructor(
+        options: CircuitBreakerOptions = {},
+        private _onChange: CircuitChangeListener = () => { /* Nothing */ },
+        private _isFailure: (error: Error) => boolean = () => true,
+    ) {
+        this._state = CircuitState.CLOSED
+        this._failures = 0
+        this._isProbing = false
+        this._threshold = options.failureThreshold || DEFAULT_FAILURE_THRESHOLD
+        this._resetTimeout = (options.resetTimeout != null) ? options.resetTimeout : DEFAULT_RESET_TIMEOUT
+        this._timeout = (options.operationTimeout != null) ? options.operationTimeout : DEFAULT_OPERATION_TIMEOUT
+    }
+
+
+    /**
+     * Gets current state. An open circuit becomes half-open when its reset timeout has passed.
+     */
+    public get state(): CircuitState {
+        if (this._state === CircuitState.OPEN && Date.now() - this._openedAt >= this._resetTimeout) {
+            this._changeState(CircuitState.HALF_OPEN)
+        }
+        return this._state
+    }
+
+    /**
+     * Invokes `fn` if the circuit is closed, or as the only probe if the circuit is half-open.
+     * `fn` taking longer than operation timeout is considered failed, but it is not cancelled.
+     * @param {Function} fallback Its result is returned if `fn` is not invoked or has failed.
+     *      It receives the failure, if any.
+     */
+    public async execute<T>(fn: () => Promise<T>, fallback: (error?: Error) => T): Promise<T> {
+        const state = this.state
+        if (state === CircuitState.OPEN || (state === CircuitState.HALF_OPEN && this._isProbing)) {
+            return fallback()
+        }
+
+        const isProbe = this._isProbing = (state === CircuitState.HALF_OPEN)
+        try {
+            const result = await withTimeout(fn, this._timeout)
+            this._onSuccess(isProbe)
+            return result
+        }
+        catch (error) {
+            if (!this._isFailure(error)) {
+                // The service is still able to respond
+                this._onSuccess(isProbe)
+                throw error
+            }
+            this._onFailure(isProbe, error)
+            return fallback(error)
+        }
+        finally {
+            isProbe && (this._isProbing = false)
+        }
+    }
+
+
+    private _onSuccess(isProbe: boolean): void {
+        if (isProbe) {
+            this._changeState(CircuitState.CLOSED)
+        }
+        else if (this._state === CircuitState.CLOSED) {
+            this._failures = 0
+        }
+        // Late results of calls made before the circuit opened are ignored.
+    }
+
+    private _onFailure(isProbe: boolean, error: Error): void {
+        if (isProbe) {
+            this._changeState(CircuitState.OPEN, error)
+        }
+        else if (this._state === CircuitState.CLOSED && ++this._failures >= this._threshold) {
+            this._changeState(CircuitState.OPEN, error)
+        }
+    }
+
+    private _changeState(state: CircuitState, error?: Error): void {
+        this._state = state
+        this._failures = 0
+        if (state === CircuitState.OPEN) {
+            this._openedAt = Date.now()
+        }
+        this._onChange(state, error)
+    }
+}
@@ -0,0 +1,78 @@
+import { MinorException } from '@micro-fleet/common'
+
+import { ICacheCodec } from './ICacheProvider'
+import { JsonCodec, TypedJsonCodec, MessagePackCodec } from './CacheCodec'
+
+
+/**
+ * Starts and ends codec name of a value whose encoded form is a string.
+ */
+const TEXT_MARK = '\u001e'
+
+/**
+ * Starts and ends codec name of a value whose encoded form is binary, saved as base64.
+ */
+const BINARY_MARK = '\u001f'
+
+const JSON_CODEC = new JsonCodec()
+
+
+/**
+ * Encodes values with a codec and records the codec name with encoded value,
+ * so that it can be decoded with the same codec later.
+ */
+export class CodecRegistry {
+
+    private _codecs: Map<string, ICacheCodec>
+
+
+    /**
+     * @param {ICacheCodec} _default Codec to use when none is specified per call.
+     */
+    constructor(private _default: ICacheCodec = JSON_CODEC) {
+        this._codecs = new Map()
+        for (const codec of [JSON_CODEC, new TypedJsonCodec(), new MessagePackCodec(), _default]) {
+            this._codecs.set(codec.name, codec)
+        }
+    }
+
+
+    /**
+     * Encodes `value` to a string which can be saved to cache.
+     * The JSON codec doesn't record its name, so that values are readable by previous versions.
+     */
+    public encode(value: any, codec: ICacheCodec = this._default): string {
+        const encoded = codec.encode(value)
+        if (codec.name === JSON_CODEC.name) {
+            return encoded as string
+        }
+        return Buffer.isBuffer(encoded)
+            ? `${BINARY_MARK}${codec.name}${BINARY_MARK}${encoded.toString('base64')}`
+            : `${TEXT_MARK}${codec.name}${TEXT_MARK}${encoded}`
+    }
+
+    /**
+     * Decodes `stored` with the codec recorded with it.
+     * @param {ICacheCodec} codec Used if its name is recorded, in addition to built-in codecs and the default one.
+     * @param {Function} parseUnrecorded Parses values without codec name. Default is `JSON.parse`.
+     */
+    public decode(stored: string, codec?: ICacheCodec, parseUnrecorded: (val: string) => any = JSON.parse): any {
+        if (typeof stored !== 'string') {
+            // Already decoded
+            return stored
+        }
+        const mark = stored.charAt(0)
+        const nameEnd = (mark === TEXT_MARK || mark === BINARY_MARK) ? stored.indexOf(mark, 1) : -1
+        if (nameEnd < 0) {
+            return parseUnrecorded(stored)
+        }
+
+        const name = stored.substring(1, nameEnd)
+        const found = (codec && codec.name === name) ? codec : this._codecs.get(name)
+        if (!found) {
+            throw new MinorException(`Unknown cache codec "${name}"`)
+        }
+        const payload = stored.substring(nameEnd + 1)
+        return found.decode(mark === BINARY_MARK ? Buffer.from(payload, 'base64') : payload)
+    }
+}
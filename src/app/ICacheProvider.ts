@@ -11,6 +11,71 @@ export type CacheConnectionDetail = {
      * Port of remote cache service.
      */
     port?: number;
+
+    /**
+     * Password to authenticate with remote cache service.
+     */
+    password?: string;
+
+    /**
+     * (Redis 6+) ACL username to authenticate with remote cache service.
+     * Only takes effect when `password` is specified.
+     */
+    username?: string;
+
+    /**
+     * Database index to select after connecting.
+     *
+     * Default is `0`.
+     */
+    db?: number;
+
+    /**
+     * If specified, connects to remote cache service over TLS.
+     */
+    tls?: CacheTlsOptions;
+}
+
+export type CacheTlsOptions = {
+    /**
+     * Trusted CA certificates in PEM format. Default is Node's well-known CAs.
+     */
+    ca?: string | Buffer,
+
+    /**
+     * Client certificate in PEM format, for mutual TLS.
+     */
+    cert?: string | Buffer,
+
+    /**
+     * Private key of client certificate in PEM format, for mutual TLS.
+     */
+    key?: string | Buffer,
+
+    /**
+     * Server name for SNI and certificate verification.
+     *
+     * Default is the `host` being connected to.
+     */
+    servername?: string,
+}
+
+export type CacheSentinelDetail = {
+    /**
+     * Name of the master group monitored by sentinels.
+     */
+    masterName: string,
+
+    /**
+     * Addresses of sentinel nodes. The first reachable node is used to discover master.
+     */
+    sentinels: CacheConnectionDetail[],
+
+    /**
+     * Credentials to connect to master, `host` and `port` are ignored
+     * because they are discovered from sentinels.
+     */
+    master?: CacheConnectionDetail,
 }
 
 
@@ -31,9 +96,121 @@ export enum CacheLevel {
     BOTH = 3, // Binary: 11
 }
 
+/**
+ * Converts arrays and objects to a form which can be saved to cache, and back.
+ */
+export interface ICacheCodec {
+    /**
+     * Is saved with every value encoded by this codec, so that readers know how to decode it.
+     */
+    readonly name: string
+
+    /**
+     * Converts a value to string or binary data.
+     */
+    encode(value: any): string | Buffer
+
+    /**
+     * Converts the result of `encode` back to original value.
+     */
+    decode(encoded: string | Buffer): any
+}
+
+export enum CompressionAlgorithm {
+    GZIP = 'gzip',
+    DEFLATE = 'deflate',
+
+    /**
+     * Requires Node.js 11.7 or later.
+     */
+    BROTLI = 'brotli',
+}
+
+export type CacheCompressionOptions = {
+    /**
+     * Which algorithm to compress values with.
+     *
+     * Default is `CompressionAlgorithm.GZIP`.
+     */
+    algorithm?: CompressionAlgorithm,
+
+    /**
+     * Only values whose size (in bytes) is at least this number are compressed.
+     *
+     * Default is `1024`.
+     */
+    threshold?: number,
+}
+
+export enum CircuitState {
+    /**
+     * Remote cache service is used as usual.
+     */
+    CLOSED = 'closed',
+
+    /**
+     * Remote cache service is skipped because it has failed too many times.
+     */
+    OPEN = 'open',
+
+    /**
+     * Remote cache service is probed with one operation at a time,
+     * to decide whether to close or open the circuit again.
+     */
+    HALF_OPEN = 'halfOpen',
+}
+
+export type CircuitBreakerOptions = {
+    /**
+     * Number of consecutive failed remote operations which opens the circuit.
+     *
+     * Default is `5`.
+     */
+    failureThreshold?: number,
+
+    /**
+     * Time (in milliseconds) the circuit stays open before probing remote cache service again.
+     *
+     * Default is `10000`.
+     */
+    resetTimeout?: number,
+
+    /**
+     * A remote operation taking longer than this time (in milliseconds) is considered failed,
+     * because commands are queued while disconnected instead of failing immediately.
+     * The timed-out command itself is not cancelled and may still be executed later.
+     * Commands are not queued while the circuit is open.
+     *
+     * Default is `2000`.
+     */
+    operationTimeout?: number,
+
+    /**
+     * Max time (in seconds) to keep values which are saved to local cache only because
+     * remote cache service is unavailable. They are also removed once the circuit is closed.
+     *
+     * Default is `10`.
+     */
+    fallbackDuration?: number,
+}
+
+export enum CacheObjectLayout {
+    /**
+     * Object is saved as a JSON string, which supports nested objects, arrays and `null` values.
+     */
+    JSON = 'json',
+
+    /**
+     * Each property is saved as a field of a hash, so that other services can read field by field.
+     * Only supports flat objects, because every property value is converted to string.
+     */
+    HASH = 'hash',
+}
+
 export type CacheSetOptions = {
     /**
-     * Expiration time in seconds. Default is to never expire.
+     * Expiration time in seconds, `0` to never expire.
+     * Default is the `defaultDuration` option of CacheProvider, which is to never expire if not specified.
      */
     duration?: number,
 
@@ -41,6 +218,9 @@ export type CacheSetOptions = {
      * Whether to save in local cache only, or remote only, or both.
      * If both, then local cache is kept in sync with remote value even when
      * this value is updated in remote service by another app process.
+     *
+     * Default is the `defaultLevel` option of CacheProvider, which is `CacheLevel.REMOTE`
+     * if connected to remote service, otherwise `CacheLevel.LOCAL`.
      */
     level?: CacheLevel,
 
@@ -51,6 +231,31 @@ export type CacheSetOptions = {
      * Default is `false`.
      */
     isGlobal?: boolean,
+
+    /**
+     * (Only takes effect when saving objects)
+     * How objects are saved. Objects are always read correctly regardless of their layout.
+     *
+     * Default is the `objectLayout` option of CacheProvider, which is `CacheObjectLayout.JSON` if not specified.
+     */
+    objectLayout?: CacheObjectLayout,
+
+    /**
+     * (Only takes effect when saving arrays, and objects in JSON layout)
+     * How values are encoded.
+     *
+     * Default is the `codec` option of CacheProvider, which is `JsonCodec` if not specified.
+     */
+    codec?: ICacheCodec,
+
+    /**
+     * Associates the saved value with these tags, so that it can be removed
+     * together with other values of the same tag by `invalidateTags`.
+     * A value stays associated with its tags until it is deleted or the tags are invalidated.
+     * In remote cache, each tag is a set of keys which expires no sooner than the values in it.
+     * Tags are prepended with service slug unless `isGlobal` is true.
+     */
+    tags?: string[],
 }
 
 export type CacheGetOptions = {
@@ -65,6 +270,7 @@ export type CacheGetOptions = {
      * (Only takes effect when `forceRemote=true`)
      * If true, try to parse value to nearest possible primitive data type.
      * If false, always return string. Set to `false` to save some performance.
+     * Objects saved with `CacheObjectLayout.JSON` are always parsed.
      *
      * Default is `true`.
      */
@@ -77,6 +283,13 @@ export type CacheGetOptions = {
      * Default is `false`.
      */
     isGlobal?: boolean,
+
+    /**
+     * Values are always decoded with the codec they were encoded with.
+     * Specify this option to decode values encoded with a custom codec
+     * which is not the `codec` option of CacheProvider.
+     */
+    codec?: ICacheCodec,
 }
 
 export type CacheDelOptions = {
@@ -100,15 +313,352 @@ export type CacheDelOptions = {
     isPattern?: boolean,
 }
 
+export type CacheInvalidateOptions = {
+    /**
+     * If true, the tags are not prepended with service slug, so we can
+     * invalidate values tagged by other CacheProvider instances in other services.
+     *
+     * Default is `false`.
+     */
+    isGlobal?: boolean,
+}
+
+export type CacheCounterOptions = {
+    /**
+     * Expiration time in seconds, `0` to never expire.
+     * Only takes effect when the counter is created, later changes don't extend its lifetime.
+     * Default is the `defaultDuration` option of CacheProvider, which is to never expire if not specified.
+     */
+    duration?: number,
+
+    /**
+     * Whether to count in local cache only, or remote only, or both.
+     * If both, then local value is kept in sync with remote value.
+     *
+     * Default is the `defaultLevel` option of CacheProvider, which is `CacheLevel.REMOTE`
+     * if connected to remote service, otherwise `CacheLevel.LOCAL`.
+     */
+    level?: CacheLevel,
+
+    /**
+     * If true, the key is not prepended with service slug, and is accessible
+     * by other CacheProvider instances from other services.
+     *
+     * Default is `false`.
+     */
+    isGlobal?: boolean,
+}
+
+/**
+ * Names of events emitted by `RedisCacheProvider`, each with a `CacheEventArgs` argument.
+ */
+export enum CacheEvent {
+    /**
+     * A value is found in local or remote cache.
+     */
+    HIT = 'hit',
+
+    /**
+     * A value is not found.
+     */
+    MISS = 'miss',
+
+    /**
+     * A value is saved.
+     */
+    SET = 'set',
+
+    /**
+     * A key or a pattern is removed.
+     */
+    DELETE = 'delete',
+
+    /**
+     * A local value is removed because its duration has passed.
+     */
+    EXPIRE = 'expire',
+
+    /**
+     * A local value is removed to keep local cache within its limits.
+     */
+    EVICT = 'evict',
+
+    /**
+     * A local value is updated or removed because its remote value has changed.
+     */
+    SYNC_UPDATE = 'syncUpdate',
+
+    /**
+     * An operation has failed. Unlike other events, its argument has `error`.
+     */
+    ERROR = 'error',
+
+    /**
+     * The circuit breaker has changed its state, which is in argument `circuitState`.
+     */
+    CIRCUIT_CHANGE = 'circuitChange',
+}
+
+export type CacheEventArgs = {
+    /**
+     * The real key, which is prepended with service slug if not global.
+     * For deletion by pattern, this is the pattern.
+     */
+    key?: string,
+
+    /**
+     * Where the value is read from or written to.
+     */
+    level?: CacheLevel,
+
+    /**
+     * Time in milliseconds the operation has taken.
+     */
+    elapsed?: number,
+
+    /**
+     * Name of the method that emits this event.
+     */
+    operation?: string,
+
+    /**
+     * The reason why the operation has failed.
+     */
+    error?: Error,
+
+    /**
+     * New state of the circuit breaker.
+     */
+    circuitState?: CircuitState,
+}
+
+export type CacheEntries = {
+    [key: string]: PrimitiveType | any[] | object,
+}
+
+export enum CacheValueType {
+    /**
+     * Read and written with `getPrimitive` and `setPrimitive`.
+     */
+    PRIMITIVE = 'primitive',
+
+    /**
+     * Read and written with `getArray` and `setArray`.
+     */
+    ARRAY = 'array',
+
+    /**
+     * Read and written with `getObject` and `setObject`.
+     */
+    OBJECT = 'object',
+}
+
+export type CacheLoaderLockOptions = {
+    /**
+     * How long (in milliseconds) the lock is held at most.
+     * Should be longer than the loader's execution time.
+     */
+    ttl: number,
+
+    /**
+     * How long (in milliseconds) to wait for another process to finish loading.
+     * After that, the value is loaded without lock.
+     *
+     * Default is the same as `ttl`.
+     */
+    waitTimeout?: number,
+
+    /**
+     * Interval (in milliseconds) to check whether another process has finished loading.
+     *
+     * Default is `50`.
+     */
+    retryInterval?: number,
+
+    /**
+     * (Only takes effect when `duration` is specified)
+     * Keeps a copy of the value for this many seconds after it expires.
+     * This stale copy is served while another process is reloading the value,
+     * instead of waiting.
+     *
+     * Default is `0` (always wait).
+     */
+    staleDuration?: number,
+}
+
+export type CacheGetOrSetOptions = CacheGetOptions & CacheSetOptions & {
+    /**
+     * How the value is stored.
+     *
+     * Default is `CacheValueType.PRIMITIVE`.
+     */
+    valueType?: CacheValueType,
+
+    /**
+     * If specified, uses a distributed lock so that only one process
+     * across the fleet executes the loader at a time.
+     * Has no effect if there is no remote cache service.
+     */
+    lock?: CacheLoaderLockOptions,
+}
+
+export type CacheLockOptions = {
+    /**
+     * How long (in milliseconds) the lock is held before it is released automatically.
+     */
+    ttl: number,
+
+    /**
+     * If true, the key is not prepended with service slug, so the lock
+     * is shared with CacheProvider instances in other services.
+     *
+     * Default is `false`.
+     */
+    isGlobal?: boolean,
+
+    /**
+     * How many more times to try if the lock is held by another owner.
+     *
+     * Default is `0` (no retry).
+     */
+    retryCount?: number,
+
+    /**
+     * Delay (in milliseconds) before the first retry.
+     *
+     * Default is `50`.
+     */
+    retryDelay?: number,
+
+    /**
+     * The delay is multiplied by this factor after each retry.
+     *
+     * Default is `2`.
+     */
+    retryBackoff?: number,
+}
+
+/**
+ * A lock owned by the CacheProvider instance that acquired it.
+ */
+export interface ICacheLock {
+    /**
+     * The real key in cache store.
+     */
+    readonly key: string
+
+    /**
+     * Random value which identifies the owner.
+     */
+    readonly token: string
+
+    /**
+     * Releases the lock if it is still owned.
+     * @returns `false` if the lock has expired or been acquired by another owner.
+     */
+    release(): Promise<boolean>
+
+    /**
+     * Resets the lock's time-to-live if it is still owned.
+     * @param {number} ttl New time-to-live in milliseconds.
+     * @returns `false` if the lock has expired or been acquired by another owner.
+     */
+    extend(ttl: number): Promise<boolean>
+}
+
+export type CacheNodeHealth = {
+    /**
+     * Node address as `host:port`.
+     */
+    address: string,
+
+    /**
+     * Whether the connection to this node is ready to accept commands.
+     */
+    isConnected: boolean,
+}
+
+export type CacheSubscriberHealth = {
+    /**
+     * Whether the connection which receives changes of remote values is ready.
+     */
+    isConnected: boolean,
+
+    /**
+     * Number of keys whose local values are kept in sync with remote values.
+     */
+    syncedKeys: number,
+}
+
+export type CacheHealth = {
+    /**
+     * Whether remote cache service has responded to PING.
+     * Always `true` without remote cache service.
+     */
+    isHealthy: boolean,
+
+    /**
+     * Round-trip time of PING in milliseconds, not available if remote cache service hasn't responded.
+     */
+    pingLatency?: number,
+
+    /**
+     * Why remote cache service is not healthy.
+     */
+    error?: string,
+
+    /**
+     * Connection state of each node, one node unless connected to a cluster.
+     * Empty without remote cache service.
+     */
+    nodes: CacheNodeHealth[],
+
+    /**
+     * Only if any key is kept in sync with remote value.
+     */
+    subscriber?: CacheSubscriberHealth,
+
+    /**
+     * Only for providers supporting circuit breaker.
+     */
+    circuitState?: CircuitState,
+}
+
 /**
  * Provides methods to read and write data to cache.
  */
 export interface ICacheProvider {
 
+    /**
+     * The name which is prepended to non-global keys.
+     */
+    readonly name: string
+
     /**
      * Clears all local cache and disconnects from remote cache service.
+     * @param {number} timeout Milliseconds to wait for connections to close gracefully.
      */
-    dispose(): Promise<void>
+    dispose(timeout?: number): Promise<void>
+
+    /**
+     * Stops keeping values saved afterwards in sync with remote values, then waits for writes in progress.
+     * @param {number} timeout Milliseconds to wait for writes in progress.
+     */
+    deadLetter(timeout?: number): Promise<void>
+
+    /**
+     * Resolves when the connection to remote cache service is ready to accept commands,
+     * or immediately without remote cache service.
+     * @param {number} timeout Milliseconds to wait before rejecting with `MinorException`.
+     */
+    waitUntilReady(timeout?: number): Promise<void>
+
+    /**
+     * Pings remote cache service and reports state of connections.
+     * Never rejects, failures are reported in the result.
+     * @param {number} timeout Milliseconds to wait for PING reply.
+     */
+    healthCheck(timeout?: number): Promise<CacheHealth>
 
     /**
      * Removes a key from cache.
@@ -154,4 +704,70 @@ export interface ICacheProvider {
      * @param {object} value Object value to save.
      */
     setObject(key: string, value: object, opts?: CacheSetOptions): Promise<void>
+
+    /**
+     * Retrieves multiple strings or numbers or booleans from cache.
+     * @param {string[]} keys The keys to look up.
+     * @returns Values in the same order as `keys`, `Nothing` for keys not found.
+     */
+    getManyPrimitives(keys: string[], opts?: CacheGetOptions): Promise<Maybe<PrimitiveType>[]>
+
+    /**
+     * Retrieves multiple objects from cache.
+     * @param {string[]} keys The keys to look up.
+     * @returns Objects in the same order as `keys`, `Nothing` for keys not found.
+     */
+    getManyObjects(keys: string[], opts?: CacheGetOptions): Promise<Maybe<object>[]>
+
+    /**
+     * Saves multiple values to cache. Each value is saved the same way as
+     * `setPrimitive`, `setArray` or `setObject` depending on its type.
+     * @param {object} entries Map of keys and values to save.
+     */
+    setMany(entries: CacheEntries, opts?: CacheSetOptions): Promise<void>
+
+    /**
+     * Removes multiple exact keys from cache. Option `isPattern` is ignored.
+     * @param {string[]} keys The keys to remove.
+     */
+    deleteMany(keys: string[], opts?: CacheDelOptions): Promise<void>
+
+    /**
+     * Removes all values associated with any of `tags`, both locally and remotely.
+     * @param {string[]} tags The tags whose values are removed.
+     */
+    invalidateTags(tags: string[], opts?: CacheInvalidateOptions): Promise<void>
+
+    /**
+     * Atomically adds `by` to a number in cache. A missing key is created as zero before adding.
+     * @param {string} key The key of the counter.
+     * @param {number} by Integer or float step. Default is `1`.
+     * @returns The value after adding.
+     */
+    increment(key: string, by?: number, opts?: CacheCounterOptions): Promise<number>
+
+    /**
+     * Atomically subtracts `by` from a number in cache. A missing key is created as zero before subtracting.
+     * @param {string} key The key of the counter.
+     * @param {number} by Integer or float step. Default is `1`.
+     * @returns The value after subtracting.
+     */
+    decrement(key: string, by?: number, opts?: CacheCounterOptions): Promise<number>
+
+    /**
+     * Retrieves a value from cache. If not found, invokes `loader` then saves its result to cache.
+     * Concurrent calls with the same key share one `loader` invocation.
+     * If `loader` resolves to `null` or `undefined`, nothing is saved.
+     * @param {string} key The key to look up.
+     * @param {Function} loader Produces the value when it is not in cache.
+     */
+    getOrSet<T = any>(key: string, loader: () => Promise<T>, opts?: CacheGetOrSetOptions): Promise<T>
+
+    /**
+     * Acquires a lock which is shared between all instances connected to the same cache service.
+     * Without remote cache service, the lock is only shared within this instance.
+     * @param {string} key The lock name.
+     * @returns The acquired lock, or `Nothing` if the lock is held by another owner after all retries.
+     */
+    acquireLock(key: string, opts: CacheLockOptions): Promise<Maybe<ICacheLock>>
 }
@@ -0,0 +1,259 @@
+import { PrimitiveType } from '@micro-fleet/common'
+
+
+export enum EvictionPolicy {
+    /**
+     * Evicts the least recently used entry first.
+     */
+    LRU = 'lru',
+
+    /**
+     * Evicts the least frequently used entry first.
+     * Among entries with same frequency, the least recently used one is evicted.
+     */
+    LFU = 'lfu',
+}
+
+export type LocalStoreOptions = {
+    /**
+     * Maximum number of entries kept in local cache.
+     *
+     * Default is unlimited.
+     */
+    maxEntries?: number,
+
+    /**
+     * Maximum estimated memory (in bytes) consumed by local cache values.
+     * The estimation is rough, it only counts the serialized size of values.
+     *
+     * Default is unlimited.
+     */
+    maxBytes?: number,
+
+    /**
+     * Which entries to remove first when local cache exceeds its limits.
+     *
+     * Default is `EvictionPolicy.LRU`.
+     */
+    eviction?: EvictionPolicy,
+}
+
+type TrackedEntry = {
+    size: number,
+    hits: number,
+
+    /**
+     * Only with LFU policy, the bucket of entries with the same `hits`.
+     */
+    bucket?: FrequencyBucket,
+}
+
+/**
+ * A node of the list of buckets sorted by `hits` ascending.
+ */
+type FrequencyBucket = {
+    hits: number,
+
+    /**
+     * Set keeps insertion order, the first key is the least recently used one.
+     */
+    keys: Set<string>,
+    prev: FrequencyBucket,
+    next: FrequencyBucket,
+}
+
+
+/**
+ * Keeps track of local cache entries' usage and size,
+ * and decides which ones to evict when the limits are exceeded.
+ */
+export class LocalStoreTracker {
+
+    /**
+     * Map keeps insertion order, with LRU policy the first entry is the least recently used one.
+     */
+    private _entries: Map<string, TrackedEntry>
+
+    /**
+     * Only with LFU policy, the bucket with the fewest hits, so that a victim is picked without scanning all entries.
+     */
+    private _lowestBucket: FrequencyBucket
+    private _totalBytes: number
+    private _policy: EvictionPolicy
+
+
+    constructor(private _options: LocalStoreOptions) {
+        this._entries = new Map()
+        this._lowestBucket = null
+        this._totalBytes = 0
+        this._policy = _options.eviction || EvictionPolicy.LRU
+    }
+
+
+    /**
+     * Gets number of tracked entries.
+     */
+    public get count(): number {
+        return this._entries.size
+    }
+
+    /**
+     * Gets total estimated size of tracked entries.
+     */
+    public get totalBytes(): number {
+        return this._totalBytes
+    }
+
+    /**
+     * Records a newly added or updated entry.
+     * @returns Keys which must be evicted to keep local cache within limits.
+     *      The given `key` may also be included if its value alone exceeds `maxBytes`.
+     */
+    public track(key: string, value: PrimitiveType | object): string[] {
+        const size = estimateSize(value)
+        const existing = this._entries.get(key)
+        if (existing) {
+            this._totalBytes -= existing.size
+            this._entries.delete(key)
+        }
+        const entry: TrackedEntry = {
+            size,
+            hits: existing ? existing.hits : 0,
+        }
+        this._entries.set(key, entry)
+        this._totalBytes += size
+        if (this._policy === EvictionPolicy.LFU && existing) {
+            // Move to the end of its bucket, as an update is also a use
+            entry.bucket = existing.bucket
+            entry.bucket.keys.delete(key)
+            entry.bucket.keys.add(key)
+        }
+        else if (this._policy === EvictionPolicy.LFU) {
+            this._enterBucket(key, entry, null)
+        }
+        return this._collectVictims(key)
+    }
+
+    /**
+     * Records an access to an entry.
+     */
+    public touch(key: string): void {
+        const entry = this._entries.get(key)
+        if (!entry) { return }
+
+        entry.hits++
+        if (this._policy === EvictionPolicy.LRU) {
+            // Move to the end of insertion order
+            this._entries.delete(key)
+            this._entries.set(key, entry)
+            return
+        }
+        const previous = entry.bucket
+        this._enterBucket(key, entry, previous)
+        this._leaveBucket(key, previous)
+    }
+
+    /**
+     * Stops tracking an entry.
+     */
+    public untrack(key: string): void {
+        const entry = this._entries.get(key)
+        if (!entry) { return }
+
+        this._totalBytes -= entry.size
+        this._entries.delete(key)
+        entry.bucket && this._leaveBucket(key, entry.bucket)
+    }
+
+    /**
+     * Stops tracking all entries.
+     */
+    public clear(): void {
+        this._entries.clear()
+        this._lowestBucket = null
+        this._totalBytes = 0
+    }
+
+
+    private _collectVictims(newKey: string): string[] {
+        const victims: string[] = []
+        while (this._isOverLimit()) {
+            const victim = this._pickVictim(newKey)
+            victims.push(victim)
+            this.untrack(victim)
+        }
+        return victims
+    }
+
+    private _isOverLimit(): boolean {
+        const { maxEntries, maxBytes } = this._options
+        return (maxEntries > 0 && this._entries.size > maxEntries)
+            || (maxBytes > 0 && this._totalBytes > maxBytes && this._entries.size > 0)
+    }
+
+    /**
+     * Picks an entry to evict. The newly added entry is only picked
+     * when there is nothing else left.
+     */
+    private _pickVictim(newKey: string): string {
+        if (this._policy === EvictionPolicy.LRU) {
+            for (const key of this._entries.keys()) {
+                if (key !== newKey) { return key }
+            }
+            return newKey
+        }
+        for (let bucket = this._lowestBucket; bucket; bucket = bucket.next) {
+            for (const key of bucket.keys) {
+                if (key !== newKey) { return key }
+            }
+        }
+        return newKey
+    }
+
+    /**
+     * Adds `key` to the end of the bucket of `entry.hits`, which is created right after `prevBucket`
+     * if not existing yet. Without `prevBucket`, the bucket is the lowest one.
+     */
+    private _enterBucket(key: string, entry: TrackedEntry, prevBucket: FrequencyBucket): void {
+        const next = prevBucket ? prevBucket.next : this._lowestBucket
+        let bucket = next
+        if (!next || next.hits !== entry.hits) {
+            bucket = { hits: entry.hits, keys: new Set(), prev: prevBucket, next }
+            prevBucket ? (prevBucket.next = bucket) : (this._lowestBucket = bucket)
+            next && (next.prev = bucket)
+        }
+        bucket.keys.add(key)
+        entry.bucket = bucket
+    }
+
+    /**
+     * Removes `key` from `bucket`, and removes the bucket itself if it becomes empty.
+     */
+    private _leaveBucket(key: string, bucket: FrequencyBucket): void {
+        bucket.keys.delete(key)
+        if (bucket.keys.size) { return }
+        bucket.prev ? (bucket.prev.next = bucket.next) : (this._lowestBucket = bucket.next)
+        bucket.next && (bucket.next.prev = bucket.prev)
+    }
+}
+
+/**
+ * Roughly estimates how many bytes a value consumes.
+ */
+export function estimateSize(value: PrimitiveType | object): number {
+    switch (typeof value) {
+        case 'string':
+            return (value as string).length * 2
+        case 'number':
+            return 8
+        case 'boolean':
+            return 4
+        default:
+            try {
+                return JSON.stringify(value).length * 2
+            }
+            catch {
+                return 0
+            }
+    }
+}
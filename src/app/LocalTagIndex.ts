@@ -0,0 +1,65 @@
+/**
+ * Keeps track of which local keys are associated with which tags.
+ */
+export class LocalTagIndex {
+
+    private _keysByTag: Map<string, Set<string>>
+    private _tagsByKey: Map<string, Set<string>>
+
+
+    constructor() {
+        this._keysByTag = new Map()
+        this._tagsByKey = new Map()
+    }
+
+
+    /**
+     * Associates `key` with `tags`, in addition to its current tags.
+     */
+    public add(key: string, tags: string[]): void {
+        if (!tags.length) { return }
+        const keyTags = this._tagsByKey.get(key) || new Set()
+        for (const tag of tags) {
+            const tagKeys = this._keysByTag.get(tag) || new Set()
+            tagKeys.add(key)
+            this._keysByTag.set(tag, tagKeys)
+            keyTags.add(tag)
+        }
+        this._tagsByKey.set(key, keyTags)
+    }
+
+    /**
+     * Dissociates `key` from all of its tags.
+     */
+    public remove(key: string): void {
+        const keyTags = this._tagsByKey.get(key)
+        if (!keyTags) { return }
+        for (const tag of keyTags) {
+            const tagKeys = this._keysByTag.get(tag)
+            tagKeys.delete(key)
+            tagKeys.size || this._keysByTag.delete(tag)
+        }
+        this._tagsByKey.delete(key)
+    }
+
+    /**
+     * Removes `tag` from index.
+     * @returns Keys which were associated with `tag`.
+     */
+    public take(tag: string): string[] {
+        const tagKeys = this._keysByTag.get(tag)
+        if (!tagKeys) { return [] }
+        this._keysByTag.delete(tag)
+        for (const key of tagKeys) {
+            const keyTags = this._tagsByKey.get(key)
+            keyTags.delete(tag)
+            keyTags.size || this._tagsByKey.delete(key)
+        }
+        return Array.from(tagKeys)
+    }
+
+    public clear(): void {
+        this._keysByTag.clear()
+        this._tagsByKey.clear()
+    }
+}
@@ -0,0 +1,605 @@
+/// <reference types="debug" />
+const debug: debug.IDebugger = require('debug')('mcft:cache:MemoryCacheProvider')
+
+import { EventEmitter } from 'events'
+
+import { Maybe, Guard, PrimitiveType, MinorException, InvalidArgumentException } from '@micro-fleet/common'
+
+import { ICacheProvider, CacheGetOptions, CacheSetOptions,
+    CacheDelOptions, CacheGetOrSetOptions, CacheValueType, CacheLockOptions, ICacheLock,
+    CacheEntries, CacheObjectLayout, ICacheCodec, CacheInvalidateOptions, CacheHealth,
+    CacheCounterOptions, CacheEvent, CacheEventArgs, CacheLevel } from './ICacheProvider'
+import { SingleFlight } from './SingleFlight'
+import { LocalLockStore, LOCK_SUFFIX, acquireLock } from './CacheLock'
+import { CodecRegistry } from './CodecRegistry'
+import { LocalTagIndex } from './LocalTagIndex'
+import { CacheStats, CacheStatsCollector } from './CacheStats'
+
+
+const TAG_PREFIX = '@tag::'
+const DEFAULT_SWEEP_INTERVAL = 60
+
+type StoredHash = { [x: string]: string }
+
+type MemoryEntry = {
+    value: string | StoredHash,
+
+    /**
+     * Timestamp in milliseconds when this entry expires, or 0 if it never expires.
+     */
+    expireAt: number,
+}
+
+export type MemoryCacheProviderOpts = {
+    /**
+     * Is prepended in cache key to avoid key collision between cache instances.
+     */
+    name: string,
+
+    /**
+     * How objects are saved, can be overridden per call.
+     *
+     * Default is `CacheObjectLayout.JSON`.
+     */
+    objectLayout?: CacheObjectLayout,
+
+    /**
+     * How arrays and objects in JSON layout are encoded, can be overridden per call.
+     *
+     * Default is `JsonCodec`.
+     */
+    codec?: ICacheCodec,
+
+    /**
+     * Expiration time in seconds of values saved without option `duration`.
+     *
+     * Default is to never expire.
+     */
+    defaultDuration?: number,
+
+    /**
+     * Time in seconds between removals of expired entries which have not been accessed.
+     * Zero or negative to only remove expired entries when they are accessed.
+     *
+     * Default is `60`.
+     */
+    sweepInterval?: number,
+}
+
+/**
+ * Provides methods to read and write data to an in-process memory store.
+ *
+ * Values are stored the same way Redis stores them (primitives as strings, objects as
+ * JSON strings or hashes of string fields), so this provider behaves like `RedisCacheProvider`
+ * without requiring a Redis server. Useful for unit tests and local development.
+ *
+ * Option `level` is ignored because there is only one store.
+ * Option `lock` of `getOrSet` is ignored because there is only one process,
+ * for the same reason `acquireLock` returns process-local locks.
+ * Expired entries are removed when they are accessed, and periodically with option `sweepInterval`.
+ * Events and statistics are the same as `RedisCacheProvider` with all values in local cache,
+ * except that latencies are not measured.
+ */
+export class MemoryCacheProvider extends EventEmitter implements ICacheProvider {
+
+    private _store: Map<string, MemoryEntry>
+
+    /**
+     * Hits, misses and other events of this provider.
+     */
+    private _stats: CacheStatsCollector
+
+    /**
+     * Periodically removes expired entries.
+     */
+    private _sweepTimer: NodeJS.Timer
+
+    /**
+     * Loaders of `getOrSet` which are in progress.
+     */
+    private _loaders: SingleFlight
+    private _lockStore: LocalLockStore
+    private _codecs: CodecRegistry
+    private _tags: LocalTagIndex
+
+
+    constructor(private _options: MemoryCacheProviderOpts) {
+        super()
+        Guard.assertArgDefined('_options', _options)
+        this._store = new Map()
+        this._stats = new CacheStatsCollector()
+        this._loaders = new SingleFlight()
+        this._lockStore = new LocalLockStore()
+        this._codecs = new CodecRegistry(_options.codec)
+        this._tags = new LocalTagIndex()
+
+        const sweepInterval = (_options.sweepInterval != null) ? _options.sweepInterval : DEFAULT_SWEEP_INTERVAL
+        if (sweepInterval > 0) {
+            this._sweepTimer = setInterval(() => this._sweep(), sweepInterval * 1000)
+            // Sweeping alone should not keep the process running
+            this._sweepTimer.unref()
+        }
+    }
+
+    /**
+     * @see ICacheProvider.name
+     */
+    public get name(): string {
+        return this._options.name
+    }
+
+    /**
+     * Gets a copy of counters since creation or the last `resetStats()`.
+     */
+    public getStats(): CacheStats {
+        return this._stats.snapshot()
+    }
+
+    /**
+     * Sets all counters to zero.
+     */
+    public resetStats(): void {
+        this._stats.reset()
+    }
+
+    /**
+     * Clears all cached data.
+     */
+    public dispose(timeout?: number): Promise<void> {
+        clearInterval(this._sweepTimer)
+        this._store.clear()
+        this._tags.clear()
+        return Promise.resolve()
+    }
+
+    /**
+     * Resolves immediately, because all writes are synchronous.
+     */
+    public deadLetter(timeout?: number): Promise<void> {
+        return Promise.resolve()
+    }
+
+    /**
+     * Resolves immediately, there is no connection to wait for.
+     */
+    public waitUntilReady(timeout?: number): Promise<void> {
+        return Promise.resolve()
+    }
+
+    /**
+     * Always reports healthy, there is no remote cache service.
+     */
+    public healthCheck(timeout?: number): Promise<CacheHealth> {
+        return Promise.resolve({
+            isHealthy: true,
+            nodes: [],
+        })
+    }
+
+    /**
+     * Removes an exact key or multiple matched keys from cache.
+     */
+    public delete(key: string, opts: CacheDelOptions = {}): Promise<void> {
+        Guard.assertArgDefined('key', key)
+        if (opts.isPattern) {
+            this._deletePattern(key)
+        }
+        else {
+            key = opts.isGlobal ? key : this._realKey(key)
+            this._store.delete(key)
+            this._tags.remove(key)
+        }
+        this._notify(CacheEvent.DELETE, { key, operation: 'delete' })
+        return Promise.resolve()
+    }
+
+    private _deletePattern(pattern: string): void {
+        // Replace with Regexp syntax
+        pattern = pattern.replace(/\*/g, '(.*)').replace(/\?/g, '(.?)')
+        const regex = new RegExp(`^${pattern}$`)
+        for (const key of Array.from(this._store.keys())) {
+            if (key.match(regex)) {
+                this._store.delete(key)
+                this._tags.remove(key)
+            }
+        }
+    }
+
+    /**
+     * Retrieves a string or number or boolean from cache.
+     * @param {string} key The key to look up.
+     */
+    public getPrimitive(key: string, opts: CacheGetOptions = {}): Promise<Maybe<PrimitiveType>> {
+        Guard.assertArgDefined('key', key)
+        key = opts.isGlobal ? key : this._realKey(key)
+        const parseType = (opts.parseType != null) ? opts.parseType : true
+        try {
+            const stored = this._readString(key, 'getPrimitive')
+            return Promise.resolve(parseType
+                ? stored.map(s => this._codecs.decode(s, undefined, parsePrimitiveType))
+                : stored)
+        }
+        catch (err) {
+            return Promise.reject(err)
+        }
+    }
+
+    /**
+     * Retrieves an array of strings or numbers or booleans from cache.
+     * @param {string} key The key to look up.
+     */
+    public getArray(key: string, opts: CacheGetOptions = {}): Promise<Maybe<PrimitiveType[]>> {
+        Guard.assertArgDefined('key', key)
+        key = opts.isGlobal ? key : this._realKey(key)
+        try {
+            return Promise.resolve(this._readString(key, 'getArray').map(s => this._codecs.decode(s, opts.codec)))
+        }
+        catch (err) {
+            return Promise.reject(err)
+        }
+    }
+
+    /**
+     * Retrieves an object from cache.
+     * @param {string} key The key to look up.
+     */
+    public getObject(key: string, opts: CacheGetOptions = {}): Promise<Maybe<object>> {
+        Guard.assertArgDefined('key', key)
+        key = opts.isGlobal ? key : this._realKey(key)
+        const parseType = (opts.parseType != null) ? opts.parseType : true
+        const entry = this._readEntry(key)
+        this._notifyRead(key, 'getObject', entry)
+        if (!entry) {
+            return Promise.resolve(Maybe.Nothing())
+        }
+        if (typeof entry.value === 'string') {
+            let decoded: any
+            try {
+                decoded = this._codecs.decode(entry.value, opts.codec)
+            }
+            catch (err) {
+                return Promise.reject((err instanceof SyntaxError) ? wrongTypeError(key) : err)
+            }
+            return (decoded != null && typeof decoded === 'object')
+                ? Promise.resolve(Maybe.Just(decoded))
+                : Promise.reject(wrongTypeError(key))
+        }
+
+        // Always return a copy so that the stored hash cannot be mutated from outside.
+        const obj: StoredHash = { ...entry.value }
+        return Promise.resolve(Maybe.Just(parseType ? parseObjectType(obj) : obj))
+    }
+
+    /**
+     * Saves a string or number or boolean to cache.
+     * @param {string} key The key for later look up.
+     * @param {Primitive} value Primitive value to save.
+     */
+    public setPrimitive(key: string, value: PrimitiveType, opts: CacheSetOptions = {}): Promise<void> {
+        Guard.assertArgDefined('key', key)
+        Guard.assertArgDefined('value', value)
+        key = opts.isGlobal ? key : this._realKey(key)
+        this._writeEntry(key, String(value), opts.duration)
+        this._tags.add(key, this._tagKeys(opts))
+        this._notify(CacheEvent.SET, { key, level: CacheLevel.LOCAL, operation: 'setPrimitive' })
+        return Promise.resolve()
+    }
+
+    /**
+     * Saves an array to cache.
+     * @param {string} key The key for later look up.
+     * @param {PrimitiveType[] | object[] } arr Array of any type to save.
+     */
+    public setArray(key: string, arr: any[], opts: CacheSetOptions = {}): Promise<void> {
+        Guard.assertArgDefined('key', key)
+        Guard.assertArgDefined('arr', arr)
+        return this.setPrimitive(key, this._codecs.encode(arr, opts.codec), opts)
+    }
+
+    /**
+     * Saves an object to cache.
+     * @param {string} key The key for later look up.
+     * @param {object} value Object value to save.
+     */
+    public setObject(key: string, value: object, opts: CacheSetOptions = {}): Promise<void> {
+        Guard.assertArgDefined('key', key)
+        Guard.assertArgDefined('value', value)
+        key = opts.isGlobal ? key : this._realKey(key)
+        const layout = opts.objectLayout || this._options.objectLayout || CacheObjectLayout.JSON
+        if (layout === CacheObjectLayout.JSON) {
+            this._writeEntry(key, this._codecs.encode(value, opts.codec), opts.duration)
+        }
+        else {
+            // Same as Redis HMSET, every property is converted to string
+            const hash = Object.entries(value).reduce((prev, [prop, val]) => {
+                prev[prop] = String(val)
+                return prev
+            }, {} as StoredHash)
+            this._writeEntry(key, hash, opts.duration)
+        }
+        this._tags.add(key, this._tagKeys(opts))
+        this._notify(CacheEvent.SET, { key, level: CacheLevel.LOCAL, operation: 'setObject' })
+        return Promise.resolve()
+    }
+
+    /**
+     * Retrieves multiple strings or numbers or booleans from cache.
+     * @param {string[]} keys The keys to look up.
+     * @returns Values in the same order as `keys`, `Nothing` for keys not found.
+     */
+    public getManyPrimitives(keys: string[], opts: CacheGetOptions = {}): Promise<Maybe<PrimitiveType>[]> {
+        Guard.assertArgDefined('keys', keys)
+        return Promise.all(keys.map(k => this.getPrimitive(k, opts)))
+    }
+
+    /**
+     * Retrieves multiple objects from cache.
+     * @param {string[]} keys The keys to look up.
+     * @returns Objects in the same order as `keys`, `Nothing` for keys not found.
+     */
+    public getManyObjects(keys: string[], opts: CacheGetOptions = {}): Promise<Maybe<object>[]> {
+        Guard.assertArgDefined('keys', keys)
+        return Promise.all(keys.map(k => this.getObject(k, opts)))
+    }
+
+    /**
+     * Saves multiple values to cache. Each value is saved the same way as
+     * `setPrimitive`, `setArray` or `setObject` depending on its type.
+     * @param {object} entries Map of keys and values to save.
+     */
+    public async setMany(entries: CacheEntries, opts: CacheSetOptions = {}): Promise<void> {
+        Guard.assertArgDefined('entries', entries)
+        for (const [key, value] of Object.entries(entries)) {
+            if (Array.isArray(value)) {
+                await this.setArray(key, value, opts)
+            } else if (typeof value === 'object') {
+                await this.setObject(key, value, opts)
+            } else {
+                await this.setPrimitive(key, value, opts)
+            }
+        }
+    }
+
+    /**
+     * Removes multiple exact keys from cache. Option `isPattern` is ignored.
+     * @param {string[]} keys The keys to remove.
+     */
+    public async deleteMany(keys: string[], opts: CacheDelOptions = {}): Promise<void> {
+        Guard.assertArgDefined('keys', keys)
+        for (const key of keys) {
+            await this.delete(key, { isGlobal: opts.isGlobal })
+        }
+    }
+
+    /**
+     * Removes all values associated with any of `tags`.
+     * @param {string[]} tags The tags whose values are removed.
+     */
+    public invalidateTags(tags: string[], opts: CacheInvalidateOptions = {}): Promise<void> {
+        Guard.assertArgDefined('tags', tags)
+        for (const tagKey of this._tagKeys({ ...opts, tags })) {
+            this._tags.take(tagKey).forEach(key => {
+                this._store.delete(key)
+                this._notify(CacheEvent.DELETE, { key, operation: 'invalidateTags' })
+            })
+        }
+        return Promise.resolve()
+    }
+
+    /**
+     * Adds `by` to a number in cache. A missing key is created as zero before adding.
+     * Option `duration` only takes effect when the counter is created.
+     * @param {string} key The key of the counter.
+     * @param {number} by Integer or float step. Default is `1`.
+     * @returns The value after adding.
+     */
+    public increment(key: string, by: number = 1, opts: CacheCounterOptions = {}): Promise<number> {
+        Guard.assertArgDefined('key', key)
+        key = opts.isGlobal ? key : this._realKey(key)
+        try {
+            if (!Number.isFinite(by)) {
+                throw new InvalidArgumentException('by', 'Must be a finite number')
+            }
+            const entry = this._readEntry(key)
+            if (!entry) {
+                this._writeEntry(key, String(by), opts.duration)
+                this._notify(CacheEvent.SET, { key, level: CacheLevel.LOCAL, operation: 'increment' })
+                return Promise.resolve(by)
+            }
+            if (typeof entry.value !== 'string') {
+                throw wrongTypeError(key)
+            }
+            const current = Number(entry.value)
+            if (!entry.value.trim() || !Number.isFinite(current)) {
+                throw new MinorException(`Value of key "${key}" is not a number`)
+            }
+            // Keeps the expiration set when the counter was created
+            entry.value = String(current + by)
+            this._notify(CacheEvent.SET, { key, level: CacheLevel.LOCAL, operation: 'increment' })
+            return Promise.resolve(current + by)
+        }
+        catch (err) {
+            return Promise.reject(err)
+        }
+    }
+
+    /**
+     * Subtracts `by` from a number in cache. A missing key is created as zero before subtracting.
+     * Option `duration` only takes effect when the counter is created.
+     * @param {string} key The key of the counter.
+     * @param {number} by Integer or float step. Default is `1`.
+     * @returns The value after subtracting.
+     */
+    public decrement(key: string, by: number = 1, opts: CacheCounterOptions = {}): Promise<number> {
+        return this.increment(key, -by, opts)
+    }
+
+    /**
+     * Retrieves a value from cache. If not found, invokes `loader` then saves its result to cache.
+     * Concurrent calls with the same key share one `loader` invocation.
+     * If `loader` resolves to `null` or `undefined`, nothing is saved.
+     * @param {string} key The key to look up.
+     * @param {Function} loader Produces the value when it is not in cache.
+     */
+    public async getOrSet<T = any>(key: string, loader: () => Promise<T>, opts: CacheGetOrSetOptions = {}): Promise<T> {
+        Guard.assertArgDefined('key', key)
+        Guard.assertArgFunction('loader', loader)
+        const cached = await this._getByType(key, opts)
+        if (cached.isJust) {
+            return cached.value
+        }
+        const realKey = opts.isGlobal ? key : this._realKey(key)
+        return this._loaders.run(realKey, async () => {
+            const value = await loader()
+            if (value != null) {
+                await this._setByType(key, value, opts)
+            }
+            return value
+        })
+    }
+
+    /**
+     * Acquires a lock which is only shared within this instance.
+     * @param {string} key The lock name.
+     * @returns The acquired lock, or `Nothing` if the lock is held by another owner after all retries.
+     */
+    public acquireLock(key: string, opts: CacheLockOptions): Promise<Maybe<ICacheLock>> {
+        Guard.assertArgDefined('key', key)
+        Guard.assertArgDefined('opts', opts)
+        Guard.assertArgDefined('ttl', opts.ttl)
+        const realKey = opts.isGlobal ? key : this._realKey(key)
+        return acquireLock(this._lockStore, `${realKey}${LOCK_SUFFIX}`, opts)
+    }
+
+
+    private _getByType(key: string, opts: CacheGetOrSetOptions): Promise<Maybe<any>> {
+        switch (opts.valueType) {
+            case CacheValueType.ARRAY:
+                return this.getArray(key, opts)
+            case CacheValueType.OBJECT:
+                return this.getObject(key, opts)
+            default:
+                return this.getPrimitive(key, opts)
+        }
+    }
+
+    private _setByType(key: string, value: any, opts: CacheGetOrSetOptions): Promise<void> {
+        switch (opts.valueType) {
+            case CacheValueType.ARRAY:
+                return this.setArray(key, value, opts)
+            case CacheValueType.OBJECT:
+                return this.setObject(key, value, opts)
+            default:
+                return this.setPrimitive(key, value, opts)
+        }
+    }
+
+    private _readEntry(key: string): MemoryEntry {
+        const entry = this._store.get(key)
+        if (!entry) { return null }
+        if (isExpired(entry, Date.now())) {
+            this._expire(key)
+            return null
+        }
+        return entry
+    }
+
+    private _readString(key: string, operation: string): Maybe<string> {
+        const entry = this._readEntry(key)
+        this._notifyRead(key, operation, entry)
+        if (!entry) {
+            return Maybe.Nothing()
+        }
+        if (typeof entry.value !== 'string') {
+            throw wrongTypeError(key)
+        }
+        return Maybe.Just(entry.value)
+    }
+
+    private _writeEntry(key: string, value: string | StoredHash, duration?: number): void {
+        if (duration == null) {
+            duration = this._options.defaultDuration || 0
+        }
+        this._store.set(key, {
+            value,
+            expireAt: (duration > 0) ? Date.now() + duration * 1000 : 0,
+        })
+    }
+
+    /**
+     * Removes expired entries which have not been accessed since they expired.
+     */
+    private _sweep(): void {
+        const now = Date.now()
+        for (const [key, entry] of Array.from(this._store)) {
+            isExpired(entry, now) && this._expire(key)
+        }
+    }
+
+    private _expire(key: string): void {
+        this._store.delete(key)
+        this._tags.remove(key)
+        this._notify(CacheEvent.EXPIRE, { key, level: CacheLevel.LOCAL })
+    }
+
+    private _notifyRead(key: string, operation: string, entry: MemoryEntry): void {
+        entry
+            ? this._notify(CacheEvent.HIT, { key, operation, level: CacheLevel.LOCAL })
+            : this._notify(CacheEvent.MISS, { key, operation })
+    }
+
+    /**
+     * Counts `event` in statistics, then emits it if there are listeners.
+     */
+    private _notify(event: CacheEvent, args: CacheEventArgs): void {
+        this._stats.countEvent(event, args.level)
+        if (!this.listenerCount(event)) { return }
+        try {
+            this.emit(event, args)
+        }
+        catch (err) {
+            debug(`A listener of event "${event}" failed: ${err.message}`)
+        }
+    }
+
+    /**
+     * Builds the same tag keys as `RedisCacheProvider`.
+     */
+    private _tagKeys(opts: { tags?: string[], isGlobal?: boolean }): string[] {
+        return (opts.tags || []).map(tag => opts.isGlobal
+            ? `${TAG_PREFIX}${tag}`
+            : this._realKey(`${TAG_PREFIX}${tag}`),
+        )
+    }
+
+    private _realKey(key: string): string {
+        return `${this._options.name}::${key}`
+    }
+}
+
+function isExpired(entry: MemoryEntry, now: number): boolean {
+    return entry.expireAt > 0 && entry.expireAt <= now
+}
+
+function wrongTypeError(key: string): MinorException {
+    return new MinorException(`WRONGTYPE Operation against key "${key}" holding the wrong kind of value`)
+}
+
+function parsePrimitiveType(val: string): any {
+    try {
+        // Try parsing to number or boolean
+        return JSON.parse(val)
+    } catch {
+        return val
+    }
+}
+
+function parseObjectType(obj: StoredHash): any {
+    for (const p in obj) {
+        /* istanbul ignore else */
+        if (obj.hasOwnProperty(p)) {
+            obj[p] = parsePrimitiveType(obj[p])
+        }
+    }
+    return obj
+}
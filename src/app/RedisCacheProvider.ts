@@ -1,501 +1,1931 @@
-import * as util from 'util'
-import * as redis from 'redis'
-import * as RedisClustr from 'redis-clustr'
-redis.Multi.prototype.execAsync = util.promisify(redis.Multi.prototype.exec)
-import { Maybe, Guard, PrimitiveType } from '@micro-fleet/common'
-
-import { ICacheProvider, CacheGetOptions, CacheSetOptions,
-    CacheLevel, CacheConnectionDetail, CacheDelOptions } from './ICacheProvider'
-
-
-type CacheLockChain = Promise<void>[]
-
-// tslint:disable-next-line: interface-name
-interface RedisClient extends redis.RedisClient {
-    [x: string]: any
-}
-
-// tslint:disable-next-line: interface-name
-interface MultiAsync extends redis.Multi {
-    [x: string]: any
-}
-
-type ScanResult = { cursor: string, keys: string[] }
-
-const EVENT_PREFIX = '__keyspace@0__:'
-
-export type CacheProviderConstructorOpts = {
-    /**
-     * Is prepended in cache key to avoid key collision between cache instances.
-     */
-    name: string,
-
-    /**
-     * Credentials to connect to a single cache service.
-     */
-    single?: CacheConnectionDetail,
-
-    /**
-     * Credentials to connect to a cluster of cache services.
-     * This option overrides `single`.
-     */
-    cluster?: CacheConnectionDetail[]
-}
-
-/**
- * Provides methods to read and write data to cache.
- */
-export class RedisCacheProvider implements ICacheProvider {
-
-    private _engine: RedisClient
-    private _engineSub: RedisClient
-    private _localCache: { [x: string]: PrimitiveType | object }
-    private _cacheLocks: { [x: string]: CacheLockChain }
-    private _keyRegrex: RegExp
-
-
-    /**
-     * Stores setTimeout token of each key.
-     */
-    private _cacheExps: { [x: string]: NodeJS.Timer }
-
-
-    constructor(private _options?: CacheProviderConstructorOpts) {
-        this._localCache = {
-            '@#!': null, // Activate hash mode (vs. V8's hidden class mode)
-        }
-        this._cacheExps = {}
-        this._cacheLocks = {}
-
-        if (!_options) { return }
-
-        if (_options.cluster) {
-            this._promisify(RedisClustr.prototype)
-            this._engine = new RedisClustr({
-                servers: _options.cluster,
-            })
-        } else if (_options.single) {
-            this._promisify(redis.RedisClient.prototype)
-            this._engine = this._connectSingle(_options.single)
-        }
-    }
-
-    private get _hasEngine(): boolean {
-        return (this._engine != null)
-    }
-
-    /**
-     * Clears all local cache and disconnects from remote cache service.
-     */
-    public async dispose(): Promise<void> {
-        const tasks = []
-        if (this._engine) {
-            tasks.push(this._engine.quitAsync())
-        }
-        if (this._engineSub) {
-            tasks.push(this._engineSub.quitAsync())
-            this._engineSub = null
-        }
-        await Promise.all(tasks)
-        this._engine = this._localCache = this._cacheExps = null
-    }
-
-    /**
-     * Removes an exact key or multiple matched keys from cache.
-     */
-    public async delete(key: string, opts: CacheDelOptions = {}): Promise<void> {
-        if (opts.isPattern) {
-            return this._deletePattern(key)
-        }
-        key = opts.isGlobal ? key : this._realKey(key)
-        Guard.assertArgDefined('key', key)
-        this._deleteLocal(key)
-        await this._syncOff(key)
-        await this._engine.delAsync(key)
-    }
-
-    private async _deletePattern(pattern: string): Promise<void> {
-        this._deleteLocalPattern(pattern)
-        if (!this._engine) { return }
-
-        // Scan all remote keys
-        // Delete all of them
-
-        const END_CURSOR = '0'
-        let result: ScanResult = {
-            cursor: '',
-            keys: [],
-        }
-        const keySet = new Set<string>()
-        do {
-            result = await this._scanRemoteKeys(pattern, result.cursor)
-            // Redis SCAN may return duplicate items
-            // Adding to a Set to avoid duplication
-            result.keys.forEach(k => keySet.add(k))
-        } while (result.cursor != END_CURSOR)
-
-        return (result.keys.length > 0)
-            ? this._engine.delAsync(...keySet)
-            : Promise.resolve()
-    }
-
-    private _deleteLocalPattern(pattern: string): void {
-        // Replace with Regexp syntax
-        pattern = pattern.replace(/\*/g, '(.*)').replace(/\?/g, '(.?)')
-        const regex = new RegExp(`^${pattern}$`)
-        this._localCache = Object.entries(this._localCache)
-            .reduce((prev, [key, val]) => {
-                if (!key.match(regex)) {
-                    prev[key] = val
-                }
-                return prev
-            }, {})
-    }
-
-    /**
-     * @see https://redis.io/commands/scan
-     */
-    private async _scanRemoteKeys(pattern: string, fromCursor: string): Promise<ScanResult> {
-        const ITEMS_PER_ITERATION = 10
-        const result: [string, string[]] = await this._engine.scanAsync(fromCursor, 'MATCH', pattern, 'COUNT', ITEMS_PER_ITERATION)
-        return {
-            cursor: result[0],
-            keys: result[1],
-        }
-    }
-
-    /**
-     * Retrieves a string or number or boolean from cache.
-     * @param {string} key The key to look up.
-     */
-    public getPrimitive(key: string, opts: CacheGetOptions = {}): Promise<Maybe<PrimitiveType>> {
-        Guard.assertArgDefined('key', key)
-        key = opts.isGlobal ? key : this._realKey(key)
-        const parseType = (opts.parseType != null) ? opts.parseType : true
-
-        if (opts.forceRemote && this._hasEngine) {
-            return this._fetchPrimitive(key, parseType)
-        }
-        else if (this._localCache.hasOwnProperty(key)) {
-            return Promise.resolve(Maybe.Just<any>(this._localCache[key]))
-        }
-        else if (this._hasEngine) {
-            return this._fetchPrimitive(key, parseType)
-        }
-
-        return Promise.resolve(Maybe.Nothing())
-    }
-    /**
-     * Retrieves an array of strings or numbers or booleans from cache.
-     * @param {string} key The key to look up.
-     * @param {boolean} forceRemote Skip local cache and fetch from remote server. Default is `false`.
-     */
-    public async getArray(key: string, opts: CacheGetOptions = {}): Promise<Maybe<PrimitiveType[]>> {
-        Guard.assertArgDefined('key', key)
-        key = opts.isGlobal ? key : this._realKey(key)
-        let stringified: Maybe<string>
-
-        if (opts.forceRemote && this._hasEngine) {
-            stringified = (await this._fetchPrimitive(key, false))
-        }
-        else if (this._localCache.hasOwnProperty(key)) {
-            stringified = Maybe.Just(this._localCache[key] as string)
-        }
-        else if (this._hasEngine) {
-            stringified = (await this._fetchPrimitive(key, false))
-        } else {
-            stringified = Maybe.Nothing()
-        }
-
-        return Promise.resolve(stringified.map(JSON.parse))
-    }
-
-    /**
-     * Retrieves an object from cache.
-     * @param {string} key The key to look up.
-     */
-    public getObject(key: string, opts: CacheGetOptions = {}): Promise<Maybe<object>> {
-        Guard.assertArgDefined('key', key)
-        key = opts.isGlobal ? key : this._realKey(key)
-        const parseType = (opts.parseType != null) ? opts.parseType : true
-
-        if (opts.forceRemote && this._hasEngine) {
-            return this._fetchObject(key, parseType)
-        }
-        else if (this._localCache.hasOwnProperty(key)) {
-            return Promise.resolve(Maybe.Just<any>(this._localCache[key]))
-        }
-        else if (this._hasEngine) {
-            return this._fetchObject(key, parseType)
-        }
-
-        return Promise.resolve(Maybe.Nothing())
-    }
-
-    /**
-     * Saves a string or number or boolean to cache.
-     * @param {string} key The key for later look up.
-     * @param {Primitive} value Primitive value to save.
-     */
-    public async setPrimitive(key: string, value: PrimitiveType, opts: CacheSetOptions = {}): Promise<void> {
-        Guard.assertArgDefined('key', key)
-        Guard.assertArgDefined('value', value)
-
-        let multi: MultiAsync
-        const level = this._defaultLevel(opts.level)
-        const duration = opts.duration || 0
-        key = opts.isGlobal ? key : this._realKey(key)
-
-        if (this._includeBit(level, CacheLevel.LOCAL)) {
-            this._localCache[key] = value
-            this._setLocalExp(key, duration)
-        }
-
-        if (this._hasEngine && this._includeBit(level, CacheLevel.REMOTE)) {
-            multi = this._engine.multi()
-            multi.del(key)
-            multi.set(key, <any>value)
-            if (duration > 0) {
-                multi.expire(key, duration)
-            }
-
-            await multi.execAsync()
-        }
-
-        if (this._hasEngine && this._includeBit(level, CacheLevel.BOTH)) {
-            await this._syncOn(key)
-        }
-    }
-
-    /**
-     * Saves an array to cache.
-     * @param {string} key The key for later look up.
-     * @param {PrimitiveType[] | object[] } arr Array of any type to save.
-     */
-    public setArray(key: string, arr: any[], opts: CacheSetOptions = {}): Promise<void> {
-        Guard.assertArgDefined('key', key)
-        Guard.assertArgDefined('arr', arr)
-
-        const stringified = JSON.stringify(arr)
-        const promise = this.setPrimitive(key, stringified, opts)
-        return promise
-    }
-
-    /**
-     * Saves an object to cache.
-     * @param {string} key The key for later look up.
-     * @param {object} value Object value to save.
-     */
-    public async setObject(key: string, value: object, opts: CacheSetOptions = {}): Promise<void> {
-        Guard.assertArgDefined('key', key)
-        Guard.assertArgDefined('value', value)
-        let multi: MultiAsync
-        const level = this._defaultLevel(opts.level)
-        const duration = opts.duration || 0
-        key = opts.isGlobal ? key : this._realKey(key)
-
-        if (this._includeBit(level, CacheLevel.LOCAL)) {
-            this._localCache[key] = value
-            this._setLocalExp(key, duration)
-        }
-
-        if (this._hasEngine && this._includeBit(level, CacheLevel.REMOTE)) {
-            multi = this._engine.multi()
-            multi.del(key)
-            multi.hmset(key, <any>value)
-            if (duration > 0) {
-                multi.expire(key, duration)
-            }
-            await multi.execAsync()
-        }
-
-        if (this._hasEngine && this._includeBit(level, CacheLevel.BOTH)) {
-            await this._syncOn(key)
-        }
-    }
-
-
-    private _connectSingle({ host, port }: CacheConnectionDetail): redis.RedisClient {
-        return redis.createClient({ host, port })
-    }
-
-    private _defaultLevel(level: CacheLevel): CacheLevel {
-        return (level)
-            ? level
-            : (this._hasEngine) ? CacheLevel.REMOTE : CacheLevel.LOCAL
-    }
-
-    private _deleteLocal(key: string) {
-        delete this._localCache[key]
-        clearTimeout(this._cacheExps[key])
-        delete this._cacheExps[key]
-    }
-
-    private _extractKey(channel: string): string {
-        const result = this._keyRegrex.exec(channel)
-        return result[1]
-    }
-
-    private async _fetchObject(key: string, parseType: boolean): Promise<Maybe<any>> {
-        const response = await this._engine.hgetallAsync(key)
-        const data = (parseType ? this._parseObjectType(response) : response)
-        return (data == null) ? Maybe.Nothing() : Maybe.Just(data)
-    }
-
-    private async _fetchPrimitive(key: string, parseType: boolean): Promise<Maybe<any>> {
-        const response = await this._engine.getAsync(key)
-        const data = (parseType ? this._parsePrimitiveType(response) : response)
-        return (data == null) ? Maybe.Nothing() : Maybe.Just(data)
-    }
-
-    private _createLockChain(): CacheLockChain {
-        return []
-    }
-
-    /**
-     * Removes the last lock from lock queue then returns it.
-     */
-    private _popLock(key: string): Promise<void> {
-        const lockChain: CacheLockChain = this._cacheLocks[key],
-            lock = lockChain.pop()
-        if (!lockChain.length) {
-            delete this._cacheLocks[key]
-        }
-        return lock
-    }
-
-    /**
-     * Gets the first lock in queue.
-     */
-    private _peekLock(key: string): Promise<void> {
-        return (this._cacheLocks[key]) ? this._cacheLocks[key][0] : null
-    }
-
-    /**
-     * Adds a new lock at the beginning of lock queue.
-     */
-    private _pushLock(key: string): void {
-        let lockChain: CacheLockChain = this._cacheLocks[key]
-        let releaseFn
-
-        // Note: The callback inside Promise constructor
-        //        is invoked SYNCHRONOUSLY
-        const lock = new Promise<void>(resolve => releaseFn = resolve)
-        lock['release'] = releaseFn
-
-        if (!lockChain) {
-            lockChain = this._cacheLocks[key] = this._createLockChain()
-        }
-        lockChain.unshift(lock)
-    }
-
-    private _lockKey(key: string): Promise<void> {
-        const lock = this._peekLock(key)
-
-        // Put my lock here
-        this._pushLock(key)
-
-        // If I'm the first one, I don't need to wait.
-        if (!lock) {
-            return Promise.resolve()
-        }
-
-        // If this key is already locked, then wait...
-        return lock
-    }
-
-    private _releaseKey(key: string): void {
-        const lock = this._popLock(key)
-        lock && lock['release']()
-    }
-
-    private async _syncOn(key: string): Promise<void> {
-        let sub = this._engineSub
-
-        if (!sub) {
-            this._keyRegrex = new RegExp(`${EVENT_PREFIX}(.*)`)
-            if (this._options.cluster) {
-                // Redis-clusr can handle bi-directional commands.
-                sub = this._engineSub = this._engine
-            } else {
-                sub = this._engineSub = this._connectSingle(this._options.single)
-            }
-
-            // TODO: This config should be in Redis conf
-            await this._engine.config('SET', 'notify-keyspace-events', 'KEA')
-            sub.on('message', async (channel, action) => {
-                const affectedKey = this._extractKey(channel)
-
-                await this._lockKey(key)
-
-                switch (action) {
-                    case 'set':
-                        (await this._fetchPrimitive(affectedKey, true))
-                            .map(val => this._localCache[affectedKey] = val)
-                        break
-                    case 'hset':
-                        (await this._fetchObject(affectedKey, true))
-                            .map(val => this._localCache[affectedKey] = val)
-                        break
-                    case 'del':
-                        this._deleteLocal(affectedKey)
-                        break
-                    default:
-                        break
-                }
-                this._releaseKey(key)
-            })
-        }
-
-        // Listens to changes of this key.
-        await sub.subscribeAsync(`${EVENT_PREFIX}${key}`)
-    }
-
-    private async _syncOff(key: string): Promise<void> {
-        const sub = this._engineSub
-        if (!sub) { return }
-        await sub.unsubscribeAsync(`${EVENT_PREFIX}${key}`)
-    }
-
-    private _includeBit(source: CacheLevel, target: CacheLevel): boolean {
-        return ((source & target) == target)
-    }
-
-    private _parsePrimitiveType(val: string): any {
-        try {
-            // Try parsing to number or boolean
-            return JSON.parse(val)
-        } catch {
-            return val
-        }
-    }
-
-    private _parseObjectType(obj: {[x: string]: string}): any {
-        for (const p in obj) {
-            /* istanbul ignore else */
-            if (obj.hasOwnProperty(p)) {
-                obj[p] = this._parsePrimitiveType(obj[p])
-            }
-        }
-        return obj
-    }
-
-    private _promisify(prototype: any): void {
-        const FN = ['del', 'hmset', 'hgetall', 'get', 'set',
-            'config', 'quit', 'subscribe', 'unsubscribe', 'scan']
-        for (const fn of FN) {
-            prototype[`${fn}Async`] = util.promisify(prototype[fn])
-        }
-        prototype['__promisified'] = true
-    }
-
-    private _setLocalExp(key: string, duration: number): void {
-        if (duration > 0) {
-            this._cacheExps[key] = setTimeout(() => this._deleteLocal(key), duration * 1000)
-        }
-    }
-
-    private _realKey(key: string): string {
-        return `${this._options.name}::${key}`
-    }
-}
+/// <reference types="debug" />
+const debug: debug.IDebugger = require('debug')('mcft:cache:RedisCacheProvider')
+const calculateSlot: (key: string) => number = require('cluster-key-slot')
+
+import * as util from 'util'
+import { EventEmitter } from 'events'
+import * as redis from 'redis'
+import * as RedisClustr from 'redis-clustr'
+redis.Multi.prototype.execAsync = util.promisify(redis.Multi.prototype.exec)
+import { Maybe, Guard, PrimitiveType, InvalidArgumentException, MinorException } from '@micro-fleet/common'
+
+import { ICacheProvider, CacheGetOptions, CacheSetOptions, CacheGetOrSetOptions, CacheValueType, CacheEntries,
+    CacheObjectLayout, ICacheCodec, CacheCompressionOptions, CacheInvalidateOptions,
+    CacheLevel, CacheConnectionDetail, CacheDelOptions, CacheSentinelDetail,
+    CacheLockOptions, ICacheLock, CacheEvent, CacheEventArgs, CircuitState, CircuitBreakerOptions,
+    CacheHealth, CacheNodeHealth, CacheSubscriberHealth, CacheCounterOptions } from './ICacheProvider'
+import { LocalStoreTracker, LocalStoreOptions } from './LocalStoreTracker'
+import { SentinelConnector } from './SentinelConnector'
+import { createRedisClient } from './create-client'
+import { SingleFlight } from './SingleFlight'
+import { CodecRegistry } from './CodecRegistry'
+import { ValueCompressor } from './ValueCompressor'
+import { LocalTagIndex } from './LocalTagIndex'
+import { CacheStats, CacheStatsCollector } from './CacheStats'
+import { CircuitBreaker } from './CircuitBreaker'
+import { withTimeout } from './with-timeout'
+import { ILockStore, RedisLockStore, LocalLockStore, LOCK_SUFFIX,
+    acquireLock, createLockToken } from './CacheLock'
+
+
+type CacheLockChain = Promise<void>[]
+
+// tslint:disable-next-line: interface-name
+interface RedisClient extends redis.RedisClient {
+    [x: string]: any
+}
+
+// tslint:disable-next-line: interface-name
+interface MultiAsync extends redis.Multi {
+    [x: string]: any
+}
+
+type ScanResult = { cursor: string, keys: string[] }
+
+type LocalEntry = { key: string, value: PrimitiveType | object }
+
+/**
+ * @returns Milliseconds since `startedAt`, which is the result of `process.hrtime()`.
+ */
+function elapsedSince(startedAt: [number, number]): number {
+    const [seconds, nanoseconds] = process.hrtime(startedAt)
+    return seconds * 1e3 + nanoseconds / 1e6
+}
+
+/**
+ * Measures latency of the decorated async method and reports its failures.
+ */
+function measured(proto: any, fnName: string, propDesc: PropertyDescriptor): PropertyDescriptor {
+    const originalFn = propDesc.value
+    propDesc.value = async function (...args: any[]) {
+        const provider: RedisCacheProvider = this
+        const startedAt = process.hrtime()
+        try {
+            return await originalFn.apply(provider, args)
+        }
+        catch (error) {
+            provider['_notify'](CacheEvent.ERROR, {
+                key: (typeof args[0] === 'string') ? args[0] : undefined,
+                operation: fnName,
+                elapsed: elapsedSince(startedAt),
+                error,
+            })
+            throw error
+        }
+        finally {
+            provider['_stats'].observe(fnName, elapsedSince(startedAt))
+        }
+    }
+    return propDesc
+}
+
+/**
+ * Keeps track of calls in progress of the decorated write method, so that `deadLetter` can wait for them.
+ */
+function pendingWrite(proto: any, fnName: string, propDesc: PropertyDescriptor): PropertyDescriptor {
+    const originalFn = propDesc.value
+    propDesc.value = function (...args: any[]) {
+        const provider: RedisCacheProvider = this
+        const writes: Set<Promise<any>> = provider['_pendingWrites']
+        const promise: Promise<any> = originalFn.apply(provider, args)
+        const untrack = () => writes.delete(promise)
+        writes.add(promise)
+        promise.then(untrack, untrack)
+        return promise
+    }
+    return propDesc
+}
+
+const EVENT_PREFIX = '__keyspace@'
+const TRACKING_CHANNEL = '__redis__:invalidate'
+const STALE_SUFFIX = '::@stale'
+const TAG_PREFIX = '@tag::'
+const TAGS_SUFFIX = '::@tags'
+const DEFAULT_LOCK_RETRY_INTERVAL = 50
+const DEFAULT_READY_TIMEOUT = 10000
+const DEFAULT_HEALTH_TIMEOUT = 2000
+const DEFAULT_SHUTDOWN_TIMEOUT = 5000
+const DEFAULT_FALLBACK_DURATION = 10
+
+/**
+ * Adds ARGV[2] to the counter, with INCRBY if ARGV[1] is "1" and the counter is an integer,
+ * otherwise with INCRBYFLOAT. Sets expiration ARGV[3] (in seconds, may be fractional) only if the counter is created.
+ * Returns the new value as string, and 1 if the counter is created or 0 otherwise.
+ */
+const INCREMENT_SCRIPT = `
+local created = 1 - redis.call("exists", KEYS[1])
+local value
+if ARGV[1] == "1" then
+    value = redis.pcall("incrby", KEYS[1], ARGV[2])
+end
+if ARGV[1] ~= "1" or (type(value) == "table" and value.err) then
+    value = redis.call("incrbyfloat", KEYS[1], ARGV[2])
+end
+if created == 1 and tonumber(ARGV[3]) > 0 then
+    redis.call("pexpire", KEYS[1], math.floor(ARGV[3] * 1000))
+end
+return {tostring(value), created}`
+
+/**
+ * Adds member ARGV[1] to set KEYS[1], then extends expiration of the set to at least ARGV[2] seconds,
+ * or removes its expiration if ARGV[2] is 0. A set without expiration never gets one.
+ */
+const ADD_MEMBER_SCRIPT = `
+local ttl = redis.call("ttl", KEYS[1])
+local duration = tonumber(ARGV[2])
+redis.call("sadd", KEYS[1], ARGV[1])
+if duration <= 0 then
+    redis.call("persist", KEYS[1])
+elseif ttl == -2 or (ttl >= 0 and ttl < duration) then
+    redis.call("expire", KEYS[1], math.ceil(duration))
+end`
+
+export enum SyncStrategy {
+    /**
+     * Subscribes to keyspace notification channel of each synced key.
+     * Requires privilege to run `CONFIG SET notify-keyspace-events`.
+     */
+    KEYSPACE = 'keyspace',
+
+    /**
+     * (Redis 6+) Uses server-assisted client side caching (`CLIENT TRACKING`) with
+     * invalidation messages redirected to the subscriber connection.
+     * Requires neither CONFIG privilege nor per-key subscriptions.
+     * Not supported in cluster mode.
+     */
+    TRACKING = 'tracking',
+
+    /**
+     * (Redis 6+) Same as `TRACKING`, but in broadcasting mode (`CLIENT TRACKING ... BCAST`):
+     * the server sends invalidation messages of all keys matching option `broadcastPrefixes`,
+     * so synced keys don't need to be read again to be tracked, at the cost of more messages.
+     * Not supported in cluster mode.
+     */
+    BROADCAST = 'broadcast',
+}
+
+export type CacheProviderConstructorOpts = {
+    /**
+     * Is prepended in cache key to avoid key collision between cache instances.
+     */
+    name: string,
+
+    /**
+     * Credentials to connect to a single cache service.
+     */
+    single?: CacheConnectionDetail,
+
+    /**
+     * Credentials to connect to a cluster of cache services.
+     * This option overrides `single` and `sentinel`.
+     */
+    cluster?: CacheConnectionDetail[]
+
+    /**
+     * Sentinel nodes to discover the master cache service, which is
+     * re-discovered automatically on failover.
+     * This option overrides `single`.
+     */
+    sentinel?: CacheSentinelDetail,
+
+    /**
+     * How to keep local cache in sync with remote values for `CacheLevel.BOTH`.
+     *
+     * Default is `SyncStrategy.KEYSPACE`.
+     */
+    syncStrategy?: SyncStrategy,
+
+    /**
+     * Only with `SyncStrategy.BROADCAST`, prefixes of the keys to be invalidated.
+     * Synced global keys must match one of them. Prefixes must not overlap each other.
+     *
+     * Default is the prefix of non-global keys of this provider, which is `{name}::`.
+     */
+    broadcastPrefixes?: string[],
+
+    /**
+     * Limits how much data is kept in local cache.
+     * If not specified, local cache grows without limit.
+     */
+    localStore?: LocalStoreOptions,
+
+    /**
+     * How objects are saved in remote cache service, can be overridden per call.
+     *
+     * Default is `CacheObjectLayout.JSON`.
+     */
+    objectLayout?: CacheObjectLayout,
+
+    /**
+     * How arrays and objects in JSON layout are encoded, can be overridden per call.
+     * Built-in codecs are `JsonCodec`, `TypedJsonCodec` and `MessagePackCodec`.
+     *
+     * Default is `JsonCodec`.
+     */
+    codec?: ICacheCodec,
+
+    /**
+     * If specified, large values are compressed before being sent to remote cache service.
+     * Objects in hash layout are not compressed.
+     * Compressed values are always decompressed when read, even without this option.
+     */
+    compression?: CacheCompressionOptions,
+
+    /**
+     * Level of values saved without option `level`.
+     *
+     * Default is `CacheLevel.REMOTE` if connected to remote service, otherwise `CacheLevel.LOCAL`.
+     */
+    defaultLevel?: CacheLevel,
+
+    /**
+     * Expiration time in seconds of values saved without option `duration`.
+     *
+     * Default is to never expire.
+     */
+    defaultDuration?: number,
+
+    /**
+     * If specified, failures of remote cache service don't fail the operations (fail-open).
+     * Reads are served from local cache or treated as not found, writes are saved to local cache only.
+     * After too many consecutive failures, remote cache service is skipped until it is probed successfully.
+     *
+     * Default is to throw errors of remote cache service to caller.
+     */
+    circuitBreaker?: CircuitBreakerOptions,
+}
+
+/**
+ * Provides methods to read and write data to cache.
+ * Emits `CacheEvent`s to observe cache activity.
+ */
+export class RedisCacheProvider extends EventEmitter implements ICacheProvider {
+
+    private _engine: RedisClient
+    private _engineSub: RedisClient
+    private _localCache: { [x: string]: PrimitiveType | object }
+    private _cacheLocks: { [x: string]: CacheLockChain }
+    private _keyRegrex: RegExp
+
+    /**
+     * Channel prefix of keyspace notifications, which depends on selected database.
+     */
+    private _eventPrefix: string
+    private _syncStrategy: SyncStrategy
+
+    /**
+     * Client ID of subscriber connection, which receives invalidation messages in tracking mode.
+     */
+    private _trackingId: number
+    private _localTracker: LocalStoreTracker
+
+    /**
+     * Only in sentinel mode, resolves when `_engine` is connected to current master.
+     */
+    private _engineReady: Promise<void>
+    private _sentinel: SentinelConnector
+    private _master: CacheConnectionDetail
+
+    /**
+     * Keys whose remote changes are being listened to.
+     */
+    private _syncKeys: Set<string>
+
+    /**
+     * Loaders of `getOrSet` which are in progress.
+     */
+    private _loaders: SingleFlight
+
+    /**
+     * Remote lock store if connected to cache service, otherwise process-local one.
+     */
+    private _lockStore: ILockStore
+    private _codecs: CodecRegistry
+    private _compressor: ValueCompressor
+
+    /**
+     * Tags of values in local cache.
+     */
+    private _localTags: LocalTagIndex
+
+    /**
+     * Hits, misses and latencies of this provider.
+     */
+    private _stats: CacheStatsCollector
+
+    /**
+     * Only with option `circuitBreaker`, decides whether to skip remote cache service.
+     */
+    private _breaker: CircuitBreaker
+
+    /**
+     * Keys saved to local cache only because remote cache service was unavailable.
+     */
+    private _fallbackKeys: Set<string>
+
+    /**
+     * Remote deletions which have been skipped by the circuit breaker, they are retried once the circuit is closed.
+     */
+    private _queuedDeletes: Map<string, () => Promise<void>>
+
+    /**
+     * Write operations in progress.
+     */
+    private _pendingWrites: Set<Promise<any>>
+
+    /**
+     * Once true, values saved afterwards are not kept in sync with remote values.
+     */
+    private _isDeadLettered: boolean
+
+
+    /**
+     * Stores setTimeout token of each key.
+     */
+    private _cacheExps: { [x: string]: NodeJS.Timer }
+
+
+    constructor(private _options?: CacheProviderConstructorOpts) {
+        super()
+        this._localCache = {
+            '@#!': null, // Activate hash mode (vs. V8's hidden class mode)
+        }
+        this._cacheExps = {}
+        this._cacheLocks = {}
+        this._syncKeys = new Set()
+        this._fallbackKeys = new Set()
+        this._queuedDeletes = new Map()
+        this._localTags = new LocalTagIndex()
+        this._stats = new CacheStatsCollector()
+        this._pendingWrites = new Set()
+        this._isDeadLettered = false
+        this._loaders = new SingleFlight()
+        this._lockStore = new LocalLockStore()
+        this._codecs = new CodecRegistry(_options && _options.codec)
+        this._compressor = new ValueCompressor(_options && _options.compression)
+
+        if (!_options) { return }
+
+        this._eventPrefix = this._buildEventPrefix()
+        this._syncStrategy = _options.syncStrategy || SyncStrategy.KEYSPACE
+        if (_options.cluster && this._syncStrategy !== SyncStrategy.KEYSPACE) {
+            throw new InvalidArgumentException('syncStrategy', 'Tracking sync strategy is not supported in cluster mode')
+        }
+        if (_options.localStore) {
+            this._localTracker = new LocalStoreTracker(_options.localStore)
+        }
+        if (_options.circuitBreaker) {
+            this._breaker = new CircuitBreaker(_options.circuitBreaker,
+                (circuitState, error) => {
+                    debug(`Circuit is ${circuitState}${error ? ` because of: ${error.message}` : ''}`)
+                    const isClosed = (circuitState === CircuitState.CLOSED)
+                    this._toggleOfflineQueue(isClosed)
+                    isClosed && this._recoverRemote()
+                    this._notify(CacheEvent.CIRCUIT_CHANGE, { circuitState, error })
+                },
+                // Errors replied by cache service are caused by the command, not the service.
+                (error) => !(error instanceof redis.ReplyError),
+            )
+        }
+
+        if (_options.cluster) {
+            this._promisify(RedisClustr.prototype)
+            this._engine = new RedisClustr({
+                servers: _options.cluster,
+                createClient: (port: number, host: string) => this._connectClusterNode(host, port),
+            })
+            this._handleConnectionErrors(this._engine)
+        } else if (_options.sentinel) {
+            this._promisify(redis.RedisClient.prototype)
+            this._sentinel = new SentinelConnector(_options.sentinel)
+            this._engineReady = this._connectSentinel()
+            // Avoid unhandled rejection, the error is thrown to whoever uses the engine.
+            this._engineReady.catch(() => { /* Ignore */ })
+        } else if (_options.single) {
+            this._promisify(redis.RedisClient.prototype)
+            this._engine = this._connectSingle(_options.single)
+        }
+
+        if (this._hasEngine) {
+            this._lockStore = new RedisLockStore(() => this._getEngine())
+        }
+    }
+
+    /**
+     * @see ICacheProvider.name
+     */
+    public get name(): string {
+        return this._options && this._options.name
+    }
+
+    /**
+     * State of the circuit breaker, which is always `CircuitState.CLOSED` without option `circuitBreaker`.
+     */
+    public get circuitState(): CircuitState {
+        return this._breaker ? this._breaker.state : CircuitState.CLOSED
+    }
+
+    private get _hasEngine(): boolean {
+        return (this._engine != null || this._engineReady != null)
+    }
+
+    /**
+     * Whether remote cache service is connected and not skipped by the circuit breaker.
+     */
+    private get _isRemoteAvailable(): boolean {
+        return this._hasEngine && (this.circuitState !== CircuitState.OPEN)
+    }
+
+    /**
+     * Gets a copy of counters and latency histograms since creation or the last `resetStats()`.
+     */
+    public getStats(): CacheStats {
+        return this._stats.snapshot()
+    }
+
+    /**
+     * Sets all counters to zero and removes all latency observations.
+     */
+    public resetStats(): void {
+        this._stats.reset()
+    }
+
+    /**
+     * Stops keeping values saved afterwards in sync with remote values, then waits for writes in progress.
+     * @param {number} timeout Milliseconds to wait, writes still in progress after that are not waited for.
+     */
+    public async deadLetter(timeout: number = DEFAULT_SHUTDOWN_TIMEOUT): Promise<void> {
+        this._isDeadLettered = true
+        const writes = Array.from(this._pendingWrites)
+            .map(w => w.catch(() => { /* Already thrown to caller */ }))
+        try {
+            await withTimeout(() => Promise.all(writes), timeout)
+        }
+        catch (err) {
+            debug(`Stopped waiting for ${this._pendingWrites.size} writes in progress: ${err.message}`)
+        }
+    }
+
+    /**
+     * Clears all local cache, unsubscribes from remote changes and disconnects from remote cache service.
+     * @param {number} timeout Milliseconds to wait for connections to close gracefully,
+     *      after that they are closed forcibly.
+     */
+    public async dispose(timeout: number = DEFAULT_SHUTDOWN_TIMEOUT): Promise<void> {
+        this._isDeadLettered = true
+        Object.values(this._cacheExps || {}).forEach(timer => clearTimeout(timer))
+        const sentinel = this._sentinel
+        const sub = this._engineSub
+        this._sentinel = this._engineSub = null
+        try {
+            await withTimeout(async () => {
+                const tasks = []
+                if (sentinel) {
+                    tasks.push(sentinel.dispose())
+                    await this._engineReady.catch(() => { /* Nothing to quit */ })
+                }
+                if (sub) {
+                    // Without arguments, unsubscribes from all channels
+                    await sub.unsubscribeAsync()
+                }
+                if (this._engine) {
+                    tasks.push(this._engine.quitAsync())
+                }
+                if (sub && sub !== this._engine) {
+                    tasks.push(sub.quitAsync())
+                }
+                await Promise.all(tasks)
+            }, timeout)
+        }
+        catch (err) {
+            debug(`Closing cache connections forcibly: ${err.message}`)
+            this._engine && this._endClient(this._engine)
+            sub && sub !== this._engine && this._endClient(sub)
+        }
+        this._localTracker && this._localTracker.clear()
+        this._localTags.clear()
+        this._syncKeys.clear()
+        this._fallbackKeys.clear()
+        this._queuedDeletes.clear()
+        this._engine = this._engineReady = this._localCache = this._cacheExps = null
+    }
+
+    /**
+     * @see ICacheProvider.waitUntilReady
+     */
+    public async waitUntilReady(timeout: number = DEFAULT_READY_TIMEOUT): Promise<void> {
+        if (!this._hasEngine) { return }
+        let engine: RedisClient
+        let lastError: Error
+        let onReady: () => void
+        const onError = (err: Error) => lastError = err
+        try {
+            await withTimeout(async () => {
+                engine = await this._getEngine()
+                if (engine.ready) { return }
+                // Connection errors are always listened to, this one only remembers the last error
+                engine.on('error', onError)
+                await new Promise<void>(resolve => engine.once('ready', onReady = resolve))
+            }, timeout)
+        }
+        catch (err) {
+            throw new MinorException(`Cache service is not ready after ${timeout}ms: ${(lastError || err).message}`)
+        }
+        finally {
+            if (engine) {
+                engine.removeListener('error', onError)
+                onReady && engine.removeListener('ready', onReady)
+            }
+        }
+    }
+
+    /**
+     * @see ICacheProvider.healthCheck
+     */
+    public async healthCheck(timeout: number = DEFAULT_HEALTH_TIMEOUT): Promise<CacheHealth> {
+        const health: CacheHealth = {
+            isHealthy: true,
+            nodes: [],
+            circuitState: this.circuitState,
+        }
+        if (!this._hasEngine) {
+            return health
+        }
+
+        const startedAt = process.hrtime()
+        try {
+            await withTimeout(async () => (await this._getEngine()).pingAsync(), timeout,
+                `Cache service has not replied PING after ${timeout}ms`)
+            health.pingLatency = elapsedSince(startedAt)
+        }
+        catch (err) {
+            health.isHealthy = false
+            health.error = err.message
+        }
+        health.nodes = this._nodesHealth()
+        health.subscriber = this._subscriberHealth()
+        return health
+    }
+
+    /**
+     * Removes an exact key or multiple matched keys from cache.
+     */
+    @measured
+    @pendingWrite
+    public async delete(key: string, opts: CacheDelOptions = {}): Promise<void> {
+        const startedAt = process.hrtime()
+        if (opts.isPattern) {
+            await this._deletePattern(key)
+        }
+        else {
+            key = opts.isGlobal ? key : this._realKey(key)
+            Guard.assertArgDefined('key', key)
+            this._deleteLocal(key)
+            const remove = () => this._deleteRemote([key])
+            await this._callRemote('delete', key, remove, () => this._queueDelete(`delete:${key}`, remove))
+        }
+        this._notify(CacheEvent.DELETE, { key, operation: 'delete', elapsed: elapsedSince(startedAt) })
+    }
+
+    private async _deletePattern(pattern: string): Promise<void> {
+        const syncKeys = this._deleteLocalPattern(pattern).filter(key => this._syncKeys.has(key))
+        if (!this._hasEngine) { return }
+        const remove = async () => {
+            await Promise.all(syncKeys.map(key => this._syncOff(key)))
+            await this._deleteRemotePattern(pattern)
+        }
+        return this._callRemote('delete', pattern, remove, () => this._queueDelete(`deletePattern:${pattern}`, remove))
+    }
+
+    private async _deleteRemotePattern(pattern: string): Promise<void> {
+        const engine = await this._getEngine()
+
+        // Scan all remote keys
+        // Delete all of them
+
+        const END_CURSOR = '0'
+        let result: ScanResult = {
+            cursor: '',
+            keys: [],
+        }
+        const keySet = new Set<string>()
+        do {
+            result = await this._scanRemoteKeys(pattern, result.cursor)
+            // Redis SCAN may return duplicate items
+            // Adding to a Set to avoid duplication
+            result.keys.forEach(k => keySet.add(k))
+        } while (result.cursor != END_CURSOR)
+
+        if (!result.keys.length) { return }
+        await this._untagRemote(engine, Array.from(keySet))
+        return engine.delAsync(...keySet)
+    }
+
+    /**
+     * Deletes local keys matching `pattern`, together with their expiration timers.
+     * @returns The deleted keys.
+     */
+    private _deleteLocalPattern(pattern: string): string[] {
+        // Replace with Regexp syntax
+        pattern = pattern.replace(/\*/g, '(.*)').replace(/\?/g, '(.?)')
+        const regex = new RegExp(`^${pattern}$`)
+        const keys = Object.keys(this._localCache).filter(key => regex.test(key))
+        keys.forEach(key => this._deleteLocal(key))
+        return keys
+    }
+
+    /**
+     * @see https://redis.io/commands/scan
+     */
+    private async _scanRemoteKeys(pattern: string, fromCursor: string): Promise<ScanResult> {
+        const ITEMS_PER_ITERATION = 10
+        const engine = await this._getEngine()
+        const result: [string, string[]] = await engine.scanAsync(fromCursor, 'MATCH', pattern, 'COUNT', ITEMS_PER_ITERATION)
+        return {
+            cursor: result[0],
+            keys: result[1],
+        }
+    }
+
+    /**
+     * Retrieves a string or number or boolean from cache.
+     * @param {string} key The key to look up.
+     */
+    @measured
+    public getPrimitive(key: string, opts: CacheGetOptions = {}): Promise<Maybe<PrimitiveType>> {
+        Guard.assertArgDefined('key', key)
+        key = opts.isGlobal ? key : this._realKey(key)
+        const parseType = (opts.parseType != null) ? opts.parseType : true
+        return this._readThrough(key, opts.forceRemote, 'getPrimitive', () => this._fetchPrimitive(key, parseType))
+    }
+    /**
+     * Retrieves an array of strings or numbers or booleans from cache.
+     * @param {string} key The key to look up.
+     * @param {boolean} forceRemote Skip local cache and fetch from remote server. Default is `false`.
+     */
+    @measured
+    public async getArray(key: string, opts: CacheGetOptions = {}): Promise<Maybe<PrimitiveType[]>> {
+        Guard.assertArgDefined('key', key)
+        key = opts.isGlobal ? key : this._realKey(key)
+        const stringified: Maybe<string> = await this._readThrough(key, opts.forceRemote, 'getArray',
+            () => this._fetchPrimitive(key, false))
+        return stringified.map(s => this._codecs.decode(s, opts.codec))
+    }
+
+    /**
+     * Retrieves an object from cache.
+     * @param {string} key The key to look up.
+     */
+    @measured
+    public getObject(key: string, opts: CacheGetOptions = {}): Promise<Maybe<object>> {
+        Guard.assertArgDefined('key', key)
+        key = opts.isGlobal ? key : this._realKey(key)
+        const parseType = (opts.parseType != null) ? opts.parseType : true
+        return this._readThrough(key, opts.forceRemote, 'getObject', () => this._fetchAnyObject(key, parseType, opts.codec))
+    }
+
+    /**
+     * Reads local cache unless `forceRemote` is true and remote cache service is available,
+     * otherwise fetches from remote cache service.
+     * A failure of remote cache service is treated as not found if the circuit breaker is enabled.
+     */
+    private async _readThrough(key: string, forceRemote: boolean, operation: string,
+            fetch: () => Promise<Maybe<any>>): Promise<Maybe<any>> {
+        const startedAt = process.hrtime()
+        if ((!forceRemote || !this._isRemoteAvailable) && this._localCache.hasOwnProperty(key)) {
+            const value = this._readLocal(key)
+            this._notify(CacheEvent.HIT, { key, operation, level: CacheLevel.LOCAL, elapsed: elapsedSince(startedAt) })
+            return Maybe.Just<any>(value)
+        }
+        const fetched = this._hasEngine
+            ? await this._callRemote(operation, key, fetch, () => Maybe.Nothing())
+            : Maybe.Nothing()
+        this._notify(fetched.isJust ? CacheEvent.HIT : CacheEvent.MISS, {
+            key,
+            operation,
+            level: fetched.isJust ? CacheLevel.REMOTE : undefined,
+            elapsed: elapsedSince(startedAt),
+        })
+        return fetched
+    }
+
+    /**
+     * Saves a string or number or boolean to cache.
+     * @param {string} key The key for later look up.
+     * @param {Primitive} value Primitive value to save.
+     */
+    @measured
+    @pendingWrite
+    public async setPrimitive(key: string, value: PrimitiveType, opts: CacheSetOptions = {}): Promise<void> {
+        Guard.assertArgDefined('key', key)
+        Guard.assertArgDefined('value', value)
+        const startedAt = process.hrtime()
+
+        const level = this._defaultLevel(opts.level)
+        const duration = this._defaultDuration(opts.duration)
+        const tagKeys = this._tagKeys(opts)
+        key = opts.isGlobal ? key : this._realKey(key)
+
+        const savedLevel = await this._writeThrough([{ key, value }], level, duration, tagKeys, 'setPrimitive',
+            async (engine) => {
+                const multi: MultiAsync = engine.multi()
+                multi.del(key)
+                multi.set(key, await this._compressor.compress(String(value)))
+                if (duration > 0) {
+                    multi.expire(key, duration)
+                }
+                this._tagRemote(multi, key, tagKeys, duration)
+                await multi.execAsync()
+            })
+        this._notify(CacheEvent.SET, { key, level: savedLevel, operation: 'setPrimitive', elapsed: elapsedSince(startedAt) })
+    }
+
+    /**
+     * Saves an array to cache.
+     * @param {string} key The key for later look up.
+     * @param {PrimitiveType[] | object[] } arr Array of any type to save.
+     */
+    public setArray(key: string, arr: any[], opts: CacheSetOptions = {}): Promise<void> {
+        Guard.assertArgDefined('key', key)
+        Guard.assertArgDefined('arr', arr)
+
+        const stringified = this._codecs.encode(arr, opts.codec)
+        const promise = this.setPrimitive(key, stringified, opts)
+        return promise
+    }
+
+    /**
+     * Saves an object to cache.
+     * @param {string} key The key for later look up.
+     * @param {object} value Object value to save.
+     */
+    @measured
+    @pendingWrite
+    public async setObject(key: string, value: object, opts: CacheSetOptions = {}): Promise<void> {
+        Guard.assertArgDefined('key', key)
+        Guard.assertArgDefined('value', value)
+        const startedAt = process.hrtime()
+        const level = this._defaultLevel(opts.level)
+        const duration = this._defaultDuration(opts.duration)
+        const tagKeys = this._tagKeys(opts)
+        key = opts.isGlobal ? key : this._realKey(key)
+
+        const savedLevel = await this._writeThrough([{ key, value }], level, duration, tagKeys, 'setObject',
+            async (engine) => {
+                const multi: MultiAsync = engine.multi()
+                multi.del(key)
+                if (this._objectLayout(opts) === CacheObjectLayout.HASH) {
+                    multi.hmset(key, <any>value)
+                } else {
+                    multi.set(key, await this._compressor.compress(this._codecs.encode(value, opts.codec)))
+                }
+                if (duration > 0) {
+                    multi.expire(key, duration)
+                }
+                this._tagRemote(multi, key, tagKeys, duration)
+                await multi.execAsync()
+            })
+        this._notify(CacheEvent.SET, { key, level: savedLevel, operation: 'setObject', elapsed: elapsedSince(startedAt) })
+    }
+
+    /**
+     * Retrieves multiple strings or numbers or booleans from cache.
+     * Keys not found in local cache are fetched from remote cache in one round-trip per hash slot.
+     * @param {string[]} keys The keys to look up.
+     * @returns Values in the same order as `keys`, `Nothing` for keys not found.
+     */
+    @measured
+    public async getManyPrimitives(keys: string[], opts: CacheGetOptions = {}): Promise<Maybe<PrimitiveType>[]> {
+        Guard.assertArgDefined('keys', keys)
+        const startedAt = process.hrtime()
+        const parseType = (opts.parseType != null) ? opts.parseType : true
+        const realKeys = keys.map(k => opts.isGlobal ? k : this._realKey(k))
+        const results = this._readManyLocal(realKeys, opts.forceRemote)
+        const misses = realKeys.filter((_, i) => results[i] == null)
+        const localLevels = results.map(r => (r != null) ? CacheLevel.LOCAL : CacheLevel.REMOTE)
+
+        if (misses.length && this._hasEngine) {
+            const fetched = await this._callRemote('getManyPrimitives', undefined,
+                () => this._fetchManyPrimitives(misses), () => new Map<string, string>())
+            realKeys.forEach((key, i) => {
+                if (results[i] != null) { return }
+                const data = parseType ? this._parsePrimitiveType(fetched.get(key)) : fetched.get(key)
+                results[i] = (data == null) ? Maybe.Nothing() : Maybe.Just(data)
+            })
+        }
+        this._notifyManyReads(realKeys, results, localLevels, 'getManyPrimitives', elapsedSince(startedAt))
+        return results.map(r => r || Maybe.Nothing())
+    }
+
+    /**
+     * Retrieves multiple objects from cache.
+     * Keys not found in local cache are fetched from remote cache in one pipeline.
+     * @param {string[]} keys The keys to look up.
+     * @returns Objects in the same order as `keys`, `Nothing` for keys not found.
+     */
+    @measured
+    public async getManyObjects(keys: string[], opts: CacheGetOptions = {}): Promise<Maybe<object>[]> {
+        Guard.assertArgDefined('keys', keys)
+        const startedAt = process.hrtime()
+        const parseType = (opts.parseType != null) ? opts.parseType : true
+        const realKeys = keys.map(k => opts.isGlobal ? k : this._realKey(k))
+        const results = this._readManyLocal(realKeys, opts.forceRemote)
+        const misses = realKeys.filter((_, i) => results[i] == null)
+        const localLevels = results.map(r => (r != null) ? CacheLevel.LOCAL : CacheLevel.REMOTE)
+
+        if (misses.length && this._hasEngine) {
+            const [fetched, hashes] = await this._callRemote('getManyObjects', undefined, async () => {
+                // MGET returns null for both missing keys and hashes,
+                // only these keys need to be fetched again as hashes.
+                const json = await this._fetchManyPrimitives(misses)
+                const hashKeys = misses.filter(key => json.get(key) == null)
+                return [json, await this._fetchManyHashes(hashKeys)] as [Map<string, string>, Map<string, any>]
+            }, () => [new Map(), new Map()] as [Map<string, string>, Map<string, any>])
+            realKeys.forEach((key, i) => {
+                if (results[i] != null) { return }
+                const json = fetched.get(key)
+                const hash = hashes.get(key)
+                const data = (json != null)
+                    ? this._codecs.decode(json, opts.codec)
+                    : (parseType ? this._parseObjectType(hash) : hash)
+                results[i] = (data == null) ? Maybe.Nothing() : Maybe.Just(data)
+            })
+        }
+        this._notifyManyReads(realKeys, results, localLevels, 'getManyObjects', elapsedSince(startedAt))
+        return results.map(r => r || Maybe.Nothing())
+    }
+
+    /**
+     * Saves multiple values to cache in one pipeline. Each value is saved the same way as
+     * `setPrimitive`, `setArray` or `setObject` depending on its type.
+     * @param {object} entries Map of keys and values to save.
+     */
+    @measured
+    @pendingWrite
+    public async setMany(entries: CacheEntries, opts: CacheSetOptions = {}): Promise<void> {
+        Guard.assertArgDefined('entries', entries)
+        const startedAt = process.hrtime()
+        const level = this._defaultLevel(opts.level)
+        const duration = this._defaultDuration(opts.duration)
+        const tagKeys = this._tagKeys(opts)
+        const items = Object.entries(entries).map(([key, value]) => {
+            Guard.assertArgDefined(key, value)
+            return {
+                key: opts.isGlobal ? key : this._realKey(key),
+                // Arrays are saved as JSON string, the same as `setArray`
+                value: Array.isArray(value) ? this._codecs.encode(value, opts.codec) : value,
+            }
+        })
+        if (!items.length) { return }
+
+        const savedLevel = await this._writeThrough(items, level, duration, tagKeys, 'setMany', async (engine) => {
+            const batch = engine.batch()
+            for (const { key, value } of items) {
+                batch.del(key)
+                if (typeof value !== 'object') {
+                    batch.set(key, await this._compressor.compress(String(value)))
+                } else if (this._objectLayout(opts) === CacheObjectLayout.HASH) {
+                    batch.hmset(key, <any>value)
+                } else {
+                    batch.set(key, await this._compressor.compress(this._codecs.encode(value, opts.codec)))
+                }
+                if (duration > 0) {
+                    batch.expire(key, duration)
+                }
+                this._tagRemote(batch, key, tagKeys, duration)
+            }
+            await this._execBatch(batch)
+        })
+        const elapsed = elapsedSince(startedAt)
+        items.forEach(({ key }) => this._notify(CacheEvent.SET, { key, level: savedLevel, operation: 'setMany', elapsed }))
+    }
+
+    /**
+     * Removes multiple exact keys from cache, with one round-trip per hash slot.
+     * Option `isPattern` is ignored.
+     * @param {string[]} keys The keys to remove.
+     */
+    @measured
+    @pendingWrite
+    public async deleteMany(keys: string[], opts: CacheDelOptions = {}): Promise<void> {
+        Guard.assertArgDefined('keys', keys)
+        const startedAt = process.hrtime()
+        const realKeys = keys.map(k => opts.isGlobal ? k : this._realKey(k))
+        if (!realKeys.length) { return }
+        for (const key of realKeys) {
+            this._deleteLocal(key)
+        }
+        await this._callRemote('deleteMany', undefined, () => this._deleteRemote(realKeys),
+            () => realKeys.forEach(k => this._queueDelete(`delete:${k}`, () => this._deleteRemote([k]))))
+        const elapsed = elapsedSince(startedAt)
+        realKeys.forEach(key => this._notify(CacheEvent.DELETE, { key, operation: 'deleteMany', elapsed }))
+    }
+
+    /**
+     * Removes all values associated with any of `tags`, both locally and remotely,
+     * and stops keeping them in sync.
+     * @param {string[]} tags The tags whose values are removed.
+     */
+    @measured
+    @pendingWrite
+    public async invalidateTags(tags: string[], opts: CacheInvalidateOptions = {}): Promise<void> {
+        Guard.assertArgDefined('tags', tags)
+        const startedAt = process.hrtime()
+        const tagKeys = this._tagKeys({ ...opts, tags })
+        if (!tagKeys.length) { return }
+        const keys = new Set<string>()
+        for (const tagKey of tagKeys) {
+            this._localTags.take(tagKey).forEach(k => keys.add(k))
+        }
+
+        for (const key of keys) {
+            this._deleteLocal(key)
+        }
+
+        const remove = async () => {
+            let engine: RedisClient
+            if (this._hasEngine) {
+                engine = await this._getEngine()
+                const batch = engine.batch()
+                tagKeys.forEach(tagKey => batch.smembers(tagKey))
+                const members: string[][] = await this._execBatch(batch)
+                members.forEach(m => (m || []).forEach(k => keys.add(k)))
+            }
+
+            for (const key of keys) {
+                this._deleteLocal(key)
+            }
+            await Promise.all(Array.from(keys).map(k => this._syncOff(k)))
+            if (engine) {
+                await this._untagRemote(engine, Array.from(keys))
+                await Promise.all(
+                    this._groupBySlot([...keys, ...tagKeys]).map(group => this._sendMultiKey(engine, 'del', group)),
+                )
+            }
+        }
+        await this._callRemote('invalidateTags', undefined, remove,
+            () => this._queueDelete(`invalidateTags:${tagKeys.join(',')}`, remove))
+        const elapsed = elapsedSince(startedAt)
+        keys.forEach(key => this._notify(CacheEvent.DELETE, { key, operation: 'invalidateTags', elapsed }))
+    }
+
+    /**
+     * Atomically adds `by` to a number in cache. A missing key is created as zero before adding.
+     * Option `duration` only takes effect when the counter is created.
+     * @param {string} key The key of the counter.
+     * @param {number} by Integer or float step. Default is `1`.
+     * @returns The value after adding.
+     */
+    @measured
+    @pendingWrite
+    public async increment(key: string, by: number = 1, opts: CacheCounterOptions = {}): Promise<number> {
+        Guard.assertArgDefined('key', key)
+        if (!Number.isFinite(by)) {
+            throw new InvalidArgumentException('by', 'Must be a finite number')
+        }
+        const startedAt = process.hrtime()
+        const level = this._defaultLevel(opts.level)
+        const duration = this._defaultDuration(opts.duration)
+        key = opts.isGlobal ? key : this._realKey(key)
+
+        let result: [number, CacheLevel]
+        if (!this._hasEngine || !this._includeBit(level, CacheLevel.REMOTE)) {
+            result = [this._incrementLocal(key, by, duration), level]
+        }
+        else {
+            result = await this._callRemote('increment', key, async (): Promise<[number, CacheLevel]> => {
+                const engine = await this._getEngine()
+                const [reply, created] = await engine.evalAsync(INCREMENT_SCRIPT, 1, key,
+                    Number.isInteger(by) ? 1 : 0, by, duration)
+                const value = Number(reply)
+                this._queuedDeletes.delete(`delete:${key}`)
+                if (this._includeBit(level, CacheLevel.BOTH) && this._writeLocal(key, value)) {
+                    created && this._setLocalExp(key, duration)
+                    await this._syncOn(key)
+                }
+                return [value, level]
+            }, () => [this._incrementLocal(key, by, duration), CacheLevel.LOCAL])
+        }
+        const [newValue, savedLevel] = result
+        this._notify(CacheEvent.SET, { key, level: savedLevel, operation: 'increment', elapsed: elapsedSince(startedAt) })
+        return newValue
+    }
+
+    /**
+     * Atomically subtracts `by` from a number in cache. A missing key is created as zero before subtracting.
+     * Option `duration` only takes effect when the counter is created.
+     * @param {string} key The key of the counter.
+     * @param {number} by Integer or float step. Default is `1`.
+     * @returns The value after subtracting.
+     */
+    public decrement(key: string, by: number = 1, opts: CacheCounterOptions = {}): Promise<number> {
+        return this.increment(key, -by, opts)
+    }
+
+    /**
+     * Retrieves a value from cache. If not found, invokes `loader` then saves its result to cache.
+     * Concurrent calls with the same key share one `loader` invocation.
+     * If `loader` resolves to `null` or `undefined`, nothing is saved.
+     * @param {string} key The key to look up.
+     * @param {Function} loader Produces the value when it is not in cache.
+     */
+    public async getOrSet<T = any>(key: string, loader: () => Promise<T>, opts: CacheGetOrSetOptions = {}): Promise<T> {
+        Guard.assertArgDefined('key', key)
+        Guard.assertArgFunction('loader', loader)
+        const cached = await this._getByType(key, opts)
+        if (cached.isJust) {
+            return cached.value
+        }
+        const realKey = opts.isGlobal ? key : this._realKey(key)
+        return this._loaders.run(realKey, () => this._loadWithLock(key, realKey, loader, opts))
+    }
+
+    /**
+     * Acquires a lock which is shared between all instances connected to the same cache service.
+     * Without remote cache service, the lock is only shared within this instance.
+     * @param {string} key The lock name.
+     * @returns The acquired lock, or `Nothing` if the lock is held by another owner after all retries.
+     */
+    public acquireLock(key: string, opts: CacheLockOptions): Promise<Maybe<ICacheLock>> {
+        Guard.assertArgDefined('key', key)
+        Guard.assertArgDefined('opts', opts)
+        Guard.assertArgDefined('ttl', opts.ttl)
+        const realKey = opts.isGlobal ? key : this._realKey(key)
+        return acquireLock(this._lockStore, `${realKey}${LOCK_SUFFIX}`, opts)
+    }
+
+    private async _loadWithLock(key: string, realKey: string, loader: () => Promise<any>, opts: CacheGetOrSetOptions): Promise<any> {
+        const lockOpts = opts.lock
+        if (!lockOpts || !this._isRemoteAvailable) {
+            return this._load(key, realKey, loader, opts)
+        }
+
+        const lockKey = `${realKey}${LOCK_SUFFIX}`
+        const token = createLockToken()
+        if (await this._lockStore.tryAcquire(lockKey, token, lockOpts.ttl)) {
+            try {
+                // Another process may have finished loading right before we acquired the lock.
+                const cached = await this._getByType(key, { ...opts, forceRemote: true })
+                return cached.isJust ? cached.value : await this._load(key, realKey, loader, opts)
+            }
+            finally {
+                await this._lockStore.release(lockKey, token)
+            }
+        }
+
+        // Another process is loading
+        if (lockOpts.staleDuration > 0) {
+            const stale = await this._getByType(`${realKey}${STALE_SUFFIX}`, { ...opts, isGlobal: true, forceRemote: true })
+            if (stale.isJust) {
+                return stale.value
+            }
+        }
+        const loaded = await this._waitForValue(key, opts)
+        return loaded.isJust ? loaded.value : this._load(key, realKey, loader, opts)
+    }
+
+    private async _load(key: string, realKey: string, loader: () => Promise<any>, opts: CacheGetOrSetOptions): Promise<any> {
+        const value = await loader()
+        if (value == null) {
+            return value
+        }
+        await this._setByType(key, value, opts)
+
+        const staleDuration = opts.lock ? opts.lock.staleDuration : 0
+        const duration = this._defaultDuration(opts.duration)
+        if (this._isRemoteAvailable && staleDuration > 0 && duration > 0) {
+            await this._setByType(`${realKey}${STALE_SUFFIX}`, value, {
+                ...opts,
+                isGlobal: true,
+                level: CacheLevel.REMOTE,
+                duration: duration + staleDuration,
+            })
+        }
+        return value
+    }
+
+    /**
+     * Keeps checking remote cache until the value appears or timeout.
+     */
+    private async _waitForValue(key: string, opts: CacheGetOrSetOptions): Promise<Maybe<any>> {
+        const { ttl, waitTimeout, retryInterval } = opts.lock
+        const deadline = Date.now() + (waitTimeout || ttl)
+        const interval = retryInterval || DEFAULT_LOCK_RETRY_INTERVAL
+        while (Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, interval))
+            const cached = await this._getByType(key, { ...opts, forceRemote: true })
+            if (cached.isJust) {
+                return cached
+            }
+        }
+        return Maybe.Nothing()
+    }
+
+    private _getByType(key: string, opts: CacheGetOrSetOptions): Promise<Maybe<any>> {
+        switch (opts.valueType) {
+            case CacheValueType.ARRAY:
+                return this.getArray(key, opts)
+            case CacheValueType.OBJECT:
+                return this.getObject(key, opts)
+            default:
+                return this.getPrimitive(key, opts)
+        }
+    }
+
+    private _setByType(key: string, value: any, opts: CacheGetOrSetOptions): Promise<void> {
+        switch (opts.valueType) {
+            case CacheValueType.ARRAY:
+                return this.setArray(key, value, opts)
+            case CacheValueType.OBJECT:
+                return this.setObject(key, value, opts)
+            default:
+                return this.setPrimitive(key, value, opts)
+        }
+    }
+
+
+    private _connectSingle(detail: CacheConnectionDetail, extraOpts?: redis.ClientOpts): redis.RedisClient {
+        const client = createRedisClient(detail, extraOpts)
+        this._handleConnectionErrors(client)
+        return client
+    }
+
+    /**
+     * Connection errors are logged instead of crashing the process,
+     * the client keeps reconnecting by itself.
+     */
+    private _handleConnectionErrors(client: redis.RedisClient): void {
+        client.on('error', (err: Error) => debug(`Cache connection error: ${err.message}`))
+    }
+
+    /**
+     * Connects to a cluster node, which may be discovered from cluster slots.
+     * Credentials of an undeclared node are the same as the first declared one.
+     */
+    private _connectClusterNode(host: string, port: number): redis.RedisClient {
+        const servers = this._options.cluster
+        const declared = servers.find(s => s.host === host && s.port === port) || servers[0]
+        return this._connectSingle({ ...declared, host, port })
+    }
+
+    private async _connectSentinel(): Promise<void> {
+        this._master = {
+            ...this._options.sentinel.master,
+            ...(await this._sentinel.resolveMaster()),
+        }
+        this._engine = this._connectSingle(this._master)
+        this._sentinel.watch(master => {
+            const isSame = (master.host === this._master.host && master.port === this._master.port)
+            if (isSame || !this._sentinel) { return }
+            this._engineReady = this._switchMaster(master)
+            this._engineReady.catch(() => { /* Ignore */ })
+        })
+    }
+
+    /**
+     * Reconnects to new master after failover, then listens again to changes of synced keys.
+     */
+    private async _switchMaster(master: CacheConnectionDetail): Promise<void> {
+        // Wait for previous switch, if any
+        await this._engineReady.catch(() => { /* Ignore */ })
+        const oldEngine = this._engine
+        const oldSub = this._engineSub
+        this._master = { ...this._options.sentinel.master, ...master }
+        this._engine = this._connectSingle(this._master)
+        this._engineSub = null
+
+        // The old master is unreachable, don't wait for it to reply QUIT.
+        oldEngine.end(true)
+        oldSub && oldSub.end(true)
+
+        if (!this._syncKeys.size) { return }
+        const sub = this._createSubscriber(this._engine)
+        if (this._syncStrategy === SyncStrategy.KEYSPACE) {
+            await sub.subscribeAsync(...Array.from(this._syncKeys).map(k => `${this._eventPrefix}${k}`))
+        }
+        // In tracking and broadcasting modes, synced keys are refreshed when the subscriber is ready.
+    }
+
+    /**
+     * Waits until connection to remote cache service is ready (only has effect in sentinel mode).
+     */
+    private async _getEngine(): Promise<RedisClient> {
+        await this._engineReady
+        return this._engine
+    }
+
+    private _nodesHealth(): CacheNodeHealth[] {
+        const engine = this._engine
+        if (!engine) {
+            // Master is not discovered yet
+            return []
+        }
+        if (this._options.cluster) {
+            return Object.entries(engine.connections as { [address: string]: RedisClient })
+                .map(([address, client]) => ({ address, isConnected: Boolean(client && client.ready) }))
+        }
+        return [{ address: engine.address, isConnected: Boolean(engine.ready) }]
+    }
+
+    private _subscriberHealth(): CacheSubscriberHealth {
+        const sub = this._engineSub
+        if (!sub) {
+            return undefined
+        }
+        return {
+            isConnected: Boolean(sub.ready),
+            syncedKeys: this._syncKeys.size,
+        }
+    }
+
+    private _objectLayout(opts: CacheSetOptions): CacheObjectLayout {
+        return opts.objectLayout
+            || (this._options && this._options.objectLayout)
+            || CacheObjectLayout.JSON
+    }
+
+    private _defaultLevel(level: CacheLevel): CacheLevel {
+        if (level) {
+            return level
+        }
+        if (this._options && this._options.defaultLevel) {
+            return this._options.defaultLevel
+        }
+        return (this._hasEngine) ? CacheLevel.REMOTE : CacheLevel.LOCAL
+    }
+
+    private _defaultDuration(duration: number): number {
+        if (duration != null) {
+            return duration
+        }
+        return (this._options && this._options.defaultDuration) || 0
+    }
+
+    private _deleteLocal(key: string) {
+        delete this._localCache[key]
+        this._fallbackKeys.delete(key)
+        clearTimeout(this._cacheExps[key])
+        delete this._cacheExps[key]
+        this._localTracker && this._localTracker.untrack(key)
+        this._localTags.remove(key)
+    }
+
+    /**
+     * Builds keys of the sets which hold values of each tag.
+     */
+    private _tagKeys(opts: { tags?: string[], isGlobal?: boolean }): string[] {
+        return (opts.tags || []).map(tag => opts.isGlobal
+            ? `${TAG_PREFIX}${tag}`
+            : this._realKey(`${TAG_PREFIX}${tag}`),
+        )
+    }
+
+    /**
+     * Queues commands to add `key` to remote tag sets, and to record these tag sets in a sibling set
+     * so that `key` can be removed from them when deleted. Both sets expire no sooner than `key`.
+     */
+    private _tagRemote(multi: MultiAsync, key: string, tagKeys: string[], duration: number): void {
+        for (const tagKey of tagKeys) {
+            multi.eval(ADD_MEMBER_SCRIPT, 1, tagKey, key, duration)
+            multi.eval(ADD_MEMBER_SCRIPT, 1, key + TAGS_SUFFIX, tagKey, duration)
+        }
+    }
+
+    /**
+     * Removes `keys` from the remote tag sets recorded by `_tagRemote`, then deletes the records.
+     */
+    private async _untagRemote(engine: RedisClient, keys: string[]): Promise<void> {
+        const recordKeys = keys.map(key => key + TAGS_SUFFIX)
+        const batch = engine.batch()
+        recordKeys.forEach(recordKey => batch.smembers(recordKey))
+        const tagKeysOfKeys: string[][] = await this._execBatch(batch)
+        if (!tagKeysOfKeys.some(tagKeys => tagKeys && tagKeys.length)) { return }
+
+        const untagBatch = engine.batch()
+        keys.forEach((key, i) => (tagKeysOfKeys[i] || []).forEach(tagKey => untagBatch.srem(tagKey, key)))
+        recordKeys.forEach(recordKey => untagBatch.del(recordKey))
+        await this._execBatch(untagBatch)
+    }
+
+    /**
+     * Removes a key from local cache to make room for others,
+     * and stops keeping it in sync with remote value.
+     */
+    private _evictLocal(key: string): void {
+        this._deleteLocal(key)
+        this._syncOff(key).catch(() => { /* Ignore, the subscription will be dropped on dispose */ })
+        this._notify(CacheEvent.EVICT, { key, level: CacheLevel.LOCAL })
+    }
+
+    /**
+     * Counts `event` in statistics, then emits it if there are listeners.
+     * Event `error` is not emitted without listeners, otherwise `EventEmitter` would throw it.
+     */
+    private _notify(event: CacheEvent, args: CacheEventArgs): void {
+        this._stats.countEvent(event, args.level)
+        if (!this.listenerCount(event)) { return }
+        try {
+            this.emit(event, args)
+        }
+        catch (err) {
+            debug(`A listener of event "${event}" failed: ${err.message}`)
+        }
+    }
+
+    /**
+     * Invokes `fn` to access remote cache service. If the circuit breaker is enabled,
+     * the result of `fallback` is returned instead when the circuit is open or `fn` fails,
+     * and the failure is reported as event `error`.
+     */
+    private _callRemote<T>(operation: string, key: string, fn: () => Promise<T>, fallback: () => T): Promise<T> {
+        if (!this._breaker) {
+            return fn()
+        }
+        return this._breaker.execute(fn, (error) => {
+            error && this._notify(CacheEvent.ERROR, { key, operation, error })
+            return fallback()
+        })
+    }
+
+    /**
+     * Stops keeping `keys` in sync, then removes them from remote cache service.
+     */
+    private async _deleteRemote(keys: string[]): Promise<void> {
+        await Promise.all(keys.map(k => this._syncOff(k)))
+        if (!this._hasEngine) { return }
+        const engine = await this._getEngine()
+        await this._untagRemote(engine, keys)
+        await Promise.all(
+            this._groupBySlot(keys).map(group => this._sendMultiKey(engine, 'del', group)),
+        )
+    }
+
+    /**
+     * Remembers a remote deletion skipped by the circuit breaker, so that deleted values
+     * don't come back after recovery. A later deletion with the same `id` replaces it.
+     */
+    private _queueDelete(id: string, remove: () => Promise<void>): void {
+        this._queuedDeletes.set(id, remove)
+    }
+
+    /**
+     * Once the circuit is closed, removes values saved to local cache only
+     * and retries skipped remote deletions.
+     */
+    private _recoverRemote(): void {
+        Array.from(this._fallbackKeys).forEach(key => this._deleteLocal(key))
+        const deletes = Array.from(this._queuedDeletes)
+        this._queuedDeletes.clear()
+        if (!deletes.length) { return }
+
+        const retry = Promise.all(deletes.map(([id, remove]) =>
+                // Queued again if the circuit opens again
+                this._callRemote('delete', undefined, remove, () => this._queueDelete(id, remove)),
+            ))
+            .then(() => undefined, err => debug(`Failed to retry deletions: ${err.message}`))
+        this._pendingWrites.add(retry)
+        const untrack = () => this._pendingWrites.delete(retry)
+        retry.then(untrack, untrack)
+    }
+
+    /**
+     * Disables the offline queue of connections while the circuit is not closed, so that commands
+     * which have timed out are not sent late after reconnecting.
+     */
+    private _toggleOfflineQueue(isEnabled: boolean): void {
+        if (!this._engine) { return }
+        const clients: RedisClient[] = this._options.cluster
+            ? Object.values(this._engine.connections || {})
+            : [this._engine]
+        for (const client of clients.filter(Boolean)) {
+            client.enable_offline_queue = isEnabled
+            isEnabled || client.flush_and_error(
+                { message: 'Circuit is open.', code: 'CIRCUIT_OPEN' },
+                { queues: ['offline_queue'] },
+            )
+        }
+    }
+
+    private _fallbackDuration(duration: number): number {
+        const fallbackDuration = this._options.circuitBreaker.fallbackDuration || DEFAULT_FALLBACK_DURATION
+        return (duration > 0) ? Math.min(duration, fallbackDuration) : fallbackDuration
+    }
+
+    /**
+     * Saves entries to local cache if `level` includes LOCAL, and to remote cache service with `saveRemote`
+     * if `level` includes REMOTE. If remote cache service is skipped or has failed with circuit breaker
+     * enabled, entries are saved to local cache only.
+     * @returns Where the entries are actually saved.
+     */
+    private async _writeThrough(entries: LocalEntry[], level: CacheLevel, duration: number, tagKeys: string[],
+            operation: string, saveRemote: (engine: RedisClient) => Promise<void>): Promise<CacheLevel> {
+        const saveLocal = (localDuration: number) => entries.filter(({ key, value }) => {
+            if (!this._writeLocal(key, value)) { return false }
+            this._setLocalExp(key, localDuration)
+            this._localTags.add(key, tagKeys)
+            return true
+        })
+        const includesLocal = this._includeBit(level, CacheLevel.LOCAL)
+        includesLocal && saveLocal(duration)
+        if (!this._hasEngine || !this._includeBit(level, CacheLevel.REMOTE)) {
+            return level
+        }
+
+        const singleKey = (entries.length === 1) ? entries[0].key : undefined
+        return this._callRemote(operation, singleKey, async () => {
+            await saveRemote(await this._getEngine())
+            for (const { key } of entries) {
+                this._queuedDeletes.delete(`delete:${key}`)
+                if (this._fallbackKeys.has(key)) {
+                    // A local copy saved while remote cache service was unavailable is outdated now
+                    includesLocal ? this._fallbackKeys.delete(key) : this._deleteLocal(key)
+                }
+            }
+            if (this._includeBit(level, CacheLevel.BOTH)) {
+                // Keys evicted right away are not kept in sync
+                const keptKeys = entries.map(entry => entry.key).filter(key => this._localCache.hasOwnProperty(key))
+                await Promise.all(keptKeys.map(key => this._syncOn(key)))
+            }
+            return level
+        }, () => {
+            // Not kept in sync, so they are kept shortly to avoid shadowing remote values after recovery
+            saveLocal(this._fallbackDuration(duration)).forEach(({ key }) => this._fallbackKeys.add(key))
+            return CacheLevel.LOCAL
+        })
+    }
+
+    /**
+     * Adds `by` to a number in local cache. The expiration is only set when the counter is created.
+     */
+    private _incrementLocal(key: string, by: number, duration: number): number {
+        const isNew = !this._localCache.hasOwnProperty(key)
+        const stored = isNew ? 0 : this._readLocal(key)
+        const current = (typeof stored === 'number' || typeof stored === 'string') ? Number(stored) : NaN
+        if (!Number.isFinite(current)) {
+            throw new MinorException(`Value of key "${key}" is not a number`)
+        }
+        const value = current + by
+        this._writeLocal(key, value) && isNew && this._setLocalExp(key, duration)
+        return value
+    }
+
+    private _readLocal(key: string): PrimitiveType | object {
+        this._localTracker && this._localTracker.touch(key)
+        return this._localCache[key]
+    }
+
+    /**
+     * @returns `false` if the key itself is evicted right away because of option `localStore`.
+     */
+    private _writeLocal(key: string, value: PrimitiveType | object): boolean {
+        this._localCache[key] = value
+        if (this._localTracker) {
+            this._localTracker.track(key, value).forEach(k => this._evictLocal(k))
+        }
+        return this._localCache.hasOwnProperty(key)
+    }
+
+    private _buildEventPrefix(): string {
+        const { cluster, sentinel, single } = this._options
+        // Redis Cluster only supports database 0
+        const detail = cluster ? null : (sentinel ? sentinel.master : single)
+        const db = (detail && detail.db) || 0
+        return `${EVENT_PREFIX}${db}__:`
+    }
+
+    private _extractKey(channel: string): string {
+        const result = this._keyRegrex.exec(channel)
+        return result[1]
+    }
+
+    /**
+     * Fetches an object saved in either JSON or hash layout.
+     */
+    private async _fetchAnyObject(key: string, parseType: boolean, codec: ICacheCodec): Promise<Maybe<any>> {
+        const engine = await this._getEngine()
+        try {
+            const response = await this._compressor.decompress(await engine.getAsync(key))
+            return (response == null) ? Maybe.Nothing() : Maybe.Just(this._codecs.decode(response, codec))
+        }
+        catch (err) {
+            if (!String(err.message).startsWith('WRONGTYPE')) {
+                throw err
+            }
+            // The object is saved in hash layout
+            return this._fetchObject(key, parseType)
+        }
+    }
+
+    private async _fetchObject(key: string, parseType: boolean): Promise<Maybe<any>> {
+        const engine = await this._getEngine()
+        const response = await engine.hgetallAsync(key)
+        const data = (parseType ? this._parseObjectType(response) : response)
+        return (data == null) ? Maybe.Nothing() : Maybe.Just(data)
+    }
+
+    private async _fetchPrimitive(key: string, parseType: boolean): Promise<Maybe<any>> {
+        const engine = await this._getEngine()
+        const response = await this._compressor.decompress(await engine.getAsync(key))
+        const data = (parseType ? this._parsePrimitiveType(response) : response)
+        return (data == null) ? Maybe.Nothing() : Maybe.Just(data)
+    }
+
+    /**
+     * Reads local cache for each key.
+     * @returns `Maybe.Just` for keys found locally, `undefined` for the others.
+     */
+    private _readManyLocal(keys: string[], forceRemote: boolean): Maybe<any>[] {
+        const skipLocal = forceRemote && this._isRemoteAvailable
+        return keys.map(key => (!skipLocal && this._localCache.hasOwnProperty(key))
+            ? Maybe.Just<any>(this._readLocal(key))
+            : undefined,
+        )
+    }
+
+    /**
+     * @param {CacheLevel[]} levels Where each value would be read from if found.
+     */
+    private _notifyManyReads(keys: string[], results: Maybe<any>[], levels: CacheLevel[],
+            operation: string, elapsed: number): void {
+        keys.forEach((key, i) => {
+            const found = (results[i] != null && results[i].isJust)
+            this._notify(found ? CacheEvent.HIT : CacheEvent.MISS, {
+                key,
+                operation,
+                level: found ? levels[i] : undefined,
+                elapsed,
+            })
+        })
+    }
+
+    private async _fetchManyPrimitives(keys: string[]): Promise<Map<string, string>> {
+        const engine = await this._getEngine()
+        const groups = this._groupBySlot(keys)
+        const responses: string[][] = await Promise.all(
+            groups.map(group => this._sendMultiKey(engine, 'mget', group)),
+        )
+        const fetched = new Map<string, string>()
+        for (let g = 0; g < groups.length; ++g) {
+            const values = await Promise.all(responses[g].map(r => this._compressor.decompress(r)))
+            groups[g].forEach((key, k) => fetched.set(key, values[k]))
+        }
+        return fetched
+    }
+
+    private async _fetchManyHashes(keys: string[]): Promise<Map<string, any>> {
+        const fetched = new Map<string, any>()
+        if (!keys.length) {
+            return fetched
+        }
+        const batch = (await this._getEngine()).batch()
+        keys.forEach(key => batch.hgetall(key))
+        const responses: any[] = await this._execBatch(batch)
+        keys.forEach((key, k) => fetched.set(key, responses[k]))
+        return fetched
+    }
+
+    /**
+     * Splits keys into groups of the same hash slot, because in cluster mode,
+     * a multi-key command only accepts keys in the same slot.
+     * In other modes, all keys are in one group.
+     */
+    private _groupBySlot(keys: string[]): string[][] {
+        if (!this._options.cluster) {
+            return [keys]
+        }
+        const groups = new Map<number, string[]>()
+        for (const key of keys) {
+            const slot = calculateSlot(key)
+            const group = groups.get(slot)
+            group ? group.push(key) : groups.set(slot, [key])
+        }
+        return Array.from(groups.values())
+    }
+
+    /**
+     * Sends a multi-key command whose keys are all in the same hash slot.
+     */
+    private _sendMultiKey(engine: RedisClient, command: string, keys: string[]): Promise<any> {
+        if (!this._options.cluster) {
+            return util.promisify(engine[command]).call(engine, keys)
+        }
+        // RedisClustr splits a multi-key command into one command per key,
+        // so we send the whole group directly to the node which owns the slot.
+        return new Promise((resolve, reject) => {
+            engine.doCommand(command, { readOnly: (command === 'mget') }, [
+                ...keys,
+                (err: Error, reply: any) => err ? reject(err) : resolve(reply),
+            ])
+        })
+    }
+
+    /**
+     * Executes a pipeline, which is either node_redis `Batch` or RedisClustr `RedisBatch`.
+     */
+    private _execBatch(batch: MultiAsync): Promise<any[]> {
+        return util.promisify(batch.exec).call(batch)
+    }
+
+    private _createLockChain(): CacheLockChain {
+        return []
+    }
+
+    /**
+     * Removes the last lock from lock queue then returns it.
+     */
+    private _popLock(key: string): Promise<void> {
+        const lockChain: CacheLockChain = this._cacheLocks[key],
+            lock = lockChain.pop()
+        if (!lockChain.length) {
+            delete this._cacheLocks[key]
+        }
+        return lock
+    }
+
+    /**
+     * Gets the first lock in queue.
+     */
+    private _peekLock(key: string): Promise<void> {
+        return (this._cacheLocks[key]) ? this._cacheLocks[key][0] : null
+    }
+
+    /**
+     * Adds a new lock at the beginning of lock queue.
+     */
+    private _pushLock(key: string): void {
+        let lockChain: CacheLockChain = this._cacheLocks[key]
+        let releaseFn
+
+        // Note: The callback inside Promise constructor
+        //        is invoked SYNCHRONOUSLY
+        const lock = new Promise<void>(resolve => releaseFn = resolve)
+        lock['release'] = releaseFn
+
+        if (!lockChain) {
+            lockChain = this._cacheLocks[key] = this._createLockChain()
+        }
+        lockChain.unshift(lock)
+    }
+
+    private _lockKey(key: string): Promise<void> {
+        const lock = this._peekLock(key)
+
+        // Put my lock here
+        this._pushLock(key)
+
+        // If I'm the first one, I don't need to wait.
+        if (!lock) {
+            return Promise.resolve()
+        }
+
+        // If this key is already locked, then wait...
+        return lock
+    }
+
+    private _releaseKey(key: string): void {
+        const lock = this._popLock(key)
+        lock && lock['release']()
+    }
+
+    private async _syncOn(key: string): Promise<void> {
+        if (this._isDeadLettered) {
+            debug(`Not keeping key "${key}" in sync while shutting down`)
+            return
+        }
+        const engine = await this._getEngine()
+        const sub = this._engineSub || this._createSubscriber(engine)
+        this._syncKeys.add(key)
+
+        if (this._syncStrategy === SyncStrategy.TRACKING) {
+            // Server only tracks keys which have been read by this connection.
+            await engine.existsAsync(key)
+            return
+        }
+        if (this._syncStrategy === SyncStrategy.BROADCAST) {
+            // Server tracks all keys matching broadcast prefixes.
+            return
+        }
+
+        // Listens to changes of this key.
+        await sub.subscribeAsync(`${this._eventPrefix}${key}`)
+    }
+
+    private async _syncOff(key: string): Promise<void> {
+        const sub = this._engineSub
+        this._syncKeys.delete(key)
+        if (!sub || this._syncStrategy !== SyncStrategy.KEYSPACE) {
+            // Tracked keys cannot be untracked, their invalidation messages will be ignored.
+            return
+        }
+        await sub.unsubscribeAsync(`${this._eventPrefix}${key}`)
+    }
+
+    private _createSubscriber(engine: RedisClient): RedisClient {
+        if (this._engineSub) {
+            // Another call has created it while we were waiting for engine.
+            return this._engineSub
+        }
+        return (this._syncStrategy === SyncStrategy.KEYSPACE)
+            ? this._createKeyspaceSubscriber(engine)
+            : this._createTrackingSubscriber(engine)
+    }
+
+    private _createKeyspaceSubscriber(engine: RedisClient): RedisClient {
+        let sub: RedisClient
+        this._keyRegrex = new RegExp(`${this._eventPrefix}(.*)`)
+        if (this._options.cluster) {
+            // Redis-clusr can handle bi-directional commands.
+            sub = this._engineSub = engine
+        } else {
+            sub = this._engineSub = this._connectSingle(this._master || this._options.single)
+        }
+
+        // TODO: This config should be in Redis conf
+        engine.config('SET', 'notify-keyspace-events', 'KEA')
+        sub.on('message', async (channel, action) => {
+            const affectedKey = this._extractKey(channel)
+            const startedAt = process.hrtime()
+
+            await this._lockKey(affectedKey)
+            try {
+                switch (action) {
+                    case 'set':
+                    case 'incrby':
+                    case 'incrbyfloat':
+                        (await this._fetchPrimitive(affectedKey, true))
+                            .map(val => this._writeLocal(affectedKey, val))
+                        break
+                    case 'hset':
+                        (await this._fetchObject(affectedKey, true))
+                            .map(val => this._writeLocal(affectedKey, val))
+                        break
+                    case 'del':
+                        this._deleteLocal(affectedKey)
+                        break
+                    default:
+                        break
+                }
+                this._notify(CacheEvent.SYNC_UPDATE, { key: affectedKey, level: CacheLevel.LOCAL, elapsed: elapsedSince(startedAt) })
+            }
+            catch (error) {
+                debug(`Failed to sync local value of key "${affectedKey}": ${error.message}`)
+                this._notify(CacheEvent.ERROR, { key: affectedKey, level: CacheLevel.LOCAL, error })
+            }
+            finally {
+                this._releaseKey(affectedKey)
+            }
+        })
+        return sub
+    }
+
+    /**
+     * Arguments of `CLIENT TRACKING` which select broadcasting mode, if enabled.
+     */
+    private _trackingModeArgs(): string[] {
+        if (this._syncStrategy !== SyncStrategy.BROADCAST) {
+            return []
+        }
+        const prefixes = this._options.broadcastPrefixes || [this._realKey('')]
+        return prefixes.reduce((args, prefix) => args.concat('PREFIX', prefix), ['BCAST'])
+    }
+
+    private _createTrackingSubscriber(engine: RedisClient): RedisClient {
+        // We must know the subscriber's client ID before it enters subscriber mode,
+        // so we re-subscribe by ourselves after reconnection.
+        const sub: RedisClient = this._engineSub = this._connectSingle(
+            this._master || this._options.single,
+            { disable_resubscribing: true } as redis.ClientOpts,
+        )
+        const enableTracking = async () => {
+            await engine.clientAsync('TRACKING', 'ON', 'REDIRECT', this._trackingId, ...this._trackingModeArgs(), 'NOLOOP')
+            // Invalidation messages may have been missed while disconnected.
+            this._syncKeys.forEach(key => this._refreshLocal(key))
+        }
+        const onError = (err: Error) => debug(`Failed to enable client tracking: ${err.message}`)
+
+        sub.on('ready', async () => {
+            try {
+                this._trackingId = await sub.clientAsync('ID')
+                await sub.subscribeAsync(TRACKING_CHANNEL)
+                await enableTracking()
+            }
+            catch (err) {
+                onError(err)
+            }
+        })
+        // Tracking state is lost when engine reconnects
+        engine.on('ready', () => this._trackingId && enableTracking().catch(onError))
+
+        // Listening to buffer event, because the string event joins array of keys with commas.
+        sub.on('message_buffer', (channel: Buffer, keys: Buffer[]) => {
+            if (String(channel) !== TRACKING_CHANNEL) { return }
+            // Null means the whole database was flushed
+            const affectedKeys = keys ? keys.map(String) : Array.from(this._syncKeys)
+            affectedKeys
+                .filter(key => this._syncKeys.has(key))
+                .forEach(key => this._refreshLocal(key))
+        })
+        return sub
+    }
+
+    /**
+     * Fetches remote value of a synced key to local cache, or removes it from local cache
+     * if remote value no longer exists.
+     */
+    private async _refreshLocal(key: string): Promise<void> {
+        const startedAt = process.hrtime()
+        await this._lockKey(key)
+        try {
+            const engine = await this._getEngine()
+            const type = await engine.typeAsync(key)
+            switch (type) {
+                case 'string':
+                    (await this._fetchPrimitive(key, true))
+                        .map(val => this._writeLocal(key, val))
+                    break
+                case 'hash':
+                    (await this._fetchObject(key, true))
+                        .map(val => this._writeLocal(key, val))
+                    break
+                default:
+                    this._deleteLocal(key)
+                    break
+            }
+            this._notify(CacheEvent.SYNC_UPDATE, { key, level: CacheLevel.LOCAL, elapsed: elapsedSince(startedAt) })
+        }
+        catch (error) {
+            debug(`Failed to refresh local value of key "${key}": ${error.message}`)
+            this._notify(CacheEvent.ERROR, { key, level: CacheLevel.LOCAL, error })
+        }
+        finally {
+            this._releaseKey(key)
+        }
+    }
+
+    private _includeBit(source: CacheLevel, target: CacheLevel): boolean {
+        return ((source & target) == target)
+    }
+
+    private _parsePrimitiveType(val: string): any {
+        return this._codecs.decode(val, undefined, (unrecorded) => {
+            try {
+                // Try parsing to number or boolean
+                return JSON.parse(unrecorded)
+            } catch {
+                return unrecorded
+            }
+        })
+    }
+
+    private _parseObjectType(obj: {[x: string]: string}): any {
+        for (const p in obj) {
+            /* istanbul ignore else */
+            if (obj.hasOwnProperty(p)) {
+                obj[p] = this._parsePrimitiveType(obj[p])
+            }
+        }
+        return obj
+    }
+
+    private _promisify(prototype: any): void {
+        const FN = ['del', 'hmset', 'hgetall', 'get', 'set',
+            'config', 'quit', 'subscribe', 'unsubscribe', 'scan',
+            'client', 'exists', 'type', 'eval', 'ping']
+        for (const fn of FN) {
+            prototype[`${fn}Async`] = util.promisify(prototype[fn])
+        }
+        prototype['__promisified'] = true
+    }
+
+    private _setLocalExp(key: string, duration: number): void {
+        // The previous expiration must not remove the new value
+        clearTimeout(this._cacheExps[key])
+        delete this._cacheExps[key]
+        if (duration > 0) {
+            this._cacheExps[key] = setTimeout(() => {
+                this._deleteLocal(key)
+                this._notify(CacheEvent.EXPIRE, { key, level: CacheLevel.LOCAL })
+            }, duration * 1000)
+            // Local expiration alone should not keep the process running
+            this._cacheExps[key].unref()
+        }
+    }
+
+    /**
+     * Closes all connections of a client immediately, without waiting for pending replies.
+     */
+    private _endClient(client: RedisClient): void {
+        if (!client.connections) {
+            client.end(true)
+            return
+        }
+        // RedisClustr has no `end`
+        Object.values(client.connections as { [address: string]: RedisClient })
+            .forEach(conn => conn && conn.end(true))
+        client.subscribeClient && client.subscribeClient.end(true)
+    }
+
+    private _realKey(key: string): string {
+        return `${this._options.name}::${key}`
+    }
+}
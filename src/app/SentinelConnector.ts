@@ -0,0 +1,109 @@
+/// <reference types="debug" />
+const debug: debug.IDebugger = require('debug')('mcft:cache:SentinelConnector')
+
+import * as util from 'util'
+import * as redis from 'redis'
+import { Guard, MinorException } from '@micro-fleet/common'
+
+import { CacheConnectionDetail, CacheSentinelDetail } from './ICacheProvider'
+import { createRedisClient } from './create-client'
+
+
+const DEFAULT_SENTINEL_PORT = 26379
+const SWITCH_MASTER_CHANNEL = '+switch-master'
+
+export type MasterSwitchListener = (master: CacheConnectionDetail) => void
+
+/**
+ * Discovers Redis master address from sentinel nodes, and watches for failover.
+ */
+export class SentinelConnector {
+
+    private _watchers: redis.RedisClient[]
+
+
+    constructor(private _detail: CacheSentinelDetail) {
+        Guard.assertArgDefined('masterName', _detail.masterName)
+        Guard.assertArgNotEmpty('sentinels', _detail.sentinels)
+        this._watchers = []
+    }
+
+
+    /**
+     * Asks sentinel nodes, one after another, for current master address.
+     * Rejects if none of the nodes knows about the master.
+     */
+    public async resolveMaster(): Promise<CacheConnectionDetail> {
+        for (const node of this._detail.sentinels) {
+            try {
+                const master = await this._askMaster(node)
+                if (master) {
+                    debug(`Master "${this._detail.masterName}" is at ${master.host}:${master.port}`)
+                    return master
+                }
+            }
+            catch (err) {
+                debug(`Sentinel ${node.host}:${node.port} is unavailable: ${err.message}`)
+            }
+        }
+        throw new MinorException(`No sentinel knows about master "${this._detail.masterName}"`)
+    }
+
+    /**
+     * Subscribes to failover notifications from all sentinel nodes.
+     * The same switch may be reported by several nodes, it's up to the listener to ignore duplicates.
+     */
+    public watch(listener: MasterSwitchListener): void {
+        for (const node of this._detail.sentinels) {
+            const watcher = this._connect(node)
+            watcher.on('error', (err) => debug(`Sentinel watcher error: ${err.message}`))
+            watcher.on('message', (channel: string, message: string) => {
+                // Message format: <master name> <old ip> <old port> <new ip> <new port>
+                const [name, , , host, port] = message.split(' ')
+                if (channel !== SWITCH_MASTER_CHANNEL || name !== this._detail.masterName) { return }
+                debug(`Master "${name}" switched to ${host}:${port}`)
+                listener({ host, port: parseInt(port) })
+            })
+            watcher.subscribe(SWITCH_MASTER_CHANNEL)
+            this._watchers.push(watcher)
+        }
+    }
+
+    /**
+     * Stops watching for failover.
+     */
+    public dispose(): Promise<void> {
+        const watchers = this._watchers
+        this._watchers = []
+        return Promise.all(watchers.map(w => util.promisify(w.quit).call(w)))
+            .then(() => { /* Resolve void */ })
+    }
+
+
+    private async _askMaster(node: CacheConnectionDetail): Promise<CacheConnectionDetail> {
+        const client = this._connect(node, false)
+        const sendCommand = util.promisify(client.send_command).bind(client)
+        try {
+            const addr: [string, string] = await sendCommand('SENTINEL', ['get-master-addr-by-name', this._detail.masterName])
+            return addr ? { host: addr[0], port: parseInt(addr[1]) } : null
+        }
+        finally {
+            client.quit()
+        }
+    }
+
+    private _connect(node: CacheConnectionDetail, reconnect: boolean = true): redis.RedisClient {
+        const client = createRedisClient({
+            ...node,
+            port: node.port || DEFAULT_SENTINEL_PORT,
+        }, {
+            // One-shot connections give up right away so that the next node can be tried.
+            retry_strategy: reconnect ? undefined : () => undefined,
+        })
+        if (!reconnect) {
+            // Errors are reported via command callback
+            client.on('error', () => { /* Ignore */ })
+        }
+        return client
+    }
+}
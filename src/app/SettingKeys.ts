@@ -0,0 +1,141 @@
+/**
+ * Cache setting keys which are not (yet) defined in `constants.Cache` of `@micro-fleet/common`.
+ */
+export enum CacheSettingKeys {
+    /**
+     * Which cache provider implementation to use, must be one of `CacheEngine` values.
+     * Data type: string
+     *
+     * Default is `CacheEngine.REDIS`.
+     */
+    CACHE_ENGINE = 'cache_engine',
+
+    /**
+     * Name of the master group monitored by sentinels. If specified, `CACHE_HOST` and `CACHE_PORT`
+     * are addresses of sentinel nodes instead of cache servers.
+     * Data type: string
+     */
+    CACHE_SENTINEL_MASTER = 'cache_sentinel_master',
+
+    /**
+     * Password to authenticate with cache servers.
+     * Data type: string
+     */
+    CACHE_PASSWORD = 'cache_password',
+
+    /**
+     * (Redis 6+) ACL username to authenticate with cache servers.
+     * Data type: string
+     */
+    CACHE_USERNAME = 'cache_username',
+
+    /**
+     * Database index to select after connecting.
+     * Data type: number
+     */
+    CACHE_DB = 'cache_db',
+
+    /**
+     * Whether to connect to cache servers over TLS.
+     * Data type: boolean
+     */
+    CACHE_TLS = 'cache_tls',
+
+    /**
+     * Trusted CA certificates in PEM format, implies `CACHE_TLS=true`.
+     * Data type: string
+     */
+    CACHE_TLS_CA = 'cache_tls_ca',
+
+    /**
+     * Client certificate in PEM format, implies `CACHE_TLS=true`.
+     * Data type: string
+     */
+    CACHE_TLS_CERT = 'cache_tls_cert',
+
+    /**
+     * Private key of client certificate in PEM format, implies `CACHE_TLS=true`.
+     * Data type: string
+     */
+    CACHE_TLS_KEY = 'cache_tls_key',
+
+    /**
+     * Server name for SNI and certificate verification, implies `CACHE_TLS=true`.
+     * Data type: string
+     */
+    CACHE_TLS_SERVERNAME = 'cache_tls_servername',
+
+    /**
+     * Time in milliseconds `CacheAddOn.init` waits for connection to be ready, `0` not to wait.
+     * Data type: number
+     *
+     * Default is `10000`.
+     */
+    CACHE_READY_TIMEOUT = 'cache_ready_timeout',
+
+    /**
+     * Time in milliseconds `CacheAddOn.deadLetter` waits for writes in progress,
+     * and `CacheAddOn.dispose` waits for connections to close gracefully.
+     * Data type: number
+     *
+     * Default is `5000`.
+     */
+    CACHE_SHUTDOWN_TIMEOUT = 'cache_shutdown_timeout',
+
+    /**
+     * Level of values saved without option `level`, must be one of "local", "remote" or "both".
+     * Data type: string
+     */
+    CACHE_DEFAULT_LEVEL = 'cache_default_level',
+
+    /**
+     * Expiration time in seconds of values saved without option `duration`.
+     * Data type: number
+     */
+    CACHE_DEFAULT_DURATION = 'cache_default_duration',
+
+    /**
+     * Number of consecutive failures of remote cache service which opens the circuit.
+     * Setting any of `CACHE_CIRCUIT_*` enables the circuit breaker (fail-open mode).
+     * Data type: number
+     */
+    CACHE_CIRCUIT_FAILURE_THRESHOLD = 'cache_circuit_failure_threshold',
+
+    /**
+     * Time in milliseconds the circuit stays open before probing remote cache service again.
+     * Data type: number
+     */
+    CACHE_CIRCUIT_RESET_TIMEOUT = 'cache_circuit_reset_timeout',
+
+    /**
+     * Time in milliseconds after which a remote operation is considered failed.
+     * Data type: number
+     */
+    CACHE_CIRCUIT_OPERATION_TIMEOUT = 'cache_circuit_operation_timeout',
+
+    /**
+     * Max time in seconds to keep values saved to local cache only while the circuit is open.
+     * Data type: number
+     */
+    CACHE_CIRCUIT_FALLBACK_DURATION = 'cache_circuit_fallback_duration',
+
+    /**
+     * Names of additional cache providers, each has its own connection.
+     * Settings of a named provider are the same as the default one, suffixed with `_{name}`.
+     * For example: `cache_num_conn_session`, `cache_host_session`.
+     * Data type: string[] or comma-separated string
+     */
+    CACHE_PROVIDERS = 'cache_providers',
+}
+
+export enum CacheEngine {
+    /**
+     * Uses `RedisCacheProvider`.
+     */
+    REDIS = 'redis',
+
+    /**
+     * Uses `MemoryCacheProvider`, no Redis server is required.
+     */
+    MEMORY = 'memory',
+}
@@ -0,0 +1,46 @@
+/**
+ * Makes concurrent calls with the same key share one execution.
+ */
+export class SingleFlight {
+
+    private _flights: Map<string, Promise<any>>
+
+
+    constructor() {
+        this._flights = new Map()
+    }
+
+
+    /**
+     * Gets number of executions in progress.
+     */
+    public get count(): number {
+        return this._flights.size
+    }
+
+    /**
+     * Invokes `fn` if there is no execution in progress for `key`,
+     * otherwise returns the result of the one in progress.
+     */
+    public run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+        const inFlight = this._flights.get(key)
+        if (inFlight) {
+            return inFlight
+        }
+
+        const flight = Promise.resolve()
+            .then(fn)
+            .then(
+                (result) => {
+                    this._flights.delete(key)
+                    return result
+                },
+                (err) => {
+                    this._flights.delete(key)
+                    throw err
+                },
+            )
+        this._flights.set(key, flight)
+        return flight
+    }
+}
@@ -1,4 +1,11 @@
-export class Types {
-    public static readonly CACHE_PROVIDER = 'cache.CacheProvider'
-    public static readonly CACHE_ADDON = 'cache.CacheAddOn'
-}
+export class Types {
+    public static readonly CACHE_PROVIDER = 'cache.CacheProvider'
+    public static readonly CACHE_ADDON = 'cache.CacheAddOn'
+
+    /**
+     * Gets identifier of a named cache provider, which is listed in setting `cache_providers`.
+     */
+    public static cacheProvider(name: string): string {
+        return `${Types.CACHE_PROVIDER}.${name}`
+    }
+}
@@ -0,0 +1,85 @@
+import * as util from 'util'
+import * as zlib from 'zlib'
+import { InvalidArgumentException, MinorException } from '@micro-fleet/common'
+
+import { CacheCompressionOptions, CompressionAlgorithm } from './ICacheProvider'
+
+
+/**
+ * Starts and ends algorithm name of a compressed value, which is saved as base64.
+ */
+const COMPRESSED_MARK = '\u001d'
+
+const DEFAULT_THRESHOLD = 1024
+
+type ZlibFn = (buf: Buffer) => Promise<Buffer>
+
+// Brotli is not declared by @types/node 10
+const ALGORITHMS: { [x: string]: { compress: ZlibFn, decompress: ZlibFn } } = {
+    [CompressionAlgorithm.GZIP]: {
+        compress: util.promisify(zlib.gzip),
+        decompress: util.promisify(zlib.gunzip),
+    },
+    [CompressionAlgorithm.DEFLATE]: {
+        compress: util.promisify(zlib.deflate),
+        decompress: util.promisify(zlib.inflate),
+    },
+    [CompressionAlgorithm.BROTLI]: zlib['brotliCompress'] && {
+        compress: util.promisify(zlib['brotliCompress']),
+        decompress: util.promisify(zlib['brotliDecompress']),
+    },
+}
+
+
+/**
+ * Compresses large string values and marks them with algorithm name,
+ * so that they can be decompressed transparently.
+ */
+export class ValueCompressor {
+
+    private _algorithm: CompressionAlgorithm
+    private _threshold: number
+
+
+    /**
+     * @param {CacheCompressionOptions} opts If not specified, values are not compressed,
+     *      but compressed values are still decompressed.
+     */
+    constructor(opts?: CacheCompressionOptions) {
+        if (!opts) { return }
+        this._algorithm = opts.algorithm || CompressionAlgorithm.GZIP
+        this._threshold = (opts.threshold != null) ? opts.threshold : DEFAULT_THRESHOLD
+        if (!ALGORITHMS[this._algorithm]) {
+            throw new InvalidArgumentException('algorithm', `Compression algorithm "${this._algorithm}" is not supported`)
+        }
+    }
+
+
+    /**
+     * Compresses `value` if compression is enabled and `value` is large enough.
+     */
+    public async compress(value: string): Promise<string> {
+        if (!this._algorithm || Buffer.byteLength(value) < this._threshold) {
+            return value
+        }
+        const compressed = await ALGORITHMS[this._algorithm].compress(Buffer.from(value))
+        return `${COMPRESSED_MARK}${this._algorithm}${COMPRESSED_MARK}${compressed.toString('base64')}`
+    }
+
+    /**
+     * Decompresses `stored` if it is marked as compressed, otherwise returns it as-is.
+     */
+    public async decompress(stored: string): Promise<string> {
+        if (typeof stored !== 'string' || stored.charAt(0) !== COMPRESSED_MARK) {
+            return stored
+        }
+        const nameEnd = stored.indexOf(COMPRESSED_MARK, 1)
+        const name = stored.substring(1, nameEnd)
+        const algorithm = (nameEnd > 0) && ALGORITHMS[name]
+        if (!algorithm) {
+            throw new MinorException(`Cannot decompress value compressed with "${name}"`)
+        }
+        const decompressed = await algorithm.decompress(Buffer.from(stored.substring(nameEnd + 1), 'base64'))
+        return decompressed.toString()
+    }
+}
@@ -1,57 +1,153 @@
 /// <reference types="debug" />
 const debug: debug.IDebugger = require('debug')('mcft:cache:cacheable')
 
-import { Types as cT, ICacheProvider, CacheSetOptions, CacheLevel } from '@micro-fleet/cache'
+import { EventEmitter } from 'events'
 import { Maybe, serviceContext, MinorException, PagedData, PrimitiveType, ISerializable } from '@micro-fleet/common'
 
+import { ICacheProvider, CacheSetOptions, CacheGetOptions, CacheLevel,
+    CacheValueType, CacheEvent, CacheEventArgs } from './ICacheProvider'
+import { Types as cT } from './Types'
+import { SingleFlight } from './SingleFlight'
 
-export type CacheDecoratorOptions = {
+
+/**
+ * Appended to cache key to save the time until which the cached value is fresh, if `staleDuration` is specified.
+ */
+const FRESH_SUFFIX = '::@freshUntil'
+
+/**
+ * Background refreshes in progress, one per cache provider and real key.
+ */
+const revalidations = new SingleFlight()
+
+
+/**
+ * Options to build the final cache key from target function's arguments.
+ */
+export type CacheKeyOptions = {
     /**
      * The key to identify cached value and to fetch it later.
      */
     cacheKey: string,
 
+    /**
+     * Name of the cache provider listed in setting `cache_providers`.
+     *
+     * Default: the default cache provider.
+     */
+    provider?: string,
+
+    /**
+     * If true, the key is not prepended with service slug, and is accessible
+     * by other CacheProvider instances from other services.
+     * Default is `false`.
+     */
+    isGlobal?: boolean,
+
+    /**
+     * A function that produces a final cache key.
+     *
+     * As default, the final cache key is: `${cacheKey}:${serializedArgs}`
+     */
+    cacheKeyBuilder?(cacheKey: string, serializedArgs: string): string;
+
+    /**
+     * A function that accepts an array of the arguments of target function,
+     * and produces a string to pass to `cacheKeyBuilder`.
+     */
+    argsSerializer?(args: any[]): string;
+}
+
+export type CacheDecoratorOptions = CacheKeyOptions & {
+
     /**
      * Whether to save in local cache only, or remote only, or both.
      * If both, then local cache is kept in sync with remote value even when
      * this value is updated in remote service by another app process.
      *
-     * Default: CacheLevel.REMOTE
+     * Default: the default level of cache provider, which is `CacheLevel.REMOTE` if connected to remote service.
      */
     cacheLevel?: CacheLevel,
 
     /**
      * Expiration time in seconds.
      *
-     * Default: never expire.
+     * Default: the default duration of cache provider, which is to never expire.
      */
     duration?: number,
 
     /**
-     * If true, the key is not prepended with service slug, and is accessible
-     * by other CacheProvider instances from other services.
+     * Whether to save negative results: `null`, `undefined` and `Maybe.Nothing`.
+     *
      * Default is `false`.
      */
-    isGlobal?: boolean,
+    cacheNothing?: boolean,
+
+    /**
+     * Expiration time in seconds of negative results, if `cacheNothing` is true.
+     * Usually shorter than `duration`, so that "not found" answers don't stay for long.
+     *
+     * Default: same as `duration`.
+     */
+    negativeDuration?: number,
+
+    /**
+     * Time in seconds after `duration` (or `negativeDuration`) passes, during which
+     * the stale cached value is still returned right away, while it is refreshed in background
+     * by invoking target function once per key. If refreshing fails, the stale value is kept
+     * and event `error` is emitted by cache provider.
+     * Cached value is removed when this time passes.
+     * A cached value whose fresh time is missing (eg: saved by older versions) is considered stale.
+     *
+     * Only effective if `duration` is specified.
+     *
+     * Default: not returning stale value.
+     */
+    staleDuration?: number,
 
     /**
      * Skips local cache and fetch from remote server.
+     * Ignored if `cacheLevel` is `CacheLevel.LOCAL` or not specified.
+     * Set to `false` to read from local cache if `cacheLevel` is `CacheLevel.BOTH`.
+     *
      * Default is `true`.
      */
     forceRemote?: boolean,
 
     /**
-     * A function that produces a final cache key.
+     * (Only takes effect when reading from remote server)
+     * If true, cached strings are parsed to nearest possible primitive data type.
      *
-     * As default, the final cache key is: `${cacheKey}:${serializedArgs}`
+     * Default is `false`.
      */
-    cacheKeyBuilder?(cacheKey: string, serializedArgs: string): string;
+    parseType?: boolean,
+
+    /**
+     * How the value returned by `resultSerializer` is written and read.
+     * Must be specified if a custom `resultSerializer` returns arrays or primitives,
+     * otherwise the value is written according to its type but read as `CacheValueType.OBJECT`.
+     *
+     * Default: `CacheValueType.OBJECT` because `resultSerializer` always returns an object.
+     */
+    valueType?: CacheValueType,
 
     /**
      * A function that accepts an array of the arguments of target function,
-     * and produces a string to pass to `cacheKeyBuilder`.
+     * and returns `false` to skip cache entirely, neither reading nor saving.
+     * It is invoked with the same `this` as target function.
+     *
+     * Default: always use cache.
      */
-    argsSerializer?(args: any[]): string;
+    condition?(args: any[]): boolean;
+
+    /**
+     * A function that accepts the resolved value of target function,
+     * and returns `true` to not save it to cache.
+     * It is invoked with the same `this` as target function.
+     *
+     * Default: always save.
+     */
+    unless?(result: any): boolean;
 
     /**
      * A function that accepts the return value of target function,
@@ -66,6 +162,33 @@ export type CacheDecoratorOptions = {
     resultRebuilder?(fromCache: any): any;
 }
 
+export type CacheEvictOptions = CacheKeyOptions & {
+    /**
+     * If true, `cacheKey` is a pattern (eg: `products:*`) and is used as-is,
+     * without arguments of target function.
+     *
+     * Default is `false`.
+     */
+    isPattern?: boolean,
+
+    /**
+     * If true, removes all values cached under `cacheKey`, regardless of arguments.
+     * The pattern is built by passing `*` as serialized arguments to `cacheKeyBuilder`.
+     *
+     * Default is `false`.
+     */
+    allEntries?: boolean,
+
+    /**
+     * If true, removes cached values before invoking target function,
+     * even if it fails later.
+     * Otherwise, values are only removed after target function resolves successfully.
+     *
+     * Default is `false`.
+     */
+    beforeInvocation?: boolean,
+}
+
 /**
  * Used to add filter to controller class and controller action.
  * @param {class} FilterClass Filter class whose name must end with "Filter".
@@ -76,66 +199,38 @@ export function cacheable(keyOrOptions: string | CacheDecoratorOptions): Functio
         // proto === TargetClass.prototype
         // fnName === "targetMethodName"
         // propDesc === Object.getOwnPropertyDescriptor(TargetClass.prototype, "targetMethodName")
-        keyOrOptions = (typeof keyOrOptions === 'object')
-            ? keyOrOptions
-            : { cacheKey: keyOrOptions }
-
-        const opts: CacheDecoratorOptions = Object.assign(<CacheDecoratorOptions>{
-            cacheKeyBuilder,
-            cacheLevel: CacheLevel.REMOTE,
-            isGlobal: false,
-            argsSerializer,
-            resultSerializer,
-            resultRebuilder,
-        }, keyOrOptions)
+        const opts = withDefaults(keyOrOptions)
         const originalFn = propDesc.value
 
         propDesc.value = async function (...args: any[]) {
-            const container = serviceContext.dependencyContainer
-            const cacheProd = container.resolve<ICacheProvider>(cT.CACHE_PROVIDER)
-
-            // Convert list of arguments to string
-            const serializedArgs = opts.argsSerializer(args)
-            const cacheKey = cacheKeyBuilder(opts.cacheKey, serializedArgs)
-            const maybe = (await cacheProd.getObject(cacheKey, {
-                    isGlobal: opts.isGlobal,
-                    parseType: false,
-                }))
-                .map(opts.resultRebuilder)
-
-            if (maybe.isJust) {
-                debug('From cache')
-                return maybe.value
+            if (opts.condition && !opts.condition.call(this, args)) {
+                debug('Skip cache by condition')
+                return invokeAsync(originalFn, this, args, 'cacheable')
             }
 
-            // Invoke original function and get its return value
-            const result = originalFn.apply(this, args)
-            if (!isPromise(result)) {
-                throw new MinorException('Decorator @cache only supports async methods')
+            const cacheProd = resolveProvider(opts)
+            const cacheKey = buildKey(opts, args)
+            const maybe = await readCache(cacheProd, cacheKey, opts)
+            const loadAndSave = async () => {
+                // Invoke original function and get its return value
+                const loaded = await invokeAsync(originalFn, this, args, 'cacheable')
+                if (shouldSave(opts, this, loaded)) {
+                    await saveResult(cacheProd, cacheKey, loaded, opts)
+                }
+                return loaded
             }
 
-            try {
-                // convert result to string
-                const toCache = opts.resultSerializer(await result)
-                const setOpts: CacheSetOptions = {
-                    isGlobal: opts.isGlobal,
-                    level: opts.cacheLevel,
-                    duration: opts.duration,
-                }
-                if (Array.isArray(toCache)) {
-                    await cacheProd.setArray(cacheKey, toCache as PrimitiveType[], setOpts)
-                }
-                else if (typeof toCache === 'object') {
-                    await cacheProd.setObject(cacheKey, toCache, setOpts)
-                }
-                else {
-                    await cacheProd.setPrimitive(cacheKey, toCache, setOpts)
+            if (maybe.isJust) {
+                debug('From cache')
+                const freshUntil = await readFreshUntil(cacheProd, cacheKey, opts)
+                if (freshUntil < Date.now()) {
+                    revalidate(cacheProd, cacheKey, opts, loadAndSave)
                 }
-            }
-            catch {
-                return result
+                return opts.resultRebuilder(maybe.value)
             }
 
+            const result = await loadAndSave()
+
             debug('From original invocation')
             // Return the result of invoking the method
             return result
@@ -144,6 +239,68 @@ export function cacheable(keyOrOptions: string | CacheDecoratorOptions): Functio
     }
 }
 
+/**
+ * Always invokes the decorated method, then saves its result to cache
+ * with the same key as `@cacheable` would build.
+ * If the result is not saved because of `cacheNothing` or `unless`, the cached value is removed instead.
+ */
+export function cachePut(keyOrOptions: string | CacheDecoratorOptions): Function {
+    return function (proto: any, fnName: string, propDesc: PropertyDescriptor): PropertyDescriptor {
+        const opts = withDefaults(keyOrOptions)
+        const originalFn = propDesc.value
+
+        propDesc.value = async function (...args: any[]) {
+            const result = await invokeAsync(originalFn, this, args, 'cachePut')
+            if (opts.condition && !opts.condition.call(this, args)) {
+                return result
+            }
+            const cacheProd = resolveProvider(opts)
+            const cacheKey = buildKey(opts, args)
+            if (shouldSave(opts, this, result)) {
+                await saveResult(cacheProd, cacheKey, result, opts)
+                debug(`Put "${cacheKey}"`)
+            }
+            else {
+                // The cached value has been replaced by a result which is not cached
+                await removeResult(cacheProd, cacheKey, opts)
+            }
+            return result
+        }
+        return propDesc
+    }
+}
+
+/**
+ * Removes values cached by `@cacheable` when the decorated method is invoked.
+ */
+export function cacheEvict(keyOrOptions: string | CacheEvictOptions): Function {
+    return function (proto: any, fnName: string, propDesc: PropertyDescriptor): PropertyDescriptor {
+        const opts: CacheEvictOptions = Object.assign(<CacheEvictOptions>{
+            cacheKeyBuilder,
+            isGlobal: false,
+            isPattern: false,
+            allEntries: false,
+            beforeInvocation: false,
+            argsSerializer,
+        }, toOptions(keyOrOptions))
+        const originalFn = propDesc.value
+
+        propDesc.value = async function (...args: any[]) {
+            const cacheProd = resolveProvider(opts)
+            if (opts.beforeInvocation) {
+                await evict(cacheProd, opts, args)
+                return invokeAsync(originalFn, this, args, 'cacheEvict')
+            }
+
+            // Rejection skips eviction
+            const result = await invokeAsync(originalFn, this, args, 'cacheEvict')
+            await evict(cacheProd, opts, args)
+            return result
+        }
+        return propDesc
+    }
+}
+
 export function cacheKeyBuilder(cacheKey: string, serializedArgs: string): string {
     return `${cacheKey}:${serializedArgs}`
 }
@@ -164,7 +321,13 @@ type CachedObj = {
 }
 
 export function resultSerializer(toCache: any): string | PrimitiveType[] | object {
-    if (isPagedData(toCache)) {
+    if (toCache == null) {
+        return {
+            'type': '@cache__nil',
+            'value': String(toCache),
+        } as object
+    }
+    else if (isPagedData(toCache)) {
         // Don't check with "instanceOf" because we are not sure this is "PagedData"
         // from @micro-fleet/common or @micro-fleet/common-browser.
         return {
@@ -224,6 +387,9 @@ export function resultRebuilder(fromCache: any): any {
         case '@cache__Array':
             return (JSON.parse(fromCache.value) as any[]).map(resultRebuilder)
 
+        case '@cache__nil':
+            return (fromCache.value === 'null') ? null : undefined
+
         case '@cache__Maybe':
             if (fromCache.value === '__Maybe.Nothing__') {
                 return Maybe.Nothing()
@@ -236,6 +402,225 @@ export function resultRebuilder(fromCache: any): any {
 }
 
 
+function toOptions<T extends CacheKeyOptions>(keyOrOptions: string | T): T {
+    return (typeof keyOrOptions === 'object')
+        ? keyOrOptions
+        : { cacheKey: keyOrOptions } as T
+}
+
+function withDefaults(keyOrOptions: string | CacheDecoratorOptions): CacheDecoratorOptions {
+    return Object.assign(<CacheDecoratorOptions>{
+        cacheKeyBuilder,
+        isGlobal: false,
+        forceRemote: true,
+        parseType: false,
+        argsSerializer,
+        resultSerializer,
+        resultRebuilder,
+    }, toOptions(keyOrOptions))
+}
+
+function resolveProvider(opts: CacheKeyOptions): ICacheProvider {
+    const container = serviceContext.dependencyContainer
+    return container.resolve<ICacheProvider>(opts.provider
+        ? cT.cacheProvider(opts.provider)
+        : cT.CACHE_PROVIDER,
+    )
+}
+
+/**
+ * Converts list of arguments to string then builds the final cache key.
+ */
+function buildKey(opts: CacheKeyOptions, args: any[]): string {
+    const serializedArgs = opts.argsSerializer(args)
+    return opts.cacheKeyBuilder(opts.cacheKey, serializedArgs)
+}
+
+function invokeAsync(fn: Function, thisArg: any, args: any[], decoratorName: string): Promise<any> {
+    const result = fn.apply(thisArg, args)
+    if (!isPromise(result)) {
+        throw new MinorException(`Decorator @${decoratorName} only supports async methods`)
+    }
+    return result
+}
+
+/**
+ * Refreshes stale value in background, if it is not being refreshed.
+ */
+function revalidate(cacheProd: ICacheProvider, cacheKey: string, opts: CacheDecoratorOptions,
+        loadAndSave: () => Promise<any>): void {
+    debug(`Revalidate "${cacheKey}"`)
+    const realKey = opts.isGlobal ? cacheKey : `${cacheProd.name}::${cacheKey}`
+    // Named providers may have the same name
+    revalidations.run(`${opts.provider || ''}|${realKey}`, loadAndSave)
+        .catch(error => {
+            debug(`Failed to revalidate "${cacheKey}", keeping stale value: ${error}`)
+            emitError(cacheProd, {
+                key: realKey,
+                operation: 'revalidate',
+                error,
+            })
+        })
+}
+
+/**
+ * Emits event `error` if cache provider emits events and anyone is listening,
+ * because `EventEmitter` throws the error if nobody listens.
+ */
+function emitError(cacheProd: ICacheProvider, args: CacheEventArgs): void {
+    const emitter = cacheProd as any as EventEmitter
+    if (typeof emitter.listenerCount !== 'function' || !emitter.listenerCount(CacheEvent.ERROR)) {
+        return
+    }
+    try {
+        emitter.emit(CacheEvent.ERROR, args)
+    }
+    catch (err) {
+        debug(`A listener of event "${CacheEvent.ERROR}" failed: ${err.message}`)
+    }
+}
+
+/**
+ * @returns The time until which the cached value is fresh, `Infinity` if it never becomes stale,
+ *      or `0` if the fresh time is missing.
+ */
+async function readFreshUntil(cacheProd: ICacheProvider, cacheKey: string, opts: CacheDecoratorOptions): Promise<number> {
+    if (!(opts.staleDuration > 0)) {
+        return Infinity
+    }
+    const freshUntil = await cacheProd.getPrimitive(cacheKey + FRESH_SUFFIX, toGetOptions(opts))
+    return freshUntil.isJust ? Number(freshUntil.value) : 0
+}
+
+function toGetOptions(opts: CacheDecoratorOptions): CacheGetOptions {
+    return {
+        isGlobal: opts.isGlobal,
+        // Without level, value may be saved in local cache by default of cache provider
+        forceRemote: (opts.cacheLevel != null && opts.cacheLevel !== CacheLevel.LOCAL) && opts.forceRemote,
+        parseType: opts.parseType,
+    }
+}
+
+function readCache(cacheProd: ICacheProvider, cacheKey: string, opts: CacheDecoratorOptions): Promise<Maybe<any>> {
+    const getOpts = toGetOptions(opts)
+    switch (opts.valueType) {
+        case CacheValueType.ARRAY:
+            return cacheProd.getArray(cacheKey, getOpts)
+        case CacheValueType.PRIMITIVE:
+            return cacheProd.getPrimitive(cacheKey, getOpts)
+        default:
+            return cacheProd.getObject(cacheKey, getOpts)
+    }
+}
+
+/**
+ * Checks if a value saved with `duration` becomes stale before it expires, because of `staleDuration`.
+ */
+function becomesStale(opts: CacheDecoratorOptions, duration: number): boolean {
+    return (opts.staleDuration > 0 && duration > 0)
+}
+
+function isNegative(result: any): boolean {
+    return (result == null) || (Maybe.isMaybe(result) && result.isNothing)
+}
+
+/**
+ * Checks option `cacheNothing` and predicate `unless`.
+ */
+function shouldSave(opts: CacheDecoratorOptions, thisArg: any, result: any): boolean {
+    if (isNegative(result) && !opts.cacheNothing) {
+        return false
+    }
+    return !opts.unless || !opts.unless.call(thisArg, result)
+}
+
+/**
+ * Serializes `result` and saves it to cache.
+ * Failing to save doesn't affect the result.
+ */
+async function saveResult(cacheProd: ICacheProvider, cacheKey: string, result: any,
+        opts: CacheDecoratorOptions): Promise<void> {
+    try {
+        const toCache = opts.resultSerializer(result)
+        const setOpts: CacheSetOptions = {
+            isGlobal: opts.isGlobal,
+            level: opts.cacheLevel,
+            duration: (isNegative(result) && opts.negativeDuration != null)
+                ? opts.negativeDuration
+                : opts.duration,
+        }
+        let freshUntil = Infinity
+        if (becomesStale(opts, setOpts.duration)) {
+            freshUntil = Date.now() + setOpts.duration * 1000
+            setOpts.duration += opts.staleDuration
+        }
+        switch (opts.valueType || inferValueType(toCache)) {
+            case CacheValueType.ARRAY:
+                await cacheProd.setArray(cacheKey, toCache as PrimitiveType[], setOpts)
+                break
+            case CacheValueType.OBJECT:
+                await cacheProd.setObject(cacheKey, toCache as object, setOpts)
+                break
+            default:
+                await cacheProd.setPrimitive(cacheKey, toCache as PrimitiveType, setOpts)
+        }
+        // Saved next to the value instead of wrapping it, so that the value is saved as usual.
+        // A value saved without expiration never becomes stale.
+        if (opts.staleDuration > 0) {
+            await cacheProd.setPrimitive(cacheKey + FRESH_SUFFIX, freshUntil, setOpts)
+        }
+    }
+    catch (err) {
+        debug(`Failed to save "${cacheKey}": ${err}`)
+    }
+}
+
+/**
+ * Removes the cached value of `cacheKey`.
+ * Failing to remove doesn't affect the result.
+ */
+async function removeResult(cacheProd: ICacheProvider, cacheKey: string, opts: CacheDecoratorOptions): Promise<void> {
+    try {
+        await removeKey(cacheProd, cacheKey, opts)
+    }
+    catch (err) {
+        debug(`Failed to remove "${cacheKey}": ${err}`)
+    }
+}
+
+/**
+ * Removes the cached value of `cacheKey` together with its fresh time, if any.
+ */
+function removeKey(cacheProd: ICacheProvider, cacheKey: string, opts: CacheKeyOptions): Promise<void> {
+    debug(`Evict "${cacheKey}"`)
+    return cacheProd.deleteMany([cacheKey, cacheKey + FRESH_SUFFIX], { isGlobal: opts.isGlobal })
+}
+
+function inferValueType(toCache: any): CacheValueType {
+    if (Array.isArray(toCache)) {
+        return CacheValueType.ARRAY
+    }
+    return (typeof toCache === 'object')
+        ? CacheValueType.OBJECT
+        : CacheValueType.PRIMITIVE
+}
+
+function evict(cacheProd: ICacheProvider, opts: CacheEvictOptions, args: any[]): Promise<void> {
+    if (!opts.isPattern && !opts.allEntries) {
+        return removeKey(cacheProd, buildKey(opts, args), opts)
+    }
+
+    let pattern = opts.isPattern
+        ? opts.cacheKey
+        : opts.cacheKeyBuilder(opts.cacheKey, '*')
+    // Pattern deletion doesn't prepend service slug
+    if (!opts.isGlobal) {
+        pattern = `${cacheProd.name}::${pattern}`
+    }
+    debug(`Evict pattern "${pattern}"`)
+    return cacheProd.delete(pattern, { isPattern: true })
+}
+
 /**
  * Checks if target is a Promise, either is native or Bluebird or other libraries.
  */
@@ -244,7 +629,7 @@ function isPromise(target: any): target is Promise<any> {
 }
 
 function isInternalObj(target: any): target is CachedObj {
-    return (typeof target.type === 'string') && target.type.startsWith('@cache__')
+    return (target != null) && (typeof target.type === 'string') && target.type.startsWith('@cache__')
 }
 
 function isPagedData(target: object): target is PagedData<any> {
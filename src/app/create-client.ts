@@ -0,0 +1,40 @@
+import * as redis from 'redis'
+
+import { CacheConnectionDetail } from './ICacheProvider'
+
+
+/**
+ * Creates a node_redis client with credentials, database and TLS options from `detail`.
+ * @param {ClientOpts} extraOpts Other node_redis options.
+ */
+export function createRedisClient(detail: CacheConnectionDetail, extraOpts: redis.ClientOpts = {}): redis.RedisClient {
+    const { host, port, password, username, db, tls } = detail
+    const opts: redis.ClientOpts = { ...extraOpts, host, port }
+    if (db != null) {
+        opts.db = db
+    }
+    if (tls) {
+        opts.tls = {
+            ...tls,
+            servername: tls.servername || host,
+        }
+    }
+    if (password && !username) {
+        opts.password = password
+    }
+
+    const client = redis.createClient(opts)
+    if (password && username) {
+        // node_redis 2.x only sends "AUTH <password>", so we send ACL-style AUTH
+        // on every (re)connection, before anything else, the same way node_redis does.
+        client.on('connect', () => {
+            const ready = client['ready']
+            client['ready'] = true
+            client.send_command('auth', [username, password], (err: Error) => {
+                err && client.emit('error', err)
+            })
+            client['ready'] = ready
+        })
+    }
+    return client
+}
@@ -1,7 +1,12 @@
-export * from './cacheable'
-export * from './CacheAddOn'
-export * from './RedisCacheProvider'
-// export * from './CacheSettings'
-export * from './ICacheProvider'
-export * from './Types'
-export * from './register-addon'
+export * from './cacheable'
+export * from './CacheCodec'
+export * from './CacheStats'
+export * from './CacheAddOn'
+export * from './RedisCacheProvider'
+export * from './MemoryCacheProvider'
+// export * from './CacheSettings'
+export * from './ICacheProvider'
+export * from './LocalStoreTracker'
+export * from './SettingKeys'
+export * from './Types'
+export * from './register-addon'
@@ -0,0 +1,26 @@
+import { MinorException } from '@micro-fleet/common'
+
+
+/**
+ * Invokes `fn` and rejects with `MinorException` if it doesn't settle within `timeout`.
+ * @param {number} timeout In milliseconds, zero or negative to wait forever.
+ * @param {string} message Message of the exception. Default is `Operation has timed out after {timeout}ms`.
+ */
+export async function withTimeout<T>(fn: () => Promise<T>, timeout: number, message?: string): Promise<T> {
+    if (!(timeout > 0)) {
+        return fn()
+    }
+    let timer: NodeJS.Timer
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+            () => reject(new MinorException(message || `Operation has timed out after ${timeout}ms`)),
+            timeout,
+        )
+    })
+    try {
+        return await Promise.race([fn(), timeoutPromise])
+    }
+    finally {
+        clearTimeout(timer)
+    }
+}
@@ -1,218 +1,614 @@
-import * as chai from 'chai'
-import * as spies from 'chai-spies'
-import { DependencyContainer, IConfigurationProvider, Maybe,
-    constants } from '@micro-fleet/common'
-
-import { CacheAddOn, RedisCacheProvider, Types as T } from '../app'
-
-
-chai.use(spies)
-const expect = chai.expect
-const { Cache: C, Service: SvS } = constants
-
-enum Mode {
-    NoServiceSlug = 'noSlug',
-    LocalCache = 'local',
-    Single = 'single',
-    Cluster = 'cluster',
-    ZeroConnection = 'zeroConn',
-}
-
-class MockConfigAddOn implements IConfigurationProvider {
-    public readonly name: string = 'MockConfigAddOn'
-    public configFilePath: string
-
-    constructor(private _mode: Mode) {
-
-    }
-
-    get enableRemote(): boolean {
-        return true
-    }
-
-    public get(key: string): Maybe<number | boolean | string | any[]> {
-        if (this._mode === Mode.LocalCache) {
-            switch (key) {
-                case C.CACHE_NUM_CONN: return Maybe.Just(0)
-                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
-                default: return Maybe.Nothing()
-            }
-        }
-        else if (this._mode === Mode.ZeroConnection) {
-            switch (key) {
-                // Number of connection = 0
-                // This case happens during development when a developer's machine doesn't have Redis.
-                // Set NUM_CONN=0 is a quick workaround.
-                case C.CACHE_NUM_CONN: return Maybe.Just(0)
-                case C.CACHE_HOST: return Maybe.Just('localhost') // Will be ignored
-                case C.CACHE_PORT: return Maybe.Just(6379) // Will be ignored
-                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc') // Will be ignored
-                default: return Maybe.Nothing()
-            }
-        }
-        else if (this._mode === Mode.Single) {
-            switch (key) {
-                case C.CACHE_NUM_CONN: return Maybe.Just(1)
-                case C.CACHE_HOST: return Maybe.Just('localhost')
-                case C.CACHE_PORT: return Maybe.Just(6379)
-                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
-                default: return Maybe.Nothing()
-            }
-        }
-        else if (this._mode === Mode.Cluster) {
-            switch (key) {
-                case C.CACHE_NUM_CONN: return Maybe.Just(2)
-                case C.CACHE_HOST: return Maybe.Just(['127.0.0.1'])
-                case C.CACHE_PORT: return Maybe.Just([6379, 6380])
-                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
-                default: return Maybe.Nothing()
-            }
-        }
-        return Maybe.Nothing()
-    }
-
-    public deadLetter(): Promise<void> {
-        return Promise.resolve()
-    }
-
-    public fetch(): Promise<boolean> {
-        return Promise.resolve(true)
-    }
-
-    public init(): Promise<void> {
-        return Promise.resolve()
-    }
-
-    public dispose(): Promise<void> {
-        return Promise.resolve()
-    }
-
-    public onUpdate(listener: (delta: string[]) => void) {
-        // Empty
-    }
-}
-
-
-let depContainer: DependencyContainer
-
-describe('CacheAddOn', function () {
-    // this.timeout(60000)
-
-    beforeEach(() => {
-        depContainer = new DependencyContainer()
-    })
-
-    afterEach(() => {
-        depContainer.dispose()
-    })
-
-
-    describe('init', () => {
-        let cacheAddOn: CacheAddOn
-
-        afterEach(() => {
-            return cacheAddOn.dispose()
-        })
-
-        it('should reject init if no service slug is provided', async () => {
-            // Arrange
-            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.NoServiceSlug), depContainer)
-
-            // Act
-            let exception
-            try {
-                await cacheAddOn.init()
-            }
-            catch (err) {
-                exception = err
-            }
-
-            // Assert
-            expect(exception).to.exist
-            expect(exception.message).to.equal('The setting SERVICE_SLUG is required')
-            expect(cacheAddOn['_cacheProvider']).not.to.exist
-        })
-
-        it('should use local cache only if no server is provided', async () => {
-            // Arrange
-            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.LocalCache), depContainer)
-
-            // Act
-            await cacheAddOn.init()
-
-            // Assert
-            expect(cacheAddOn['_cacheProvider']).to.exist
-            expect(cacheAddOn['_cacheProvider']['_engine']).not.to.exist
-        })
-
-        it('should use local cache only if connection count is zero', async () => {
-            // Arrange
-            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.ZeroConnection), depContainer)
-
-            // Act
-            await cacheAddOn.init()
-
-            // Assert
-            expect(cacheAddOn['_cacheProvider']).to.exist
-            expect(cacheAddOn['_cacheProvider']['_engine']).not.to.exist
-        })
-
-        it('should connect to single server', async () => {
-            // Arrange
-            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Single), depContainer)
-
-            // Act
-            await cacheAddOn.init()
-
-            // Assert
-            const cacheProvider = depContainer.resolve<RedisCacheProvider>(T.CACHE_PROVIDER)
-            expect(cacheProvider['_options'].single).to.exist
-            expect(cacheProvider['_options'].single.host).to.equal('localhost')
-            expect(cacheProvider['_options'].single.port).to.equal(6379)
-            expect(cacheProvider['_options'].cluster).not.to.exist
-        })
-
-        // it('should connect to cluster of servers', async () => {
-        //     // Arrange
-        //     cacheAddOn = new CacheAddOn(new MockConfigAddOn('cluster'), depContainer)
-
-        //     // Act
-        //     await cacheAddOn.init()
-
-        //     // Assert
-        //     const cacheProvider = depContainer.resolve<CacheProvider>(T.CACHE_PROVIDER)
-        //     expect(cacheProvider['_options'].cluster).to.exist
-        //     expect(cacheProvider['_options'].cluster.length).to.be.equal(2)
-        //     expect(cacheProvider['_options'].single).not.to.exist
-        // })
-    }) // END describe 'init'
-
-
-    describe('dispose', () => {
-        it('should call cacheProvider.dispose', async () => {
-            // Arrange
-            const cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Single), depContainer)
-
-            await cacheAddOn.init()
-            const disconnectSpy = chai.spy.on(cacheAddOn['_cacheProvider'], 'dispose')
-
-            // Act
-            await cacheAddOn.dispose()
-
-            // Assert
-            expect(disconnectSpy).to.be.spy
-            expect(disconnectSpy).to.have.been.called.once
-        })
-    }) // END describe 'dispose'
-
-
-    describe('deadLetter', () => {
-        it('should resolve (for now)', async () => {
-            // Arrange
-            const cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Single), depContainer)
-
-            // Act
-            await cacheAddOn.deadLetter()
-        })
-    }) // END describe 'deadLetter'
-})
+import * as chai from 'chai'
+import * as spies from 'chai-spies'
+import * as redis from 'redis'
+import { DependencyContainer, IConfigurationProvider, Maybe,
+    CriticalException, constants } from '@micro-fleet/common'
+
+import { CacheAddOn, RedisCacheProvider, MemoryCacheProvider, ICacheProvider,
+    CacheSettingKeys as CS, CacheEngine, CacheLevel, Types as T } from '../app'
+
+
+chai.use(spies)
+const expect = chai.expect
+const { Cache: C, Service: SvS } = constants
+
+enum Mode {
+    NoServiceSlug = 'noSlug',
+    LocalCache = 'local',
+    Single = 'single',
+    Cluster = 'cluster',
+    ZeroConnection = 'zeroConn',
+    Memory = 'memory',
+    UnknownEngine = 'unknownEngine',
+    Sentinel = 'sentinel',
+    Secured = 'secured',
+    Named = 'named',
+    BadNamed = 'badNamed',
+    FailOpen = 'failOpen',
+    NotReady = 'notReady',
+}
+
+class MockConfigAddOn implements IConfigurationProvider {
+    public readonly name: string = 'MockConfigAddOn'
+    public configFilePath: string
+
+    constructor(private _mode: Mode) {
+
+    }
+
+    get enableRemote(): boolean {
+        return true
+    }
+
+    public get(key: string): Maybe<number | boolean | string | any[]> {
+        if (this._mode === Mode.LocalCache) {
+            switch (key) {
+                case C.CACHE_NUM_CONN: return Maybe.Just(0)
+                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
+                default: return Maybe.Nothing()
+            }
+        }
+        else if (this._mode === Mode.ZeroConnection) {
+            switch (key) {
+                // Number of connection = 0
+                // This case happens during development when a developer's machine doesn't have Redis.
+                // Set NUM_CONN=0 is a quick workaround.
+                case C.CACHE_NUM_CONN: return Maybe.Just(0)
+                case C.CACHE_HOST: return Maybe.Just('localhost') // Will be ignored
+                case C.CACHE_PORT: return Maybe.Just(6379) // Will be ignored
+                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc') // Will be ignored
+                default: return Maybe.Nothing()
+            }
+        }
+        else if (this._mode === Mode.Memory) {
+            switch (key) {
+                case CS.CACHE_ENGINE: return Maybe.Just(CacheEngine.MEMORY)
+                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
+                default: return Maybe.Nothing()
+            }
+        }
+        else if (this._mode === Mode.UnknownEngine) {
+            switch (key) {
+                case CS.CACHE_ENGINE: return Maybe.Just('memcached')
+                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
+                default: return Maybe.Nothing()
+            }
+        }
+        else if (this._mode === Mode.Sentinel) {
+            switch (key) {
+                case C.CACHE_NUM_CONN: return Maybe.Just(2)
+                case C.CACHE_HOST: return Maybe.Just(['127.0.0.1', '127.0.0.2'])
+                case CS.CACHE_SENTINEL_MASTER: return Maybe.Just('mymaster')
+                case CS.CACHE_READY_TIMEOUT: return Maybe.Just(0)
+                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
+                default: return Maybe.Nothing()
+            }
+        }
+        else if (this._mode === Mode.Secured) {
+            switch (key) {
+                case C.CACHE_NUM_CONN: return Maybe.Just(1)
+                case C.CACHE_HOST: return Maybe.Just('redis.example.com')
+                case C.CACHE_PORT: return Maybe.Just(6380)
+                case CS.CACHE_PASSWORD: return Maybe.Just('secret')
+                case CS.CACHE_USERNAME: return Maybe.Just('app')
+                case CS.CACHE_DB: return Maybe.Just(2)
+                case CS.CACHE_TLS_CA: return Maybe.Just('--CA--')
+                case CS.CACHE_READY_TIMEOUT: return Maybe.Just(0)
+                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
+                default: return Maybe.Nothing()
+            }
+        }
+        else if (this._mode === Mode.Named) {
+            switch (key) {
+                case C.CACHE_NUM_CONN: return Maybe.Just(0)
+                case CS.CACHE_PROVIDERS: return Maybe.Just('session, data')
+                case `${CS.CACHE_ENGINE}_session`: return Maybe.Just(CacheEngine.MEMORY)
+                case `${CS.CACHE_DEFAULT_DURATION}_session`: return Maybe.Just(60)
+                case `${C.CACHE_NUM_CONN}_data`: return Maybe.Just(0)
+                case `${CS.CACHE_DEFAULT_LEVEL}_data`: return Maybe.Just('both')
+                case `${CS.CACHE_DEFAULT_DURATION}_data`: return Maybe.Just(3600)
+                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
+                default: return Maybe.Nothing()
+            }
+        }
+        else if (this._mode === Mode.BadNamed) {
+            switch (key) {
+                case C.CACHE_NUM_CONN: return Maybe.Just(0)
+                case CS.CACHE_PROVIDERS: return Maybe.Just('session, data')
+                case `${CS.CACHE_ENGINE}_session`: return Maybe.Just(CacheEngine.MEMORY)
+                case `${CS.CACHE_ENGINE}_data`: return Maybe.Just('memcached')
+                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
+                default: return Maybe.Nothing()
+            }
+        }
+        else if (this._mode === Mode.FailOpen) {
+            switch (key) {
+                case C.CACHE_NUM_CONN: return Maybe.Just(1)
+                case C.CACHE_HOST: return Maybe.Just('localhost')
+                case C.CACHE_PORT: return Maybe.Just(6399) // Nothing listens on this port
+                case CS.CACHE_CIRCUIT_FAILURE_THRESHOLD: return Maybe.Just(3)
+                case CS.CACHE_CIRCUIT_OPERATION_TIMEOUT: return Maybe.Just(500)
+                case CS.CACHE_CIRCUIT_FALLBACK_DURATION: return Maybe.Just(5)
+                case CS.CACHE_READY_TIMEOUT: return Maybe.Just(0)
+                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
+                default: return Maybe.Nothing()
+            }
+        }
+        else if (this._mode === Mode.NotReady) {
+            switch (key) {
+                case C.CACHE_NUM_CONN: return Maybe.Just(1)
+                case C.CACHE_HOST: return Maybe.Just('localhost')
+                case C.CACHE_PORT: return Maybe.Just(6399) // Nothing listens on this port
+                case CS.CACHE_READY_TIMEOUT: return Maybe.Just(100)
+                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
+                default: return Maybe.Nothing()
+            }
+        }
+        else if (this._mode === Mode.Single) {
+            switch (key) {
+                case C.CACHE_NUM_CONN: return Maybe.Just(1)
+                case C.CACHE_HOST: return Maybe.Just('localhost')
+                case C.CACHE_PORT: return Maybe.Just(6379)
+                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
+                default: return Maybe.Nothing()
+            }
+        }
+        else if (this._mode === Mode.Cluster) {
+            switch (key) {
+                case C.CACHE_NUM_CONN: return Maybe.Just(2)
+                case C.CACHE_HOST: return Maybe.Just(['127.0.0.1'])
+                case C.CACHE_PORT: return Maybe.Just([6379, 6380])
+                case SvS.SERVICE_SLUG: return Maybe.Just('TestCacheSvc')
+                default: return Maybe.Nothing()
+            }
+        }
+        return Maybe.Nothing()
+    }
+
+    public deadLetter(): Promise<void> {
+        return Promise.resolve()
+    }
+
+    public fetch(): Promise<boolean> {
+        return Promise.resolve(true)
+    }
+
+    public init(): Promise<void> {
+        return Promise.resolve()
+    }
+
+    public dispose(): Promise<void> {
+        return Promise.resolve()
+    }
+
+    public onUpdate(listener: (delta: string[]) => void) {
+        // Empty
+    }
+}
+
+
+let depContainer: DependencyContainer
+
+describe('CacheAddOn', function () {
+    // this.timeout(60000)
+
+    beforeEach(() => {
+        depContainer = new DependencyContainer()
+    })
+
+    afterEach(() => {
+        depContainer.dispose()
+    })
+
+
+    describe('init', () => {
+        let cacheAddOn: CacheAddOn
+
+        afterEach(() => {
+            return cacheAddOn.dispose()
+        })
+
+        it('should reject init if no service slug is provided', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.NoServiceSlug), depContainer)
+
+            // Act
+            let exception
+            try {
+                await cacheAddOn.init()
+            }
+            catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.exist
+            expect(exception.message).to.equal('The setting SERVICE_SLUG is required')
+            expect(cacheAddOn['_cacheProvider']).not.to.exist
+        })
+
+        it('should use local cache only if no server is provided', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.LocalCache), depContainer)
+
+            // Act
+            await cacheAddOn.init()
+
+            // Assert
+            expect(cacheAddOn['_cacheProvider']).to.exist
+            expect(cacheAddOn['_cacheProvider']['_engine']).not.to.exist
+        })
+
+        it('should use local cache only if connection count is zero', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.ZeroConnection), depContainer)
+
+            // Act
+            await cacheAddOn.init()
+
+            // Assert
+            expect(cacheAddOn['_cacheProvider']).to.exist
+            expect(cacheAddOn['_cacheProvider']['_engine']).not.to.exist
+        })
+
+        it('should use in-memory provider if configured', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Memory), depContainer)
+
+            // Act
+            await cacheAddOn.init()
+
+            // Assert
+            const cacheProvider = depContainer.resolve<ICacheProvider>(T.CACHE_PROVIDER)
+            expect(cacheProvider).to.be.instanceOf(MemoryCacheProvider)
+            expect(cacheProvider['_options'].name).to.equal('TestCacheSvc')
+        })
+
+        it('should reject init if cache engine is not supported', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.UnknownEngine), depContainer)
+
+            // Act
+            let exception
+            try {
+                await cacheAddOn.init()
+            }
+            catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.exist
+            expect(exception.message).to.equal('Unsupported cache engine "memcached"')
+            expect(cacheAddOn['_cacheProvider']).not.to.exist
+        })
+
+        it('should dispose providers already created if a named provider cannot be created', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.BadNamed), depContainer)
+            const redisDisposeSpy = chai.spy.on(RedisCacheProvider.prototype, 'dispose')
+            const memoryDisposeSpy = chai.spy.on(MemoryCacheProvider.prototype, 'dispose')
+
+            // Act
+            let exception
+            try {
+                await cacheAddOn.init()
+            }
+            catch (err) {
+                exception = err
+            }
+            finally {
+                chai.spy.restore(RedisCacheProvider.prototype, 'dispose')
+                chai.spy.restore(MemoryCacheProvider.prototype, 'dispose')
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(CriticalException)
+            expect(exception.message).to.equal('Unsupported cache engine "memcached"')
+            expect(redisDisposeSpy).to.have.been.called.once
+            expect(memoryDisposeSpy).to.have.been.called.once
+        })
+
+        it('should connect to single server', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Single), depContainer)
+
+            // Act
+            await cacheAddOn.init()
+
+            // Assert
+            const cacheProvider = depContainer.resolve<RedisCacheProvider>(T.CACHE_PROVIDER)
+            expect(cacheProvider['_options'].single).to.exist
+            expect(cacheProvider['_options'].single.host).to.equal('localhost')
+            expect(cacheProvider['_options'].single.port).to.equal(6379)
+            expect(cacheProvider['_options'].cluster).not.to.exist
+        })
+
+        it('should enable circuit breaker if any of its settings is provided', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.FailOpen), depContainer)
+
+            // Act
+            await cacheAddOn.init()
+
+            // Assert
+            const cacheProvider = depContainer.resolve<RedisCacheProvider>(T.CACHE_PROVIDER)
+            expect(cacheProvider['_options'].circuitBreaker).to.deep.equal({
+                failureThreshold: 3,
+                operationTimeout: 500,
+                fallbackDuration: 5,
+            })
+            expect(cacheProvider['_breaker']).to.exist
+        })
+
+        it('should not enable circuit breaker by default', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Sentinel), depContainer)
+
+            // Act
+            await cacheAddOn.init()
+
+            // Assert
+            const cacheProvider = depContainer.resolve<RedisCacheProvider>(T.CACHE_PROVIDER)
+            expect(cacheProvider['_options'].circuitBreaker).not.to.exist
+            expect(cacheProvider['_breaker']).not.to.exist
+        })
+
+        it('should reject init if cache service is not ready within timeout', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.NotReady), depContainer)
+
+            // Act
+            let exception
+            try {
+                await cacheAddOn.init()
+            }
+            catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.exist
+            expect(exception).to.be.instanceOf(CriticalException)
+            expect(exception.message).to.contain('is not ready')
+        })
+
+        it('should connect via sentinels if master name is provided', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Sentinel), depContainer)
+
+            // Act
+            await cacheAddOn.init()
+
+            // Assert
+            const cacheProvider = depContainer.resolve<RedisCacheProvider>(T.CACHE_PROVIDER)
+            expect(cacheProvider['_options'].sentinel).to.deep.equal({
+                masterName: 'mymaster',
+                sentinels: [
+                    { host: '127.0.0.1', port: 26379 },
+                    { host: '127.0.0.2', port: 26379 },
+                ],
+                master: {},
+            })
+            expect(cacheProvider['_options'].single).not.to.exist
+            expect(cacheProvider['_options'].cluster).not.to.exist
+        })
+
+        it('should pass credentials and TLS options to connection', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Secured), depContainer)
+            const createClient = redis.createClient
+            const clientOpts: redis.ClientOpts[] = []
+            // Records options but connects to nowhere, without resolving "redis.example.com"
+            chai.spy.on(redis, 'createClient', (opts: redis.ClientOpts) => {
+                clientOpts.push(opts)
+                const client = createClient({ host: 'localhost', port: 6399 })
+                client.on('error', () => { /* Ignore, no cache service here */ })
+                return client
+            })
+
+            // Act
+            try {
+                await cacheAddOn.init()
+            }
+            finally {
+                chai.spy.restore(redis, 'createClient')
+            }
+
+            // Assert
+            expect(clientOpts[0]).to.deep.include({
+                host: 'redis.example.com',
+                port: 6380,
+                db: 2,
+                tls: {
+                    ca: '--CA--',
+                    servername: 'redis.example.com',
+                },
+            })
+            // Password is sent with username by ACL-style AUTH instead
+            expect(clientOpts[0].password).not.to.exist
+            const cacheProvider = depContainer.resolve<RedisCacheProvider>(T.CACHE_PROVIDER)
+            expect(cacheProvider['_options'].single).to.deep.equal({
+                host: 'redis.example.com',
+                port: 6380,
+                password: 'secret',
+                username: 'app',
+                db: 2,
+                tls: {
+                    ca: '--CA--',
+                },
+            })
+        })
+
+        it('should bind named providers with their own settings', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Named), depContainer)
+
+            // Act
+            await cacheAddOn.init()
+
+            // Assert
+            const defaultProvider = depContainer.resolve<ICacheProvider>(T.CACHE_PROVIDER)
+            const sessionProvider = depContainer.resolve<ICacheProvider>(T.cacheProvider('session'))
+            const dataProvider = depContainer.resolve<ICacheProvider>(T.cacheProvider('data'))
+            expect(defaultProvider).to.be.instanceOf(RedisCacheProvider)
+            expect(defaultProvider['_options'].defaultLevel).not.to.exist
+            expect(sessionProvider).to.be.instanceOf(MemoryCacheProvider)
+            expect(sessionProvider['_options'].defaultDuration).to.equal(60)
+            expect(dataProvider).to.be.instanceOf(RedisCacheProvider)
+            expect(dataProvider['_options'].defaultLevel).to.equal(CacheLevel.BOTH)
+            expect(dataProvider['_options'].defaultDuration).to.equal(3600)
+            expect(cacheAddOn.getProvider('data').value).to.equal(dataProvider)
+            expect(cacheAddOn.getProvider('unknown').isJust).to.be.false
+        })
+
+        // it('should connect to cluster of servers', async () => {
+        //     // Arrange
+        //     cacheAddOn = new CacheAddOn(new MockConfigAddOn('cluster'), depContainer)
+
+        //     // Act
+        //     await cacheAddOn.init()
+
+        //     // Assert
+        //     const cacheProvider = depContainer.resolve<CacheProvider>(T.CACHE_PROVIDER)
+        //     expect(cacheProvider['_options'].cluster).to.exist
+        //     expect(cacheProvider['_options'].cluster.length).to.be.equal(2)
+        //     expect(cacheProvider['_options'].single).not.to.exist
+        // })
+    }) // END describe 'init'
+
+
+    describe('dispose', () => {
+        it('should call cacheProvider.dispose', async () => {
+            // Arrange
+            const cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Single), depContainer)
+
+            await cacheAddOn.init()
+            const disconnectSpy = chai.spy.on(cacheAddOn['_cacheProvider'], 'dispose')
+
+            // Act
+            await cacheAddOn.dispose()
+
+            // Assert
+            expect(disconnectSpy).to.be.spy
+            expect(disconnectSpy).to.have.been.called.once
+        })
+
+        it('should dispose all named providers', async () => {
+            // Arrange
+            const cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Named), depContainer)
+
+            await cacheAddOn.init()
+            const disposeSpies = ['session', 'data'].map(name =>
+                chai.spy.on(cacheAddOn.getProvider(name).value, 'dispose'))
+
+            // Act
+            await cacheAddOn.dispose()
+
+            // Assert
+            disposeSpies.forEach(spy => expect(spy).to.have.been.called.once)
+        })
+    }) // END describe 'dispose'
+
+
+    describe('healthCheck', () => {
+        let cacheAddOn: CacheAddOn
+
+        afterEach(() => {
+            return cacheAddOn.dispose()
+        })
+
+        it('should report healthy without remote cache service', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.LocalCache), depContainer)
+            await cacheAddOn.init()
+
+            // Act
+            const health = await cacheAddOn.healthCheck()
+
+            // Assert
+            expect(health.isHealthy).to.be.true
+            expect(health.providers['default'].nodes).to.be.empty
+        })
+
+        it('should report health of each named provider', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Named), depContainer)
+            await cacheAddOn.init()
+
+            // Act
+            const health = await cacheAddOn.healthCheck()
+
+            // Assert
+            expect(health.isHealthy).to.be.true
+            expect(health.providers).to.have.all.keys('default', 'session', 'data')
+        })
+
+        it('should report unhealthy if cache service does not reply', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.FailOpen), depContainer)
+            await cacheAddOn.init()
+
+            // Act
+            const health = await cacheAddOn.healthCheck(100)
+
+            // Assert
+            const { providers: { default: providerHealth } } = health
+            expect(health.isHealthy).to.be.false
+            expect(providerHealth.error).to.exist
+            expect(providerHealth.pingLatency).not.to.exist
+            expect(providerHealth.nodes).to.deep.equal([{ address: 'localhost:6399', isConnected: false }])
+        })
+
+        it('should report unhealthy if not initialized', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.LocalCache), depContainer)
+
+            // Act
+            const health = await cacheAddOn.healthCheck()
+
+            // Assert
+            expect(health.isHealthy).to.be.false
+            expect(health.error).to.exist
+            expect(health.providers).to.be.empty
+        })
+
+        it('should report unhealthy if initialization has failed', async () => {
+            // Arrange
+            cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.BadNamed), depContainer)
+            await cacheAddOn.init().catch(() => { /* Expected */ })
+
+            // Act
+            const health = await cacheAddOn.healthCheck()
+
+            // Assert
+            expect(health.isHealthy).to.be.false
+            expect(health.error).to.exist
+        })
+    }) // END describe 'healthCheck'
+
+    describe('deadLetter', () => {
+        it('should resolve if not initialized', async () => {
+            // Arrange
+            const cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Single), depContainer)
+
+            // Act
+            await cacheAddOn.deadLetter()
+        })
+
+        it('should call deadLetter of all providers', async () => {
+            // Arrange
+            const cacheAddOn = new CacheAddOn(new MockConfigAddOn(Mode.Named), depContainer)
+            await cacheAddOn.init()
+            const deadLetterSpies = [undefined, 'session', 'data'].map(name =>
+                chai.spy.on(cacheAddOn.getProvider(name).value, 'deadLetter'))
+
+            // Act
+            await cacheAddOn.deadLetter()
+
+            // Assert
+            deadLetterSpies.forEach(spy => expect(spy).to.have.been.called.once)
+            await cacheAddOn.dispose()
+        })
+    }) // END describe 'deadLetter'
+})
@@ -0,0 +1,124 @@
+import { expect } from 'chai'
+import { MinorException } from '@micro-fleet/common'
+
+import { JsonCodec, TypedJsonCodec, MessagePackCodec, ICacheCodec } from '../app'
+import { CodecRegistry } from '../app/CodecRegistry'
+
+
+class ReverseCodec implements ICacheCodec {
+    public readonly name = 'reverse'
+
+    public encode(value: any): string {
+        return JSON.stringify(value).split('').reverse().join('')
+    }
+
+    public decode(encoded: string): any {
+        return JSON.parse(encoded.split('').reverse().join(''))
+    }
+}
+
+describe('CacheCodec', () => {
+    describe('TypedJsonCodec', () => {
+        it('Should preserve types not supported by JSON', () => {
+            // Arrange
+            const codec = new TypedJsonCodec()
+            const value = {
+                createdAt: new Date('2020-02-20T10:20:30.456Z'),
+                lookup: new Map<string, any>([['a', 1], ['b', new Set([1, 2])]]),
+                data: Buffer.from('binary'),
+                nested: [{ at: new Date(0) }],
+                nothing: null as any,
+            }
+
+            // Act
+            const decoded = codec.decode(codec.encode(value))
+
+            // Assert
+            expect(decoded).to.deep.equal(value)
+            expect(decoded.createdAt).to.be.instanceOf(Date)
+            expect(decoded.lookup).to.be.instanceOf(Map)
+            expect(decoded.lookup.get('b')).to.be.instanceOf(Set)
+            expect(Buffer.isBuffer(decoded.data)).to.be.true
+        })
+    }) // describe 'TypedJsonCodec'
+
+    describe('MessagePackCodec', () => {
+        it('Should encode to binary and decode back', () => {
+            // Arrange
+            const codec = new MessagePackCodec()
+            const value = {
+                name: 'Gennova',
+                at: new Date('2020-02-20T10:20:30.456Z'),
+                scores: [1, 2.5, -3],
+            }
+
+            // Act
+            const encoded = codec.encode(value)
+            const decoded = codec.decode(encoded)
+
+            // Assert
+            expect(Buffer.isBuffer(encoded)).to.be.true
+            expect(decoded).to.deep.equal(value)
+            expect(decoded.at).to.be.instanceOf(Date)
+        })
+    }) // describe 'MessagePackCodec'
+
+    describe('CodecRegistry', () => {
+        it('Should save JSON-encoded values without codec name', () => {
+            // Arrange
+            const registry = new CodecRegistry()
+
+            // Act
+            const stored = registry.encode([1, 'a'])
+
+            // Assert
+            expect(stored).to.equal('[1,"a"]')
+            expect(registry.decode(stored)).to.deep.equal([1, 'a'])
+        })
+
+        it('Should decode with the recorded codec regardless of default one', () => {
+            // Arrange
+            const writer = new CodecRegistry(new MessagePackCodec())
+            const reader = new CodecRegistry(new JsonCodec())
+            const value = { at: new Date(1000) }
+
+            // Act
+            const stored = writer.encode(value)
+            const decoded = reader.decode(stored)
+
+            // Assert
+            expect(stored).to.be.a('string')
+            expect(decoded).to.deep.equal(value)
+        })
+
+        it('Should decode with per-call codec if its name is recorded', () => {
+            // Arrange
+            const codec = new ReverseCodec()
+            const registry = new CodecRegistry()
+            const stored = registry.encode({ a: 1 }, codec)
+
+            // Act
+            const decoded = registry.decode(stored, codec)
+
+            // Assert
+            expect(decoded).to.deep.equal({ a: 1 })
+        })
+
+        it('Should throw if the recorded codec is unknown', () => {
+            // Arrange
+            const stored = new CodecRegistry().encode({ a: 1 }, new ReverseCodec())
+            let exception: any
+
+            // Act
+            try {
+                new CodecRegistry().decode(stored)
+            }
+            catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(MinorException)
+        })
+    }) // describe 'CodecRegistry'
+})
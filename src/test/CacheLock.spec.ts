@@ -0,0 +1,149 @@
+import * as chai from 'chai'
+import * as spies from 'chai-spies'
+
+import { LocalLockStore, RedisLockStore, acquireLock } from '../app/CacheLock'
+
+
+chai.use(spies)
+const expect = chai.expect
+
+const LOCK_KEY = 'cache::TESTKEY::@lock'
+
+describe('CacheLock', () => {
+    describe('LocalLockStore', () => {
+        let store: LocalLockStore
+
+        beforeEach(() => {
+            store = new LocalLockStore()
+        })
+
+        it('Should not acquire a lock held by another owner', async () => {
+            // Arrange
+            await store.tryAcquire(LOCK_KEY, 'first', 1000)
+
+            // Act
+            const acquired = await store.tryAcquire(LOCK_KEY, 'second', 1000)
+
+            // Assert
+            expect(acquired).to.be.false
+        })
+
+        it('Should acquire an expired lock', async () => {
+            // Arrange
+            await store.tryAcquire(LOCK_KEY, 'first', 10)
+            await new Promise(resolve => setTimeout(resolve, 20))
+
+            // Act
+            const acquired = await store.tryAcquire(LOCK_KEY, 'second', 1000)
+
+            // Assert
+            expect(acquired).to.be.true
+        })
+
+        it('Should only release or extend if token matches', async () => {
+            // Arrange
+            await store.tryAcquire(LOCK_KEY, 'first', 1000)
+
+            // Act
+            const extendedByOther = await store.extend(LOCK_KEY, 'second', 1000)
+            const releasedByOther = await store.release(LOCK_KEY, 'second')
+            const extended = await store.extend(LOCK_KEY, 'first', 1000)
+            const released = await store.release(LOCK_KEY, 'first')
+
+            // Assert
+            expect(extendedByOther).to.be.false
+            expect(releasedByOther).to.be.false
+            expect(extended).to.be.true
+            expect(released).to.be.true
+            expect(await store.tryAcquire(LOCK_KEY, 'second', 1000)).to.be.true
+        })
+    }) // describe 'LocalLockStore'
+
+    describe('RedisLockStore', () => {
+        it('Should set lock key with NX and PX', async () => {
+            // Arrange
+            const engine = { setAsync: () => Promise.resolve('OK') }
+            const setSpy = chai.spy.on(engine, 'setAsync')
+            const store = new RedisLockStore(() => Promise.resolve(engine))
+
+            // Act
+            const acquired = await store.tryAcquire(LOCK_KEY, 'token', 1000)
+
+            // Assert
+            expect(acquired).to.be.true
+            expect(setSpy).to.have.been.called.with(LOCK_KEY, 'token', 'PX', 1000, 'NX')
+        })
+
+        it('Should release and extend with scripts checking token', async () => {
+            // Arrange
+            const engine = { evalAsync: () => Promise.resolve(0) }
+            const evalSpy = chai.spy.on(engine, 'evalAsync')
+            const store = new RedisLockStore(() => Promise.resolve(engine))
+
+            // Act
+            const released = await store.release(LOCK_KEY, 'token')
+            const extended = await store.extend(LOCK_KEY, 'token', 2000)
+
+            // Assert
+            expect(released).to.be.false
+            expect(extended).to.be.false
+            expect(evalSpy).to.have.been.called.twice
+            expect(evalSpy).to.have.been.called.with(1, LOCK_KEY, 'token')
+            expect(evalSpy).to.have.been.called.with(1, LOCK_KEY, 'token', 2000)
+        })
+    }) // describe 'RedisLockStore'
+
+    describe('acquireLock', () => {
+        it('Should return Nothing if lock is not acquired without retry', async () => {
+            // Arrange
+            const store = new LocalLockStore()
+            await store.tryAcquire(LOCK_KEY, 'other', 1000)
+
+            // Act
+            const lock = await acquireLock(store, LOCK_KEY, { ttl: 1000 })
+
+            // Assert
+            expect(lock.isJust).to.be.false
+        })
+
+        it('Should retry with increasing delay', async () => {
+            // Arrange
+            const store = new LocalLockStore()
+            const trySpy = chai.spy.on(store, 'tryAcquire')
+            await store.tryAcquire(LOCK_KEY, 'other', 50)
+            const start = Date.now()
+
+            // Act
+            const lock = await acquireLock(store, LOCK_KEY, {
+                ttl: 1000,
+                retryCount: 5,
+                retryDelay: 20,
+                retryBackoff: 2,
+            })
+
+            // Assert
+            // Attempts at about 0ms, 20ms, 60ms
+            expect(lock.isJust).to.be.true
+            expect(trySpy).to.have.been.called.exactly(4)
+            expect(Date.now() - start).to.be.at.least(50)
+        })
+
+        it('Should release and extend acquired lock', async () => {
+            // Arrange
+            const store = new LocalLockStore()
+            const lock = (await acquireLock(store, LOCK_KEY, { ttl: 1000 })).value
+
+            // Act
+            const extended = await lock.extend(2000)
+            const released = await lock.release()
+            const releasedAgain = await lock.release()
+
+            // Assert
+            expect(lock.key).to.equal(LOCK_KEY)
+            expect(lock.token).to.be.a('string').that.is.not.empty
+            expect(extended).to.be.true
+            expect(released).to.be.true
+            expect(releasedAgain).to.be.false
+        })
+    }) // describe 'acquireLock'
+})
@@ -0,0 +1,99 @@
+import { expect } from 'chai'
+
+import { CacheStatsCollector, formatPrometheusStats } from '../app'
+
+
+describe('CacheStatsCollector', () => {
+    let collector: CacheStatsCollector
+
+    beforeEach(() => {
+        collector = new CacheStatsCollector()
+    })
+
+    it('Should increase counters', () => {
+        // Act
+        collector.increase('localHits')
+        collector.increase('misses', 3)
+
+        // Assert
+        const stats = collector.snapshot()
+        expect(stats.localHits).to.equal(1)
+        expect(stats.misses).to.equal(3)
+        expect(stats.remoteHits).to.equal(0)
+    })
+
+    it('Should count latencies in cumulative buckets', () => {
+        // Act
+        collector.observe('getPrimitive', 0.5)
+        collector.observe('getPrimitive', 7)
+        collector.observe('getPrimitive', 5000)
+
+        // Assert
+        const histogram = collector.snapshot().latencies['getPrimitive']
+        const countOf = (bound: number) => histogram.counts[histogram.buckets.indexOf(bound)]
+        expect(countOf(1)).to.equal(1)
+        expect(countOf(10)).to.equal(2)
+        expect(countOf(2500)).to.equal(2)
+        expect(histogram.count).to.equal(3)
+        expect(histogram.sum).to.equal(5007.5)
+    })
+
+    it('Should not change snapshot when collecting more', () => {
+        // Arrange
+        collector.observe('getPrimitive', 1)
+        const snapshot = collector.snapshot()
+
+        // Act
+        collector.increase('sets')
+        collector.observe('getPrimitive', 1)
+
+        // Assert
+        expect(snapshot.sets).to.equal(0)
+        expect(snapshot.latencies['getPrimitive'].count).to.equal(1)
+    })
+
+    it('Should clear all statistics on reset', () => {
+        // Arrange
+        collector.increase('errors')
+        collector.observe('delete', 1)
+
+        // Act
+        collector.reset()
+
+        // Assert
+        const stats = collector.snapshot()
+        expect(stats.errors).to.equal(0)
+        expect(stats.latencies).to.be.empty
+    })
+}) // describe 'CacheStatsCollector'
+
+describe('formatPrometheusStats', () => {
+    it('Should render counters and histograms with service label', () => {
+        // Arrange
+        const collector = new CacheStatsCollector()
+        collector.increase('remoteHits', 2)
+        collector.observe('getObject', 3)
+
+        // Act
+        const text = formatPrometheusStats(collector.snapshot(), 'order-svc')
+
+        // Assert
+        const lines = text.split('\n')
+        expect(lines).to.include('# TYPE mcft_cache_remote_hits_total counter')
+        expect(lines).to.include('mcft_cache_remote_hits_total{service="order-svc"} 2')
+        expect(lines).to.include('# TYPE mcft_cache_operation_duration_seconds histogram')
+        expect(lines).to.include('mcft_cache_operation_duration_seconds_bucket{service="order-svc",operation="getObject",le="0.0025"} 0')
+        expect(lines).to.include('mcft_cache_operation_duration_seconds_bucket{service="order-svc",operation="getObject",le="0.005"} 1')
+        expect(lines).to.include('mcft_cache_operation_duration_seconds_bucket{service="order-svc",operation="getObject",le="+Inf"} 1')
+        expect(lines).to.include('mcft_cache_operation_duration_seconds_sum{service="order-svc",operation="getObject"} 0.003')
+        expect(text.endsWith('\n')).to.be.true
+    })
+
+    it('Should escape label values', () => {
+        // Act
+        const text = formatPrometheusStats(new CacheStatsCollector().snapshot(), 'a"b\\c')
+
+        // Assert
+        expect(text).to.include('mcft_cache_errors_total{service="a\\"b\\\\c"} 0')
+    })
+}) // describe 'formatPrometheusStats'
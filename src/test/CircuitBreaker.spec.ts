@@ -0,0 +1,189 @@
+import { expect } from 'chai'
+import { MinorException } from '@micro-fleet/common'
+
+import { CircuitState } from '../app'
+import { CircuitBreaker } from '../app/CircuitBreaker'
+
+
+const RESET_TIMEOUT = 50
+
+const fail = () => Promise.reject(new Error('Connection is closed'))
+const succeed = () => Promise.resolve('remote')
+const fallback = () => 'fallback'
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+
+describe('CircuitBreaker', () => {
+    let breaker: CircuitBreaker
+    let changes: [CircuitState, Error][]
+
+    beforeEach(() => {
+        changes = []
+        breaker = new CircuitBreaker(
+            { failureThreshold: 2, resetTimeout: RESET_TIMEOUT, operationTimeout: 30 },
+            (state, error) => changes.push([state, error]),
+            (error) => error.message !== 'WRONGTYPE',
+        )
+    })
+
+    it('Should return result of function if it succeeds', async () => {
+        // Act
+        const result = await breaker.execute(succeed, fallback)
+
+        // Assert
+        expect(result).to.equal('remote')
+        expect(breaker.state).to.equal(CircuitState.CLOSED)
+    })
+
+    it('Should return fallback result and pass the failure if function fails', async () => {
+        // Arrange
+        let failure: Error
+
+        // Act
+        const result = await breaker.execute(fail, (error) => {
+            failure = error
+            return fallback()
+        })
+
+        // Assert
+        expect(result).to.equal('fallback')
+        expect(failure.message).to.equal('Connection is closed')
+        expect(breaker.state).to.equal(CircuitState.CLOSED)
+    })
+
+    it('Should open circuit after consecutive failures reach threshold', async () => {
+        // Arrange
+        let calls = 0
+        const countedFail = () => {
+            ++calls
+            return fail()
+        }
+
+        // Act
+        await breaker.execute(countedFail, fallback)
+        await breaker.execute(countedFail, fallback)
+        const result = await breaker.execute(countedFail, fallback)
+
+        // Assert
+        expect(result).to.equal('fallback')
+        expect(calls).to.equal(2)
+        expect(breaker.state).to.equal(CircuitState.OPEN)
+        expect(changes).to.have.lengthOf(1)
+        expect(changes[0][0]).to.equal(CircuitState.OPEN)
+        expect(changes[0][1].message).to.equal('Connection is closed')
+    })
+
+    it('Should reset failure count after a success', async () => {
+        // Act
+        await breaker.execute(fail, fallback)
+        await breaker.execute(succeed, fallback)
+        await breaker.execute(fail, fallback)
+
+        // Assert
+        expect(breaker.state).to.equal(CircuitState.CLOSED)
+    })
+
+    it('Should count a function taking longer than operation timeout as failure', async () => {
+        // Arrange
+        let failure: Error
+
+        // Act
+        const result = await breaker.execute(
+            () => delay(100).then(succeed),
+            (error) => {
+                failure = error
+                return fallback()
+            },
+        )
+
+        // Assert
+        expect(result).to.equal('fallback')
+        expect(failure).to.be.instanceOf(MinorException)
+    })
+
+    it('Should throw errors which are not failures of the service', async () => {
+        // Arrange
+        let exception: Error
+
+        // Act
+        try {
+            await breaker.execute(() => Promise.reject(new Error('WRONGTYPE')), fallback)
+            await breaker.execute(() => Promise.reject(new Error('WRONGTYPE')), fallback)
+        }
+        catch (err) {
+            exception = err
+        }
+
+        // Assert
+        expect(exception.message).to.equal('WRONGTYPE')
+        expect(breaker.state).to.equal(CircuitState.CLOSED)
+    })
+
+    it('Should become half-open after reset timeout', async () => {
+        // Arrange
+        await breaker.execute(fail, fallback)
+        await breaker.execute(fail, fallback)
+
+        // Act
+        await delay(RESET_TIMEOUT + 10)
+
+        // Assert
+        expect(breaker.state).to.equal(CircuitState.HALF_OPEN)
+        expect(changes.map(([state]) => state)).to.deep.equal([CircuitState.OPEN, CircuitState.HALF_OPEN])
+    })
+
+    it('Should allow only one probe at a time when half-open', async () => {
+        // Arrange
+        await breaker.execute(fail, fallback)
+        await breaker.execute(fail, fallback)
+        await delay(RESET_TIMEOUT + 10)
+        let calls = 0
+        const slowSucceed = async () => {
+            ++calls
+            await delay(10)
+            return succeed()
+        }
+
+        // Act
+        const results = await Promise.all([
+            breaker.execute(slowSucceed, fallback),
+            breaker.execute(slowSucceed, fallback),
+        ])
+
+        // Assert
+        expect(calls).to.equal(1)
+        expect(results).to.deep.equal(['remote', 'fallback'])
+    })
+
+    it('Should close circuit if the probe succeeds', async () => {
+        // Arrange
+        await breaker.execute(fail, fallback)
+        await breaker.execute(fail, fallback)
+        await delay(RESET_TIMEOUT + 10)
+
+        // Act
+        await breaker.execute(succeed, fallback)
+
+        // Assert
+        expect(breaker.state).to.equal(CircuitState.CLOSED)
+        expect(changes.map(([state]) => state)).to.deep.equal([
+            CircuitState.OPEN, CircuitState.HALF_OPEN, CircuitState.CLOSED,
+        ])
+    })
+
+    it('Should open circuit again if the probe fails', async () => {
+        // Arrange
+        await breaker.execute(fail, fallback)
+        await breaker.execute(fail, fallback)
+        await delay(RESET_TIMEOUT + 10)
+
+        // Act
+        await breaker.execute(fail, fallback)
+
+        // Assert
+        expect(breaker.state).to.equal(CircuitState.OPEN)
+        expect(changes.map(([state]) => state)).to.deep.equal([
+            CircuitState.OPEN, CircuitState.HALF_OPEN, CircuitState.OPEN,
+        ])
+    })
+}) // describe 'CircuitBreaker'
@@ -0,0 +1,150 @@
+import { expect } from 'chai'
+
+import { LocalStoreTracker, EvictionPolicy, estimateSize } from '../app/LocalStoreTracker'
+
+
+describe('LocalStoreTracker', () => {
+
+    describe('track', () => {
+        it('Should not evict anything if no limit is set', () => {
+            // Arrange
+            const tracker = new LocalStoreTracker({})
+
+            // Act
+            const victims = [1, 2, 3, 4, 5]
+                .map(i => tracker.track(`KEY-${i}`, `VAL-${i}`))
+                .reduce((prev, cur) => prev.concat(cur), [])
+
+            // Assert
+            expect(victims).to.be.empty
+            expect(tracker.count).to.equal(5)
+        })
+
+        it('Should evict least recently used entries when exceeding max entries', () => {
+            // Arrange
+            const tracker = new LocalStoreTracker({
+                maxEntries: 2,
+                eviction: EvictionPolicy.LRU,
+            })
+            tracker.track('ONE', 1)
+            tracker.track('TWO', 2)
+            tracker.touch('ONE')
+
+            // Act
+            const victims = tracker.track('THREE', 3)
+
+            // Assert
+            expect(victims).to.deep.equal(['TWO'])
+            expect(tracker.count).to.equal(2)
+        })
+
+        it('Should evict least frequently used entries when exceeding max entries', () => {
+            // Arrange
+            const tracker = new LocalStoreTracker({
+                maxEntries: 2,
+                eviction: EvictionPolicy.LFU,
+            })
+            tracker.track('ONE', 1)
+            tracker.track('TWO', 2)
+            tracker.touch('ONE')
+            tracker.touch('ONE')
+            tracker.touch('TWO')
+
+            // Act
+            const victims = tracker.track('THREE', 3)
+
+            // Assert
+            expect(victims).to.deep.equal(['TWO'])
+        })
+
+        it('Should evict least recently used entries among least frequently used ones', () => {
+            // Arrange
+            const tracker = new LocalStoreTracker({
+                maxEntries: 4,
+                eviction: EvictionPolicy.LFU,
+            })
+            tracker.track('ONE', 1)
+            tracker.track('TWO', 2)
+            tracker.track('THREE', 3)
+            tracker.track('FOUR', 4)
+            tracker.touch('TWO')
+            tracker.touch('ONE')
+            tracker.touch('FOUR')
+            tracker.touch('FOUR')
+            tracker.track('TWO', 22) // Updated, keeps its frequency
+            tracker.untrack('THREE')
+            tracker.track('FIVE', 5)
+            tracker.touch('FIVE')
+
+            // Act
+            const victims = [
+                ...tracker.track('SIX', 6),
+                ...tracker.track('SEVEN', 7),
+            ]
+
+            // Assert
+            expect(victims).to.deep.equal(['ONE', 'SIX'])
+            expect(tracker.count).to.equal(4)
+        })
+
+        it('Should evict entries when exceeding max bytes', () => {
+            // Arrange
+            const value = 'abcde' // 10 bytes
+            const tracker = new LocalStoreTracker({
+                maxBytes: estimateSize(value) * 2,
+            })
+            tracker.track('ONE', value)
+            tracker.track('TWO', value)
+
+            // Act
+            const victims = tracker.track('THREE', value)
+
+            // Assert
+            expect(victims).to.deep.equal(['ONE'])
+            expect(tracker.totalBytes).to.equal(estimateSize(value) * 2)
+        })
+
+        it('Should evict the new entry itself if it alone exceeds max bytes', () => {
+            // Arrange
+            const tracker = new LocalStoreTracker({
+                maxBytes: 4,
+            })
+
+            // Act
+            const victims = tracker.track('BIG', 'a big string')
+
+            // Assert
+            expect(victims).to.deep.equal(['BIG'])
+            expect(tracker.count).to.equal(0)
+            expect(tracker.totalBytes).to.equal(0)
+        })
+
+        it('Should update size when an entry is overwritten', () => {
+            // Arrange
+            const tracker = new LocalStoreTracker({})
+            tracker.track('ONE', 'a')
+
+            // Act
+            tracker.track('ONE', 'abc')
+
+            // Assert
+            expect(tracker.count).to.equal(1)
+            expect(tracker.totalBytes).to.equal(estimateSize('abc'))
+        })
+    }) // describe 'track'
+
+    describe('untrack', () => {
+        it('Should release size of removed entry', () => {
+            // Arrange
+            const tracker = new LocalStoreTracker({})
+            tracker.track('ONE', { name: 'Gennova' })
+
+            // Act
+            tracker.untrack('ONE')
+
+            // Assert
+            expect(tracker.count).to.equal(0)
+            expect(tracker.totalBytes).to.equal(0)
+        })
+    }) // describe 'untrack'
+})
@@ -0,0 +1,46 @@
+import { expect } from 'chai'
+
+import { LocalTagIndex } from '../app/LocalTagIndex'
+
+
+describe('LocalTagIndex', () => {
+    let index: LocalTagIndex
+
+    beforeEach(() => {
+        index = new LocalTagIndex()
+    })
+
+    it('Should return all keys associated with a tag', () => {
+        // Arrange
+        index.add('KEY_1', ['TAG_A', 'TAG_B'])
+        index.add('KEY_2', ['TAG_A'])
+
+        // Act
+        const keys = index.take('TAG_A')
+
+        // Assert
+        expect(keys).to.have.members(['KEY_1', 'KEY_2'])
+        expect(index.take('TAG_A')).to.be.empty
+        expect(index.take('TAG_B')).to.deep.equal(['KEY_1'])
+    })
+
+    it('Should not return removed keys', () => {
+        // Arrange
+        index.add('KEY_1', ['TAG_A'])
+        index.add('KEY_2', ['TAG_A'])
+
+        // Act
+        index.remove('KEY_1')
+
+        // Assert
+        expect(index.take('TAG_A')).to.deep.equal(['KEY_2'])
+    })
+
+    it('Should return nothing for unknown tag', () => {
+        // Act
+        const keys = index.take('TAG_A')
+
+        // Assert
+        expect(keys).to.be.empty
+    })
+}) // describe 'LocalTagIndex'
@@ -0,0 +1,716 @@
+import { expect } from 'chai'
+import { Maybe, InvalidArgumentException, MinorException, PrimitiveType } from '@micro-fleet/common'
+
+import { MemoryCacheProvider, CacheLevel, CacheValueType, CacheObjectLayout,
+    TypedJsonCodec, MessagePackCodec, CacheEvent, CacheEventArgs } from '../app'
+
+
+const FIRST_CACHE_NAME = 'firstcache',
+    SECOND_CACHE_NAME = 'secondcache',
+    SUFFIX = '::unittest',
+    KEY = 'TESTKEY' + SUFFIX,
+    NON_EXIST_KEY = 'BLANK'
+
+let cache: MemoryCacheProvider
+
+// tslint:disable: no-floating-promises
+
+describe('MemoryCacheProvider', function () {
+    this.timeout(5000)
+
+    beforeEach(() => {
+        cache = new MemoryCacheProvider({
+            name: FIRST_CACHE_NAME,
+        })
+    })
+
+    afterEach(async () => {
+        await cache.dispose()
+        cache = null
+    })
+
+    describe('setPrimitive', () => {
+        it('Should not allow null or undefined value', async () => {
+            // Arrange
+            const value: any = null
+            let exception: any
+
+            // Act
+            try {
+                await cache.setPrimitive(KEY, value)
+            } catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(InvalidArgumentException)
+        })
+
+        it('Should save a value regardless of cache level', async () => {
+            // Arrange
+            const value = 'saved somewhere'
+
+            // Act
+            await cache.setPrimitive(KEY, value, { level: CacheLevel.REMOTE })
+
+            // Assert
+            const refetch = await cache.getPrimitive(KEY, { forceRemote: true })
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.equal(value)
+        })
+
+        it('Should save a value then expire', (done) => {
+            // Arrange
+            const value = 'a short-lived string',
+                SECONDS = 1
+
+            // Act
+            cache.setPrimitive(KEY, value, { duration: SECONDS })
+                .then(() => {
+                    setTimeout(async () => {
+                        // Assert
+                        const refetch = await cache.getPrimitive(KEY)
+                        expect(refetch.isJust).to.be.false
+                        done()
+                    }, 1100) // Wait until key expires
+                })
+        })
+
+        it('Should save a value with global option', async () => {
+            // Arrange
+            const value = 'saved globally'
+            const anotherCache = new MemoryCacheProvider({
+                name: SECOND_CACHE_NAME,
+            })
+
+            // Act
+            await anotherCache.setPrimitive(KEY, value, { isGlobal: true })
+
+            // Assert
+            const local = await anotherCache.getPrimitive(KEY)
+            const global = await anotherCache.getPrimitive(KEY, { isGlobal: true })
+            expect(local.isJust).to.be.false
+            expect(global.isJust).to.be.true
+            expect(global.value).to.equal(value)
+        })
+    }) // describe 'setPrimitive'
+
+
+    describe('getPrimitive', () => {
+        it('Should get number value as string if no parsing', async () => {
+            // Arrange
+            const value = 123
+            await cache.setPrimitive(KEY, value)
+
+            // Act
+            const refetch: Maybe<PrimitiveType> = await cache.getPrimitive(KEY, {
+                parseType: false,
+            })
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.equal(String(value))
+        })
+
+        it('Should get values of their original type if parsing is enabled', async () => {
+            // Arrange
+            await cache.setPrimitive('NUM', 123)
+            await cache.setPrimitive('BOOL', false)
+            await cache.setPrimitive('STR', 'a string')
+
+            // Act
+            const num = await cache.getPrimitive('NUM')
+            const bool = await cache.getPrimitive('BOOL')
+            const str = await cache.getPrimitive('STR')
+
+            // Assert
+            expect(num.value).to.equal(123)
+            expect(bool.value).to.equal(false)
+            expect(str.value).to.equal('a string')
+        })
+
+        it('Should return empty Maybe if not found', async () => {
+            // Act
+            const refetch = await cache.getPrimitive(NON_EXIST_KEY)
+
+            // Assert
+            expect(refetch.isJust).to.be.false
+        })
+
+        it('Should reject if the key holds an object in hash layout', async () => {
+            // Arrange
+            await cache.setObject(KEY, { name: 'Gennova' }, { objectLayout: CacheObjectLayout.HASH })
+            let exception: any
+
+            // Act
+            try {
+                await cache.getPrimitive(KEY)
+            } catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(MinorException)
+        })
+    }) // describe 'getPrimitive'
+
+
+    describe('getArray', () => {
+        it('Should get an object array', async () => {
+            // Arrange
+            const arr = [
+                {
+                    name: 'Local Gennova',
+                    age: 55,
+                    alive: true,
+                },
+                {
+                    address: 'A remote galaxy',
+                    since: 2017,
+                },
+            ]
+            await cache.setArray(KEY, arr)
+
+            // Act
+            const refetch = await cache.getArray(KEY)
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.deep.equal(arr)
+        })
+
+        it('Should return empty Maybe if not found', async () => {
+            // Act
+            const refetch = await cache.getArray(NON_EXIST_KEY)
+
+            // Assert
+            expect(refetch.isJust).to.be.false
+        })
+    }) // describe 'getArray'
+
+
+    describe('getObject', () => {
+        it('Should get object with all string properties if saved in hash layout', async () => {
+            // Arrange
+            const obj = {
+                    name: 'Local Gennova',
+                    age: 55,
+                    alive: true,
+                }
+            await cache.setObject(KEY, obj, { objectLayout: CacheObjectLayout.HASH })
+
+            // Act
+            const refetch = await cache.getObject(KEY, { parseType: false })
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.deep.equal({
+                name: 'Local Gennova',
+                age: '55',
+                alive: 'true',
+            })
+        })
+
+        it('Should get object with properties of their original type', async () => {
+            // Arrange
+            const obj = {
+                    name: 'Local Gennova',
+                    age: 55,
+                    alive: true,
+                }
+            await cache.setObject(KEY, obj)
+
+            // Act
+            const refetch = await cache.getObject(KEY)
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.deep.equal(obj)
+            expect(refetch.value).not.to.equal(obj)
+        })
+
+        it('Should get nested object with arrays and null values', async () => {
+            // Arrange
+            const obj = {
+                    name: 'Gennova',
+                    address: {
+                        city: 'Saigon',
+                        geo: [10.8, 106.6],
+                    },
+                    tags: ['a', { b: 1 }],
+                    deleted: null as any,
+                }
+            await cache.setObject(KEY, obj)
+
+            // Act
+            const refetch = await cache.getObject(KEY)
+
+            // Assert
+            expect(refetch.value).to.deep.equal(obj)
+        })
+
+        it('Should reject if the key holds a primitive', async () => {
+            // Arrange
+            await cache.setPrimitive(KEY, 'not an object')
+
+            // Act
+            const err = await cache.getObject(KEY).catch(e => e)
+
+            // Assert
+            expect(err).to.be.instanceOf(MinorException)
+        })
+
+        it('Should return empty Maybe if not found', async () => {
+            // Act
+            const refetch = await cache.getObject(NON_EXIST_KEY)
+
+            // Assert
+            expect(refetch.isJust).to.be.false
+        })
+    }) // describe 'getObject'
+
+
+    describe('delete', () => {
+        it('Should delete an exact key', async () => {
+            // Arrange
+            await cache.setPrimitive(KEY, 'to be deleted')
+
+            // Act
+            await cache.delete(KEY)
+
+            // Assert
+            const refetch = await cache.getPrimitive(KEY)
+            expect(refetch.isJust).to.be.false
+        })
+
+        it('Should delete keys matching pattern', async () => {
+            // Arrange
+            const MOCK_COUNT = 10
+            for (let i = 0; i < MOCK_COUNT; ++i) {
+                await cache.setPrimitive(`DEL-${i}${SUFFIX}`, `VAL-${i}`)
+                await cache.setPrimitive(`KEEP-${i}`, `VAL-${i}`)
+            }
+
+            // Act
+            await cache.delete(`*${SUFFIX}`, { isPattern: true })
+
+            // Assert
+            for (let i = 0; i < MOCK_COUNT; ++i) {
+                expect((await cache.getPrimitive(`DEL-${i}${SUFFIX}`)).isJust).to.be.false
+                expect((await cache.getPrimitive(`KEEP-${i}`)).isJust).to.be.true
+            }
+        })
+    }) // describe 'delete'
+
+    describe('codec', () => {
+        it('Should use codec from constructor options', async () => {
+            // Arrange
+            const testCache = new MemoryCacheProvider({
+                name: FIRST_CACHE_NAME,
+                codec: new TypedJsonCodec(),
+            })
+            const arr = [new Date(1000), new Map([['a', 1]])]
+
+            // Act
+            await testCache.setArray(KEY, arr)
+            const refetch = await testCache.getArray(KEY)
+
+            // Assert
+            expect(refetch.value).to.deep.equal(arr)
+        })
+
+        it('Should decode values saved with per-call codec without specifying it again', async () => {
+            // Arrange
+            const obj = { at: new Date(1000), nested: { list: [1, 2] } }
+            await cache.setObject(KEY, obj, { codec: new MessagePackCodec() })
+
+            // Act
+            const refetch = await cache.getObject(KEY)
+
+            // Assert
+            expect(refetch.value).to.deep.equal(obj)
+        })
+    }) // describe 'codec'
+
+    describe('batch operations', () => {
+        it('Should set and get many values of different types', async () => {
+            // Arrange
+            const OBJ = { name: 'Gennova', age: 55 }
+
+            // Act
+            await cache.setMany({
+                NUM: 123,
+                ARR: [1, 2],
+                OBJ,
+            })
+            const primitives = await cache.getManyPrimitives(['NUM', NON_EXIST_KEY, 'ARR'])
+            const objects = await cache.getManyObjects(['OBJ', NON_EXIST_KEY])
+
+            // Assert
+            expect(primitives.map(p => p.isJust)).to.deep.equal([true, false, true])
+            expect(primitives[0].value).to.equal(123)
+            expect(primitives[2].value).to.deep.equal([1, 2])
+            expect(objects[0].value).to.deep.equal(OBJ)
+            expect(objects[1].isJust).to.be.false
+        })
+
+        it('Should delete many keys', async () => {
+            // Arrange
+            await cache.setMany({ ONE: 1, TWO: 2, THREE: 3 })
+
+            // Act
+            await cache.deleteMany(['ONE', 'TWO'])
+
+            // Assert
+            const results = await cache.getManyPrimitives(['ONE', 'TWO', 'THREE'])
+            expect(results.map(r => r.isJust)).to.deep.equal([false, false, true])
+        })
+    }) // describe 'batch operations'
+
+    describe('getOrSet', () => {
+        it('Should return cached value without invoking loader', async () => {
+            // Arrange
+            await cache.setPrimitive(KEY, 'cached')
+            let calls = 0
+
+            // Act
+            const value = await cache.getOrSet(KEY, async () => {
+                ++calls
+                return 'loaded'
+            })
+
+            // Assert
+            expect(value).to.equal('cached')
+            expect(calls).to.equal(0)
+        })
+
+        it('Should invoke loader once for concurrent misses and save the result', async () => {
+            // Arrange
+            let calls = 0
+            const loader = async () => {
+                ++calls
+                await new Promise(resolve => setTimeout(resolve, 10))
+                return 123
+            }
+
+            // Act
+            const values = await Promise.all([
+                cache.getOrSet(KEY, loader),
+                cache.getOrSet(KEY, loader),
+                cache.getOrSet(KEY, loader),
+            ])
+
+            // Assert
+            expect(calls).to.equal(1)
+            expect(values).to.deep.equal([123, 123, 123])
+            const refetch = await cache.getPrimitive(KEY)
+            expect(refetch.value).to.equal(123)
+        })
+
+        it('Should store value according to value type', async () => {
+            // Arrange
+            const OBJ = { name: 'Gennova', age: 55 }
+
+            // Act
+            const value = await cache.getOrSet(KEY, async () => OBJ, { valueType: CacheValueType.OBJECT })
+
+            // Assert
+            expect(value).to.deep.equal(OBJ)
+            const refetch = await cache.getObject(KEY)
+            expect(refetch.value).to.deep.equal(OBJ)
+        })
+
+        it('Should not cache null or undefined result', async () => {
+            // Act
+            const value = await cache.getOrSet(KEY, async () => null)
+
+            // Assert
+            expect(value).to.be.null
+            const refetch = await cache.getPrimitive(KEY)
+            expect(refetch.isJust).to.be.false
+        })
+
+        it('Should reject and cache nothing if loader fails', async () => {
+            // Arrange
+            const ERROR = new Error('Failed')
+
+            // Act
+            const err = await cache.getOrSet(KEY, () => Promise.reject(ERROR)).catch(e => e)
+
+            // Assert
+            expect(err).to.equal(ERROR)
+            const refetch = await cache.getPrimitive(KEY)
+            expect(refetch.isJust).to.be.false
+        })
+    }) // describe 'getOrSet'
+
+    describe('acquireLock', () => {
+        it('Should not acquire a lock held by another owner', async () => {
+            // Arrange
+            const first = await cache.acquireLock(KEY, { ttl: 1000 })
+
+            // Act
+            const second = await cache.acquireLock(KEY, { ttl: 1000 })
+
+            // Assert
+            expect(first.isJust).to.be.true
+            expect(first.value.key).to.equal(`${FIRST_CACHE_NAME}::${KEY}::@lock`)
+            expect(second.isJust).to.be.false
+        })
+
+        it('Should acquire after the lock is released', async () => {
+            // Arrange
+            const first = (await cache.acquireLock(KEY, { ttl: 1000 })).value
+            setTimeout(() => first.release(), 20)
+
+            // Act
+            const second = await cache.acquireLock(KEY, { ttl: 1000, retryCount: 3, retryDelay: 10 })
+
+            // Assert
+            expect(second.isJust).to.be.true
+        })
+
+        it('Should not share lock between cache names', async () => {
+            // Arrange
+            const secondCache = new MemoryCacheProvider({
+                name: SECOND_CACHE_NAME,
+            })
+            await cache.acquireLock(KEY, { ttl: 1000 })
+
+            // Act
+            const lock = await secondCache.acquireLock(KEY, { ttl: 1000 })
+
+            // Assert
+            expect(lock.isJust).to.be.true
+            await secondCache.dispose()
+        })
+    }) // describe 'acquireLock'
+
+    describe('invalidateTags', () => {
+        it('Should delete all values having any of the tags', async () => {
+            // Arrange
+            await cache.setPrimitive(KEY + '1', 'a', { tags: ['user:1'] })
+            await cache.setObject(KEY + '2', { name: 'b' }, { tags: ['user:2'] })
+            await cache.setArray(KEY + '3', [1, 2], { tags: ['user:1', 'list'] })
+            await cache.setPrimitive(KEY + '4', 'd')
+
+            // Act
+            await cache.invalidateTags(['user:1', 'user:2'])
+
+            // Assert
+            expect((await cache.getPrimitive(KEY + '1')).isJust).to.be.false
+            expect((await cache.getObject(KEY + '2')).isJust).to.be.false
+            expect((await cache.getArray(KEY + '3')).isJust).to.be.false
+            expect((await cache.getPrimitive(KEY + '4')).value).to.equal('d')
+        })
+
+        it('Should not delete a value which has been deleted and saved again without the tag', async () => {
+            // Arrange
+            await cache.setPrimitive(KEY, 'a', { tags: ['user:1'] })
+            await cache.delete(KEY)
+            await cache.setPrimitive(KEY, 'b')
+
+            // Act
+            await cache.invalidateTags(['user:1'])
+
+            // Assert
+            expect((await cache.getPrimitive(KEY)).value).to.equal('b')
+        })
+
+        it('Should separate global tags from tags of cache name', async () => {
+            // Arrange
+            await cache.setPrimitive(KEY + '1', 'a', { tags: ['user:1'] })
+            await cache.setPrimitive(KEY + '2', 'b', { tags: ['user:1'], isGlobal: true })
+
+            // Act
+            await cache.invalidateTags(['user:1'], { isGlobal: true })
+
+            // Assert
+            expect((await cache.getPrimitive(KEY + '1')).value).to.equal('a')
+            expect((await cache.getPrimitive(KEY + '2', { isGlobal: true })).isJust).to.be.false
+        })
+    }) // describe 'invalidateTags'
+
+    describe('increment', () => {
+        it('Should count integer and float steps starting from zero', async () => {
+            // Act
+            await cache.increment(KEY)
+            await cache.increment(KEY, 2)
+            const value = await cache.decrement(KEY, 0.5)
+
+            // Assert
+            expect(value).to.equal(2.5)
+            expect((await cache.getPrimitive(KEY)).value).to.equal(2.5)
+        })
+
+        it('Should separate global counters from counters of cache name', async () => {
+            // Act
+            await cache.increment(KEY, 1, { isGlobal: true })
+            const value = await cache.increment(KEY)
+
+            // Assert
+            expect(value).to.equal(1)
+            expect((await cache.getPrimitive(KEY, { isGlobal: true })).value).to.equal(1)
+        })
+
+        it('Should set expiration only when the counter is created', async () => {
+            // Act
+            await cache.increment(KEY, 1, { duration: 0.1 })
+            await new Promise(resolve => setTimeout(resolve, 60))
+            await cache.increment(KEY, 1, { duration: 0.1 })
+            await new Promise(resolve => setTimeout(resolve, 60))
+
+            // Assert
+            expect((await cache.getPrimitive(KEY)).isJust).to.be.false
+        })
+
+        it('Should reject if the key holds a value which is not a number', async () => {
+            // Arrange
+            await cache.setPrimitive(KEY, 'abc')
+            let exception: any
+
+            // Act
+            try {
+                await cache.increment(KEY)
+            } catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(MinorException)
+        })
+
+        it('Should reject if step is not a finite number', async () => {
+            // Arrange
+            let exception: any
+
+            // Act
+            const promise = cache.increment(KEY, NaN)
+            try {
+                await promise
+            } catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(InvalidArgumentException)
+        })
+    }) // describe 'increment'
+
+    describe('expiration', () => {
+        it('Should remove expired entries which are not accessed', async () => {
+            // Arrange
+            const sweptCache = new MemoryCacheProvider({
+                    name: SECOND_CACHE_NAME,
+                    sweepInterval: 0.1,
+                })
+            const expired: CacheEventArgs[] = []
+            sweptCache.on(CacheEvent.EXPIRE, (args: CacheEventArgs) => expired.push(args))
+            await sweptCache.setPrimitive(KEY, 'a', { duration: 0.05 })
+            await sweptCache.setPrimitive('KEPT', 'b')
+
+            // Act
+            await new Promise(resolve => setTimeout(resolve, 150))
+
+            // Assert
+            expect(sweptCache['_store'].has(`${SECOND_CACHE_NAME}::${KEY}`)).to.be.false
+            expect(sweptCache['_store'].has(`${SECOND_CACHE_NAME}::KEPT`)).to.be.true
+            expect(expired).to.deep.equal([{ key: `${SECOND_CACHE_NAME}::${KEY}`, level: CacheLevel.LOCAL }])
+            await sweptCache.dispose()
+        })
+
+        it('Should not sweep if sweepInterval is zero', async () => {
+            // Arrange
+            const unsweptCache = new MemoryCacheProvider({
+                    name: SECOND_CACHE_NAME,
+                    sweepInterval: 0,
+                })
+
+            // Act
+            await unsweptCache.setPrimitive(KEY, 'a', { duration: 0.05 })
+
+            // Assert
+            expect(unsweptCache['_sweepTimer']).not.to.exist
+            await unsweptCache.dispose()
+        })
+    }) // describe 'expiration'
+
+    describe('events', () => {
+        it('Should emit events and count them in statistics', async () => {
+            // Arrange
+            const received: [CacheEvent, CacheEventArgs][] = []
+            for (const event of [CacheEvent.HIT, CacheEvent.MISS, CacheEvent.SET, CacheEvent.DELETE]) {
+                cache.on(event, (args: CacheEventArgs) => received.push([event, args]))
+            }
+            const realKey = `${FIRST_CACHE_NAME}::${KEY}`
+
+            // Act
+            await cache.setPrimitive(KEY, 'a')
+            await cache.getPrimitive(KEY)
+            await cache.getObject(NON_EXIST_KEY)
+            await cache.delete(KEY)
+
+            // Assert
+            expect(received).to.deep.equal([
+                [CacheEvent.SET, { key: realKey, level: CacheLevel.LOCAL, operation: 'setPrimitive' }],
+                [CacheEvent.HIT, { key: realKey, level: CacheLevel.LOCAL, operation: 'getPrimitive' }],
+                [CacheEvent.MISS, { key: `${FIRST_CACHE_NAME}::${NON_EXIST_KEY}`, operation: 'getObject' }],
+                [CacheEvent.DELETE, { key: realKey, operation: 'delete' }],
+            ])
+            const stats = cache.getStats()
+            expect(stats.localHits).to.equal(1)
+            expect(stats.misses).to.equal(1)
+            expect(stats.sets).to.equal(1)
+            expect(stats.deletes).to.equal(1)
+        })
+
+        it('Should emit expire event when an expired entry is accessed', async () => {
+            // Arrange
+            let expireCount = 0
+            cache.on(CacheEvent.EXPIRE, () => expireCount++)
+            await cache.setPrimitive(KEY, 'a', { duration: 0.05 })
+            await new Promise(resolve => setTimeout(resolve, 60))
+
+            // Act
+            const value = await cache.getPrimitive(KEY)
+
+            // Assert
+            expect(value.isNothing).to.be.true
+            expect(expireCount).to.equal(1)
+            expect(cache.getStats().misses).to.equal(1)
+        })
+
+        it('Should not fail if a listener throws', async () => {
+            // Arrange
+            cache.on(CacheEvent.SET, () => { throw new Error('Listener failure') })
+
+            // Act
+            await cache.setPrimitive(KEY, 'a')
+
+            // Assert
+            expect((await cache.getPrimitive(KEY)).value).to.equal('a')
+        })
+
+        it('Should reset statistics', async () => {
+            // Arrange
+            await cache.setPrimitive(KEY, 'a')
+
+            // Act
+            cache.resetStats()
+
+            // Assert
+            expect(cache.getStats().sets).to.equal(0)
+        })
+    }) // describe 'events'
+
+    describe('healthCheck', () => {
+        it('Should always be ready and healthy', async () => {
+            // Act
+            await cache.waitUntilReady(1)
+            const health = await cache.healthCheck()
+
+            // Assert
+            expect(health).to.deep.equal({ isHealthy: true, nodes: [] })
+        })
+    }) // describe 'healthCheck'
+})
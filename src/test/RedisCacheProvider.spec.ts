@@ -1,1005 +1,2558 @@
-import { expect } from 'chai'
-import * as redis from 'redis'
-import { Maybe, InvalidArgumentException, PrimitiveType } from '@micro-fleet/common'
-
-import { RedisCacheProvider, CacheLevel } from '../app'
-
-
-const FIRST_CACHE_NAME = 'firstcache',
-    SECOND_CACHE_NAME = 'secondcache',
-    LOCAL_CACHE_NAME = 'localcache',
-    SUFFIX = '::unittest',
-    KEY = 'TESTKEY' + SUFFIX,
-    NON_EXIST_KEY = 'BLANK'
-
-let cache: RedisCacheProvider
-
-// tslint:disable: no-floating-promises
-
-describe('CacheProvider (single)', function () {
-    this.timeout(5000)
-    // this.timeout(60000)
-
-    beforeEach(() => {
-        cache = new RedisCacheProvider({
-            name: FIRST_CACHE_NAME,
-            single: {
-                host: 'localhost',
-            },
-        })
-    })
-
-    afterEach(async () => {
-        await cache.delete(KEY)
-        await cache.dispose()
-        cache = null
-    })
-
-    describe('constructor', () => {
-        it('should use local cache only if no option is provided', () => {
-            // Act
-            const testCache = new RedisCacheProvider()
-
-            // Assert
-            expect(testCache['_localCache']).to.exist
-            expect(testCache['_engine']).not.to.exist
-        })
-    }) // describe 'constructor'
-
-    describe('setPrimitive', () => {
-        it('Should not allow null or undefined value', async () => {
-            // Arrange
-            const value: any = null
-            let exception: any
-
-            // Act
-            try {
-                await cache.setPrimitive(KEY, value)
-            } catch (err) {
-                exception = err
-            }
-
-            // Assert
-            expect(exception).to.be.instanceOf(InvalidArgumentException)
-            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
-        })
-
-        it('Should save a value locally only', async () => {
-            // Arrange
-            const valueOne = 'saved locally',
-                valueTwo = 'saved remotely'
-            const client = redis.createClient({
-                host: 'localhost',
-            })
-
-            // Act
-            await client['setAsync'](`${FIRST_CACHE_NAME}::${KEY}`, valueTwo)
-            await cache.setPrimitive(KEY, valueOne, { level: CacheLevel.LOCAL })
-
-            // Assert: Local value is different than remote value
-            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).to.equal(valueOne)
-
-            const remote = await cache.getPrimitive(KEY, { forceRemote: true }) as Maybe<string> // Skip local cache
-            expect(remote.isJust).to.be.true
-            expect(remote.value).to.equal(valueTwo)
-
-            // Clean up
-            client.quit()
-        })
-
-        it('Should default to save a value locally only if no cache service is provided', async () => {
-            // Arrange
-            const testCache = new RedisCacheProvider({
-                    name: LOCAL_CACHE_NAME,
-                    /* No remote service */
-                })
-            const value = 'saved locally'
-
-            // Act
-            await testCache.setPrimitive(KEY, value)
-
-            // Assert: Local value is different than remote value
-            expect(testCache['_localCache'][`${LOCAL_CACHE_NAME}::${KEY}`]).to.equal(value)
-        })
-
-        it('Should save a value remote only', async () => {
-            // Arrange
-            const value = 'saved remotely'
-
-            // Act
-            await cache.setPrimitive(KEY, value, { level: CacheLevel.REMOTE })
-
-            // Assert: Local value does not exist
-            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
-            expect(cache['_cacheExps'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
-
-            // Assert: Remote value exists
-            const refetch = await cache.getPrimitive(KEY, { forceRemote: true }) as Maybe<string> // Skip local cache
-            expect(refetch.isJust).to.be.true
-            expect(refetch.value).to.equal(value)
-        })
-
-        it('Should save a value both remotely and locally', async () => {
-            // Arrange
-            const value = 'I am everywhere'
-
-            // Act
-            await cache.setPrimitive(KEY, value, { level: CacheLevel.BOTH })
-
-            // Assert: Remote and local values are the same
-            const remote = await cache.getPrimitive(KEY, { forceRemote: true }) as Maybe<string>, // Skip local cache
-                local = cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]
-            expect(remote.isJust).to.be.true
-            expect(remote.value).to.equal(local)
-        })
-
-        it('Should save a value then expire locally', (done) => {
-            // Arrange
-            const value = 'a local string',
-                SECONDS = 1
-
-            // Act
-            cache.setPrimitive(KEY, value, { duration: SECONDS, level: CacheLevel.LOCAL })
-                .then(() => {
-                    setTimeout(async () => {
-                        // Assert
-                        const refetch = await cache.getPrimitive(KEY, { forceRemote: false }) as Maybe<string>
-                        if (refetch.isJust) {
-                            console.log('Refetch:', refetch)
-                        }
-                        expect(refetch.isJust).to.be.false
-                        done()
-                    }, 1100) // Wait until key expires
-                })
-
-        })
-
-        it('Should save a value then expire remotely', (done) => {
-            // Arrange
-            const value = 'a local string',
-                SECONDS = 1
-
-            // Act
-            cache.setPrimitive(KEY, value, { duration: SECONDS, level: CacheLevel.REMOTE })
-                .then(() => {
-                    setTimeout(async () => {
-                        // Assert
-                        const refetch = await cache.getPrimitive(KEY, { forceRemote: true }) as Maybe<string>
-                        if (refetch.isJust) {
-                            console.log('Refetch:', refetch)
-                        }
-                        expect(refetch.isJust).to.be.false
-                        done()
-                    }, 1100) // Wait until key expires
-                })
-
-        })
-
-        it('Should save a value then expire both locally and remotely', (done) => {
-            // Arrange
-            const value = 'a local string',
-                SECONDS = 1
-
-            // Act
-            cache.setPrimitive(KEY, value, { duration: SECONDS, level: CacheLevel.BOTH })
-                .then(() => {
-                    setTimeout(async () => {
-                        // Assert
-                        const remote = await cache.getPrimitive(KEY, { forceRemote: true }) as Maybe<string>,
-                            local = cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]
-
-                        remote.isJust && console.log('Remote:', remote.value)
-                        local && console.log('Local:', local)
-
-                        expect(remote.isJust).to.be.false
-                        expect(local).not.to.exist
-                        done()
-                    }, 1100) // Wait until key expires
-                })
-
-        })
-
-        it('Should save a value then keep sync', (done) => {
-            // Arrange
-            const KEY_TWO = 'SECKEY' + SUFFIX
-            const valueOne = 'a test string',
-                valueOneNew = 'another string',
-                valueTwo = 'the second string',
-                valueTwoNew = 'the new second string',
-                client = redis.createClient({
-                    host: 'localhost',
-                })
-
-            // Act
-            cache.setPrimitive(KEY, valueOne, { duration: 0, level: CacheLevel.BOTH })
-                .then(() => {
-                    return cache.setPrimitive(KEY_TWO, valueTwo, { duration: 0, level: CacheLevel.BOTH })
-                })
-                .then(async () => {
-                    await Promise.all([
-                        client['setAsync'](`${FIRST_CACHE_NAME}::${KEY}`, valueOneNew),
-                        client['setAsync'](`${FIRST_CACHE_NAME}::${KEY_TWO}`, valueTwoNew),
-                    ])
-                    client.quit()
-                })
-                .then(() => {
-                    setTimeout(() => {
-                        // Assert
-                        const refetchOne = cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]
-                        const refetchTwo = cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY_TWO}`]
-                        expect(refetchOne).to.equal(valueOneNew)
-                        expect(refetchTwo).to.equal(valueTwoNew)
-                        done()
-                    }, 1000) // Wait a bit then check again.
-                })
-        })
-
-        it('Should save a value with global option', async () => {
-            // Arrange
-            const value = 'saved globally'
-
-            // Act
-            await cache.setPrimitive(KEY, value, {
-                level: CacheLevel.REMOTE,
-                isGlobal: true,
-            })
-
-            // Assert: Remote value exists
-            const anotherCache = new RedisCacheProvider({
-                name: SECOND_CACHE_NAME,
-                single: {
-                    host: 'localhost',
-                },
-            })
-            try {
-                const refetch = await anotherCache.getPrimitive(KEY, {
-                    forceRemote: true,
-                    isGlobal: true,
-                })
-                expect(refetch.isJust).to.be.true
-                expect(refetch.value).to.equal(value)
-            }
-            finally {
-                await anotherCache.delete(KEY, { isGlobal: true })
-                await anotherCache.dispose()
-            }
-        })
-
-    }) // describe 'setPrimitive'
-
-
-    describe('getPrimitive', () => {
-        it('Should get string value (remote)', async () => {
-            // Arrange
-            const value = 'a test string'
-            await cache.setPrimitive(KEY, value)
-
-            // Act
-            const refetch: Maybe<PrimitiveType> = await cache.getPrimitive(KEY, { forceRemote: true })
-
-            // Assert
-            expect(refetch.isJust).to.be.true
-            expect(refetch.value).to.equal(value)
-        })
-
-        it('Should get string value (remote) from another cache provider instance', async () => {
-            // Arrange
-            const value = 'a test string'
-            const anotherCache = new RedisCacheProvider({
-                name: FIRST_CACHE_NAME,
-                single: {
-                    host: 'localhost',
-                },
-            })
-            try {
-                await anotherCache.setPrimitive(KEY, value)
-
-                // Act
-                const refetch: Maybe<PrimitiveType> = await cache.getPrimitive(KEY)
-
-                // Assert
-                expect(refetch.isJust).to.be.true
-                expect(refetch.value).to.equal(value)
-            }
-            finally {
-                await anotherCache.dispose()
-            }
-        })
-
-        it('Should get number value as string if no parsing (remote)', async () => {
-            // Arrange
-            const value = 123
-            await cache.setPrimitive(KEY, value)
-
-            // Act
-            const refetch: Maybe<PrimitiveType> = await cache.getPrimitive(KEY, {
-                forceRemote: true,
-                parseType: false,
-            })
-
-            // Assert
-            expect(refetch.isJust).to.be.true
-            expect(typeof refetch.value).to.equal('string')
-            expect(refetch.value).to.equal(String(value))
-        })
-
-        it('Should get number value as number if parsing is enabled (remote)', async () => {
-            // Arrange
-            const value = 123
-            await cache.setPrimitive(KEY, value)
-
-            // Act
-            const refetch: Maybe<PrimitiveType> = await cache.getPrimitive(KEY, {
-                forceRemote: true,
-                parseType: true,
-            })
-
-            // Assert
-            expect(refetch.isJust).to.be.true
-            expect(typeof refetch.value).to.equal('number')
-            expect(refetch.value).to.equal(value)
-        })
-
-        it('Should get boolean value as string if no parsing (remote)', async () => {
-            // Arrange
-            const value = true
-            await cache.setPrimitive(KEY, value)
-
-            // Act
-            const refetch: Maybe<PrimitiveType> = await cache.getPrimitive(KEY, {
-                forceRemote: true,
-                parseType: false,
-            })
-
-            // Assert
-            expect(refetch.isJust).to.be.true
-            expect(refetch.value).to.equal(String(value))
-            expect(typeof refetch.value).to.equal('string')
-        })
-
-        it('Should get boolean value as boolean if parsing is enabled (remote)', async () => {
-            // Arrange
-            const value = true
-            await cache.setPrimitive(KEY, value)
-
-            // Act
-            const refetch = await cache.getPrimitive(KEY, {
-                forceRemote: true,
-                parseType: true,
-            })
-
-            // Assert
-            expect(refetch.isJust).to.be.true
-            expect(typeof refetch.value).to.equal('boolean')
-            expect(refetch.value).to.equal(value)
-        })
-
-        it('Should get value locally if no cache service is provided', async () => {
-            // Arrange
-            const testCache = new RedisCacheProvider({
-                    name: LOCAL_CACHE_NAME,
-                    /* No remote service */
-                }),
-                value = 'a test string'
-
-            // Inject value to local cache
-            testCache['_localCache'][`${LOCAL_CACHE_NAME}::${KEY}`] = value
-
-            // Act
-            const refetch: Maybe<PrimitiveType> = await testCache.getPrimitive(KEY)
-
-            // Assert
-            expect(refetch.isJust).to.be.true
-            expect(typeof refetch.value).to.equal('string')
-            expect(refetch.value).to.equal(value)
-        })
-
-        it('Should return empty Maybe if not found (remote)', async () => {
-            // Act
-            const refetch: Maybe<PrimitiveType> = await cache.getPrimitive(NON_EXIST_KEY)
-
-            // Assert
-            expect(refetch.isJust).to.be.false
-        })
-
-        it('Should return empty Maybe if not found (local)', async () => {
-            // Arrange
-            const localCache = new RedisCacheProvider({
-                name: LOCAL_CACHE_NAME,
-                /* No remote service */
-            })
-
-            // Act
-            const refetch: Maybe<PrimitiveType> = await localCache.getPrimitive(NON_EXIST_KEY)
-
-            // Assert
-            expect(refetch.isJust).to.be.false
-        })
-    }) // describe 'getPrimitive'
-
-
-    describe('setArray', () => {
-        it('Should not allow null or undefined value', async () => {
-            // Arrange
-            const value: any = null
-            let exception: any
-
-            // Act
-            try {
-                await cache.setArray(KEY, value)
-            } catch (err) {
-                exception = err
-            }
-
-            // Assert
-            expect(exception).to.be.instanceOf(InvalidArgumentException)
-            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
-        })
-
-        it('Should save a primitive array', async () => {
-            // Arrange
-            const arr = [1, '2', false]
-
-            // Act
-            await cache.setArray(KEY, arr)
-
-            // Assert
-            const refetch = await cache.getArray(KEY, { forceRemote: true }) as Maybe<any> // Skip local cache
-            expect(refetch.isJust).to.be.true
-            expect(refetch.value).to.deep.equal(arr)
-        })
-
-        it('Should save an object array', async () => {
-            // Arrange
-            const arr = [
-                {
-                    name: 'Local Gennova',
-                    age: 55,
-                },
-                {
-                    address: 'A remote galaxy',
-                    since: 2017,
-                },
-            ]
-
-            // Act
-            await cache.setArray(KEY, arr)
-
-            // Assert
-            const refetch = await cache.getArray(KEY, { forceRemote: true }) as Maybe<any> // Skip local cache
-            expect(refetch.isJust).to.be.true
-            expect(refetch.value).to.deep.equal(arr)
-        })
-
-        it('Should save a value with global option', async () => {
-            // Arrange
-            const arr = [1, '2', false]
-
-            // Act
-            await cache.setArray(KEY, arr, {
-                level: CacheLevel.REMOTE,
-                isGlobal: true,
-            })
-
-            // Assert: Remote value exists
-            const anotherCache = new RedisCacheProvider({
-                name: SECOND_CACHE_NAME,
-                single: {
-                    host: 'localhost',
-                },
-            })
-            try {
-                const refetch = await anotherCache.getArray(KEY, {
-                    forceRemote: true,
-                    isGlobal: true,
-                })
-                expect(refetch.isJust).to.be.true
-                expect(refetch.value).to.deep.equal(arr)
-            }
-            finally {
-                await anotherCache.dispose()
-            }
-        })
-    }) // describe 'setArray'
-
-
-    describe('getArray', () => {
-        it('Should get a primitive array', async () => {
-            // Arrange
-            const arr = [1, '2', false]
-            await cache.setArray(KEY, arr)
-
-            // Act
-            const refetch: Maybe<PrimitiveType[]> = await cache.getArray(KEY, { forceRemote: true })
-
-            // Assert
-            expect(refetch.isJust).to.be.true
-            expect(refetch.value).to.deep.equal(arr)
-        })
-
-        it('Should get a primitive array from another cache provider instance', async () => {
-            // Arrange
-            const arr = [1, '2', false]
-            const anotherCache = new RedisCacheProvider({
-                name: FIRST_CACHE_NAME,
-                single: {
-                    host: 'localhost',
-                },
-            })
-            try {
-                await anotherCache.setArray(KEY, arr)
-
-                // Act
-                const refetch: Maybe<PrimitiveType[]> = await cache.getArray(KEY)
-
-                // Assert
-                expect(refetch.isJust).to.be.true
-                expect(refetch.value).to.deep.equal(arr)
-            }
-            finally {
-                await anotherCache.dispose()
-            }
-        })
-
-        it('Should get an object array', async () => {
-            // Arrange
-            const arr = [
-                {
-                    name: 'Local Gennova',
-                    age: 55,
-                    alive: true,
-                },
-                {
-                    address: 'A remote galaxy',
-                    since: 2017,
-                },
-            ]
-            await cache.setArray(KEY, arr)
-
-            // Act
-            const refetch: Maybe<PrimitiveType[]> = await cache.getArray(KEY, { forceRemote: true })
-
-            // Assert
-            expect(refetch.isJust).to.be.true
-            expect(refetch.value).to.deep.equal(arr)
-        })
-
-        it('Should get value locally if no cache service is provided', async () => {
-            // Arrange
-            const testCache = new RedisCacheProvider({
-                    name: LOCAL_CACHE_NAME,
-                    /* No remote service */
-                }),
-                arr = [1, '2', false]
-
-            // await cache.setArray(KEY, arr)
-            testCache['_localCache'][`${LOCAL_CACHE_NAME}::${KEY}`] = JSON.stringify(arr)
-
-            // Act
-            const refetch: Maybe<PrimitiveType[]> = await testCache.getArray(KEY)
-
-            // Assert
-            expect(refetch.isJust).to.be.true
-            expect(refetch.value).to.deep.equal(arr)
-        })
-
-        it('Should return empty Maybe if not found (remote)', async () => {
-            // Act
-            const refetch: Maybe<PrimitiveType[]> = await cache.getArray(NON_EXIST_KEY)
-
-            // Assert
-            expect(refetch.isJust).to.be.false
-        })
-
-        it('Should return empty Maybe if not found (local)', async () => {
-            // Arrange
-            const localCache = new RedisCacheProvider({
-                name: LOCAL_CACHE_NAME,
-                /* No remote service */
-            })
-
-            // Act
-            const refetch: Maybe<PrimitiveType[]> = await localCache.getArray(NON_EXIST_KEY)
-
-            // Assert
-            expect(refetch.isJust).to.be.false
-        })
-
-    }) // describe 'getArray'
-
-
-    describe('setObject', () => {
-        it('Should throw exception if value is null of undefined', async () => {
-            // Arrange
-            const obj: any = null
-            let exception: InvalidArgumentException
-
-            // Act
-            try {
-                await cache.setObject(KEY, obj)
-            } catch (ex) {
-                exception = ex
-            }
-
-            // Assert
-            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
-            expect(exception).to.exist
-            expect(exception).to.be.instanceOf(InvalidArgumentException)
-        })
-
-        it('Should save an object locally only', async () => {
-            // Arrange
-            const objOne = {
-                    name: 'Local Gennova',
-                    age: 55,
-                },
-                objTwo = {
-                    address: 'A remote galaxy',
-                    since: 2017,
-                },
-                client = redis.createClient({
-                    host: 'localhost',
-                })
-
-            // Act
-            await client['hmsetAsync'](`${FIRST_CACHE_NAME}::${KEY}`, objTwo)
-            await cache.setObject(KEY, objOne, { level: CacheLevel.LOCAL })
-
-            // Assert: Local value is different than remote value
-            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).to.deep.equal(objOne)
-
-            const remote = await cache.getObject(KEY, { forceRemote: true }) as Maybe<any> // Skip local cache
-            expect(remote.isJust).to.be.true
-            expect(remote.value).to.deep.equal(objTwo)
-
-            // Clean up
-            client.quit()
-        })
-
-        it('Should default to save an object locally only if no cache service is provided', async () => {
-            // Arrange
-            const testCache = new RedisCacheProvider({
-                    name: LOCAL_CACHE_NAME,
-                    /* No remote service */
-                }),
-                obj = {
-                    name: 'Local Gennova',
-                    age: 55,
-                }
-
-            // Act
-            await testCache.setObject(KEY, obj)
-
-            // Assert: Local value is different than remote value
-            expect(testCache['_localCache'][`${LOCAL_CACHE_NAME}::${KEY}`]).to.deep.equal(obj)
-        })
-
-        it('Should save an object remote only', async () => {
-            // Arrange
-            const obj = {
-                    name: 'Remote Gennova',
-                    age: 99,
-                }
-
-            // Act
-            await cache.setObject(KEY, obj, { level: CacheLevel.REMOTE })
-
-            // Assert: Local value does not exist
-            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
-            expect(cache['_cacheExps'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
-
-            // Assert: Remote value exists
-            const refetch = await cache.getObject(KEY, { forceRemote: true }) as Maybe<any> // Skip local cache
-            expect(refetch.isJust).to.be.true
-            expect(refetch.value).to.deep.equal(obj)
-        })
-
-        it('Should save an object both remotely and locally', async () => {
-            // Arrange
-            const obj = {
-                    name: 'Gennova everywhere',
-                    age: 124,
-                }
-
-            // Act
-            await cache.setObject(KEY, obj, { level: CacheLevel.BOTH })
-
-            // Assert: Remote and local values are the same
-            const remote = await cache.getObject(KEY, { forceRemote: true }) as Maybe<any> // Skip local cache
-            const local = cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]
-            expect(remote.isJust).to.be.true
-            expect(remote.value).to.deep.equal(local)
-        })
-
-        it('Should save an object then expire locally', (done) => {
-            // Arrange
-            const obj = {
-                    name: 'Gennova everywhere',
-                    age: 124,
-                },
-                SECONDS = 1
-
-            // Act
-            cache.setObject(KEY, obj, { duration: SECONDS, level: CacheLevel.LOCAL })
-                .then(() => {
-                    setTimeout(async () => {
-                        // Assert
-                        const refetch = await cache.getObject(KEY, { forceRemote: false }) as Maybe<any>
-                        if (refetch.isJust) {
-                            console.log('Refetch:', refetch)
-                        }
-                        expect(refetch.isJust).to.be.false
-                        done()
-                    }, 1100) // Wait until key expires
-                })
-        })
-
-        it('Should save an object then expire remotely', (done) => {
-            // Arrange
-            const obj = {
-                    name: 'Gennova everywhere',
-                    age: 124,
-                },
-                SECONDS = 1
-
-            // Act
-            cache.setObject(KEY, obj, { duration: SECONDS, level: CacheLevel.REMOTE })
-                .then(() => {
-                    setTimeout(async () => {
-                        // Assert
-                        const refetch = await cache.getObject(KEY, { forceRemote: true }) as Maybe<any>
-                        if (refetch.isJust) {
-                            console.log('Refetch:', refetch)
-                        }
-                        expect(refetch.isJust).to.be.false
-                        done()
-                    }, 1100) // Wait until key expires
-                })
-
-        })
-
-        it('Should save an object then keep sync', (done) => {
-            // Arrange
-            const objOne = {
-                    name: 'Sync Gennova',
-                    age: 987,
-                },
-                objTwo = {
-                    address: 'The middle of nowhere',
-                    since: 2017,
-                },
-                client = redis.createClient({
-                    host: 'localhost',
-                })
-
-            // Act
-            cache.setObject(KEY, objOne, { level: CacheLevel.BOTH })
-                .then(async () => {
-                    await client.multi()
-                        .del(`${FIRST_CACHE_NAME}::${KEY}`)
-                        .hmset(`${FIRST_CACHE_NAME}::${KEY}`, objTwo)['execAsync']()
-                    client.quit()
-                })
-                .then(() => {
-                    setTimeout(() => {
-                        // Assert
-                        const refetch: any = cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]
-                        expect(refetch).to.exist
-                        expect(refetch.name).not.to.exist
-                        expect(refetch.age).not.to.exist
-                        expect(refetch).to.deep.equal(objTwo)
-                        done()
-                    }, 1000) // Wait a bit then check again.
-                })
-        })
-
-        it('Should save a value with global option', async () => {
-            // Arrange
-            const obj = {
-                    name: 'Remote Gennova',
-                    age: 99,
-                }
-
-            // Act
-            await cache.setObject(KEY, obj, {
-                level: CacheLevel.REMOTE,
-                isGlobal: true,
-            })
-
-            // Assert: Remote value exists
-            const anotherCache = new RedisCacheProvider({
-                name: SECOND_CACHE_NAME,
-                single: {
-                    host: 'localhost',
-                },
-            })
-            try {
-                const refetch = await cache.getObject(KEY, {
-                    forceRemote: true,
-                    isGlobal: true,
-                })
-                expect(refetch.isJust).to.be.true
-                expect(refetch.value).to.deep.equal(obj)
-            }
-            finally {
-                await anotherCache.dispose()
-            }
-        })
-    }) // describe 'setObject'
-
-
-    describe('getObject', () => {
-        it('Should get object with all string properties', async () => {
-            // Arrange
-            const obj = {
-                    name: 'Local Gennova',
-                    age: 55,
-                    alive: true,
-                }
-            await cache.setObject(KEY, obj)
-
-            // Act
-            const refetch: Maybe<object> = await cache.getObject(KEY, {
-                forceRemote: true,
-                parseType: false,
-            })
-
-            // Assert
-            expect(refetch.isJust).to.be.true
-            const val = refetch.value
-            for (const p in val) {
-                expect(val[p]).to.equal(String(obj[p]))
-                expect(typeof val[p]).to.equal('string')
-            }
-        })
-
-        it('Should get object from another cache provider instance', async () => {
-            // Arrange
-            const obj = {
-                    name: 'Local Gennova',
-                    age: 55,
-                    alive: true,
-                }
-            const anotherCache = new RedisCacheProvider({
-                name: FIRST_CACHE_NAME,
-                single: {
-                    host: 'localhost',
-                },
-            })
-            try {
-                await anotherCache.setObject(KEY, obj)
-
-                // Act
-                const refetch: Maybe<object> = await cache.getObject(KEY, {
-                    forceRemote: true,
-                    parseType: false,
-                })
-
-                // Assert
-                expect(refetch.isJust).to.be.true
-                const val = refetch.value
-                for (const p in val) {
-                    expect(val[p]).to.equal(String(obj[p]))
-                    expect(typeof val[p]).to.equal('string')
-                }
-            }
-            finally {
-                await anotherCache.dispose()
-            }
-        })
-
-        it('Should get object with properties of their original type', async () => {
-            // Arrange
-            const obj = {
-                    name: 'Local Gennova',
-                    age: 55,
-                    alive: true,
-                }
-            await cache.setObject(KEY, obj)
-
-            // Act
-            const refetch: Maybe<object> = await cache.getObject(KEY, {
-                forceRemote: true,
-                parseType: true,
-            })
-
-            // Assert
-            expect(refetch.isJust).to.be.true
-            expect(refetch.value).to.deep.equal(obj)
-        })
-
-        it('Should get value locally if no cache service is provided', async () => {
-            // Arrange
-            const testCache = new RedisCacheProvider({
-                    name: LOCAL_CACHE_NAME,
-                    /* No remote service */
-                }),
-                obj = {
-                    name: 'Local Gennova',
-                    age: 55,
-                    alive: true,
-                }
-            testCache['_localCache'][`${LOCAL_CACHE_NAME}::${KEY}`] = obj
-
-            // Act
-            const refetch: Maybe<object> = await testCache.getObject(KEY)
-
-            // Assert
-            expect(refetch.isJust).to.be.true
-            expect(refetch.value).to.deep.equal(obj)
-        })
-
-        it('Should return empty Maybe if not found', async () => {
-            // Act
-            const refetch: Maybe<object> = await cache.getObject(NON_EXIST_KEY)
-
-            // Assert
-            expect(refetch.isJust).to.be.false
-        })
-    }) // describe 'getPrimitive'
-
-    describe('delete', () => {
-        it('Should delete LOCAL keys matching pattern', async () => {
-            // Arrange
-            const MOCK_COUNT = 10
-            const testCache = new RedisCacheProvider({
-                    name: LOCAL_CACHE_NAME,
-                    /* No remote service */
-                })
-            const getKey = () => Object.keys(testCache['_localCache'])
-            for (let i = 0; i < MOCK_COUNT; ++i) {
-                await testCache.setPrimitive(`DEL-${i}${SUFFIX}-ME`, `VAL-${i}`, { level: CacheLevel.LOCAL })
-            }
-
-            for (let i = 0; i < MOCK_COUNT; ++i) {
-                await testCache.setPrimitive(`REMOVE-${i}-ME-${i}`, `VAL-${i}`, { level: CacheLevel.LOCAL })
-            }
-            const FULL_COUNT = getKey().length
-            expect(FULL_COUNT).to.equal(21)
-
-            // Act 1
-            const PATTERN_ONE = `*${SUFFIX}*`
-            await testCache.delete(PATTERN_ONE, { isPattern: true })
-
-            // Assert 1
-            let keys = getKey()
-            expect(keys.length).to.equal(FULL_COUNT - MOCK_COUNT) // Should remain 11
-
-            // Act 2
-            const PATTERN_TWO = '*REMOVE-?-ME-?' // Remember: cache key is prefixed with cache name
-            await testCache.delete(PATTERN_TWO, { isPattern: true })
-
-            // Assert 2
-            keys = Object.keys(testCache['_localCache'])
-            expect(keys.length).to.equal(1)
-            expect(keys[0]).to.equal('@#!')
-        })
-
-        it('Should delete REMOTE keys matching pattern', async () => {
-            // Arrange
-            const MOCK_COUNT = 25
-            for (let i = 0; i < MOCK_COUNT; ++i) {
-                await cache.setPrimitive(`DEL-ME-${i}${SUFFIX}`, `VAL-${i}`, { level: CacheLevel.REMOTE })
-            }
-
-            // Act
-            const PATTERN = `*${SUFFIX}`
-            await cache.delete(PATTERN, { isPattern: true })
-
-            // Assert
-            const client = redis.createClient({
-                host: 'localhost',
-            })
-            try {
-                const result: [string, string[]] = await client['scanAsync']('',
-                    'MATCH', PATTERN, 'COUNT', MOCK_COUNT * 2) // Double to MOCK_COUNT to search wider
-                expect(result[0]).to.equal('0')
-                expect(result[1].length).to.equal(0)
-            }
-            finally {
-                // Clean up
-                await client['quitAsync']()
-            }
-        })
-    }) // describe 'delete'
-})
+import * as chai from 'chai'
+import * as spies from 'chai-spies'
+import * as redis from 'redis'
+import { Maybe, InvalidArgumentException, MinorException, PrimitiveType } from '@micro-fleet/common'
+
+import { RedisCacheProvider, CacheLevel, CacheValueType, CacheObjectLayout, EvictionPolicy, SyncStrategy,
+    TypedJsonCodec, MessagePackCodec, CompressionAlgorithm, CacheEvent, CacheEventArgs,
+    CircuitState } from '../app'
+
+chai.use(spies)
+const expect = chai.expect
+
+const FIRST_CACHE_NAME = 'firstcache',
+    SECOND_CACHE_NAME = 'secondcache',
+    LOCAL_CACHE_NAME = 'localcache',
+    SUFFIX = '::unittest',
+    KEY = 'TESTKEY' + SUFFIX,
+    NON_EXIST_KEY = 'BLANK',
+    UNREACHABLE_PORT = 6399
+
+let cache: RedisCacheProvider
+
+// tslint:disable: no-floating-promises
+
+describe('CacheProvider (single)', function () {
+    this.timeout(5000)
+    // this.timeout(60000)
+
+    beforeEach(() => {
+        cache = new RedisCacheProvider({
+            name: FIRST_CACHE_NAME,
+            single: {
+                host: 'localhost',
+            },
+        })
+    })
+
+    afterEach(async () => {
+        await cache.delete(KEY)
+        await cache.dispose()
+        cache = null
+    })
+
+    describe('constructor', () => {
+        it('should use local cache only if no option is provided', () => {
+            // Act
+            const testCache = new RedisCacheProvider()
+
+            // Assert
+            expect(testCache['_localCache']).to.exist
+            expect(testCache['_engine']).not.to.exist
+        })
+
+        it('should not allow tracking sync strategy in cluster mode', () => {
+            // Act
+            let exception: any
+            try {
+                new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    cluster: [
+                        { host: 'localhost' },
+                    ],
+                    syncStrategy: SyncStrategy.TRACKING,
+                })
+            } catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(InvalidArgumentException)
+        })
+
+        it('should not allow broadcast sync strategy in cluster mode', () => {
+            // Act
+            let exception: any
+            try {
+                new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    cluster: [
+                        { host: 'localhost' },
+                    ],
+                    syncStrategy: SyncStrategy.BROADCAST,
+                })
+            } catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(InvalidArgumentException)
+        })
+
+        it('should enable broadcast tracking with prefixes', () => {
+            // Arrange
+            const defaultCache = new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    syncStrategy: SyncStrategy.BROADCAST,
+                }),
+                prefixedCache = new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    syncStrategy: SyncStrategy.BROADCAST,
+                    broadcastPrefixes: ['user:', 'order:'],
+                }),
+                trackingCache = new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    syncStrategy: SyncStrategy.TRACKING,
+                })
+
+            // Act
+            const defaultArgs = defaultCache['_trackingModeArgs'](),
+                prefixedArgs = prefixedCache['_trackingModeArgs'](),
+                trackingArgs = trackingCache['_trackingModeArgs']()
+
+            // Assert
+            expect(defaultArgs).to.deep.equal(['BCAST', 'PREFIX', `${FIRST_CACHE_NAME}::`])
+            expect(prefixedArgs).to.deep.equal(['BCAST', 'PREFIX', 'user:', 'PREFIX', 'order:'])
+            expect(trackingArgs).to.be.empty
+        })
+    }) // describe 'constructor'
+
+    describe('setPrimitive', () => {
+        it('Should not allow null or undefined value', async () => {
+            // Arrange
+            const value: any = null
+            let exception: any
+
+            // Act
+            try {
+                await cache.setPrimitive(KEY, value)
+            } catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(InvalidArgumentException)
+            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
+        })
+
+        it('Should save a value locally only', async () => {
+            // Arrange
+            const valueOne = 'saved locally',
+                valueTwo = 'saved remotely'
+            const client = redis.createClient({
+                host: 'localhost',
+            })
+
+            // Act
+            await client['setAsync'](`${FIRST_CACHE_NAME}::${KEY}`, valueTwo)
+            await cache.setPrimitive(KEY, valueOne, { level: CacheLevel.LOCAL })
+
+            // Assert: Local value is different than remote value
+            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).to.equal(valueOne)
+
+            const remote = await cache.getPrimitive(KEY, { forceRemote: true }) as Maybe<string> // Skip local cache
+            expect(remote.isJust).to.be.true
+            expect(remote.value).to.equal(valueTwo)
+
+            // Clean up
+            client.quit()
+        })
+
+        it('Should default to save a value locally only if no cache service is provided', async () => {
+            // Arrange
+            const testCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                    /* No remote service */
+                })
+            const value = 'saved locally'
+
+            // Act
+            await testCache.setPrimitive(KEY, value)
+
+            // Assert: Local value is different than remote value
+            expect(testCache['_localCache'][`${LOCAL_CACHE_NAME}::${KEY}`]).to.equal(value)
+        })
+
+        it('Should save a value remote only', async () => {
+            // Arrange
+            const value = 'saved remotely'
+
+            // Act
+            await cache.setPrimitive(KEY, value, { level: CacheLevel.REMOTE })
+
+            // Assert: Local value does not exist
+            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
+            expect(cache['_cacheExps'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
+
+            // Assert: Remote value exists
+            const refetch = await cache.getPrimitive(KEY, { forceRemote: true }) as Maybe<string> // Skip local cache
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.equal(value)
+        })
+
+        it('Should save a value both remotely and locally', async () => {
+            // Arrange
+            const value = 'I am everywhere'
+
+            // Act
+            await cache.setPrimitive(KEY, value, { level: CacheLevel.BOTH })
+
+            // Assert: Remote and local values are the same
+            const remote = await cache.getPrimitive(KEY, { forceRemote: true }) as Maybe<string>, // Skip local cache
+                local = cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]
+            expect(remote.isJust).to.be.true
+            expect(remote.value).to.equal(local)
+        })
+
+        it('Should save a value then expire locally', (done) => {
+            // Arrange
+            const value = 'a local string',
+                SECONDS = 1
+
+            // Act
+            cache.setPrimitive(KEY, value, { duration: SECONDS, level: CacheLevel.LOCAL })
+                .then(() => {
+                    setTimeout(async () => {
+                        // Assert
+                        const refetch = await cache.getPrimitive(KEY, { forceRemote: false }) as Maybe<string>
+                        if (refetch.isJust) {
+                            console.log('Refetch:', refetch)
+                        }
+                        expect(refetch.isJust).to.be.false
+                        done()
+                    }, 1100) // Wait until key expires
+                })
+
+        })
+
+        it('Should save a value then expire remotely', (done) => {
+            // Arrange
+            const value = 'a local string',
+                SECONDS = 1
+
+            // Act
+            cache.setPrimitive(KEY, value, { duration: SECONDS, level: CacheLevel.REMOTE })
+                .then(() => {
+                    setTimeout(async () => {
+                        // Assert
+                        const refetch = await cache.getPrimitive(KEY, { forceRemote: true }) as Maybe<string>
+                        if (refetch.isJust) {
+                            console.log('Refetch:', refetch)
+                        }
+                        expect(refetch.isJust).to.be.false
+                        done()
+                    }, 1100) // Wait until key expires
+                })
+
+        })
+
+        it('Should save a value then expire both locally and remotely', (done) => {
+            // Arrange
+            const value = 'a local string',
+                SECONDS = 1
+
+            // Act
+            cache.setPrimitive(KEY, value, { duration: SECONDS, level: CacheLevel.BOTH })
+                .then(() => {
+                    setTimeout(async () => {
+                        // Assert
+                        const remote = await cache.getPrimitive(KEY, { forceRemote: true }) as Maybe<string>,
+                            local = cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]
+
+                        remote.isJust && console.log('Remote:', remote.value)
+                        local && console.log('Local:', local)
+
+                        expect(remote.isJust).to.be.false
+                        expect(local).not.to.exist
+                        done()
+                    }, 1100) // Wait until key expires
+                })
+
+        })
+
+        it('Should save a value then keep sync', (done) => {
+            // Arrange
+            const KEY_TWO = 'SECKEY' + SUFFIX
+            const valueOne = 'a test string',
+                valueOneNew = 'another string',
+                valueTwo = 'the second string',
+                valueTwoNew = 'the new second string',
+                client = redis.createClient({
+                    host: 'localhost',
+                })
+
+            // Act
+            cache.setPrimitive(KEY, valueOne, { duration: 0, level: CacheLevel.BOTH })
+                .then(() => {
+                    return cache.setPrimitive(KEY_TWO, valueTwo, { duration: 0, level: CacheLevel.BOTH })
+                })
+                .then(async () => {
+                    await Promise.all([
+                        client['setAsync'](`${FIRST_CACHE_NAME}::${KEY}`, valueOneNew),
+                        client['setAsync'](`${FIRST_CACHE_NAME}::${KEY_TWO}`, valueTwoNew),
+                    ])
+                    client.quit()
+                })
+                .then(() => {
+                    setTimeout(() => {
+                        // Assert
+                        const refetchOne = cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]
+                        const refetchTwo = cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY_TWO}`]
+                        expect(refetchOne).to.equal(valueOneNew)
+                        expect(refetchTwo).to.equal(valueTwoNew)
+                        done()
+                    }, 1000) // Wait a bit then check again.
+                })
+        })
+
+        it('Should save a value then keep sync with client tracking', (done) => {
+            // Arrange
+            const value = 'a test string',
+                valueNew = 'another string',
+                client = redis.createClient({
+                    host: 'localhost',
+                })
+            const trackingCache = new RedisCacheProvider({
+                name: FIRST_CACHE_NAME,
+                single: {
+                    host: 'localhost',
+                },
+                syncStrategy: SyncStrategy.TRACKING,
+            })
+
+            // Act
+            trackingCache.setPrimitive(KEY, value, { level: CacheLevel.BOTH })
+                .then(() => new Promise(resolve => setTimeout(resolve, 500))) // Wait for tracking to be enabled
+                .then(async () => {
+                    await client['setAsync'](`${FIRST_CACHE_NAME}::${KEY}`, valueNew)
+                    client.quit()
+                })
+                .then(() => {
+                    setTimeout(async () => {
+                        // Assert
+                        const refetch = trackingCache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]
+                        await trackingCache.delete(KEY)
+                        await trackingCache.dispose()
+                        expect(refetch).to.equal(valueNew)
+                        done()
+                    }, 1000) // Wait a bit then check again.
+                })
+        })
+
+        it('Should save a value then keep sync with broadcast tracking', async function () {
+            // Arrange
+            const client = redis.createClient({
+                host: 'localhost',
+            })
+            await new Promise(resolve => client.once('ready', resolve))
+            if (client.server_info.versions[0] < 6) {
+                client.quit()
+                // Client tracking requires Redis 6+
+                this.skip()
+            }
+            const value = 'a test string',
+                valueNew = 'another string'
+            const broadcastCache = new RedisCacheProvider({
+                name: FIRST_CACHE_NAME,
+                single: {
+                    host: 'localhost',
+                },
+                syncStrategy: SyncStrategy.BROADCAST,
+            })
+
+            try {
+                await broadcastCache.setPrimitive(KEY, value, { level: CacheLevel.BOTH })
+                await new Promise(resolve => setTimeout(resolve, 500)) // Wait for tracking to be enabled
+
+                // Act
+                await client['setAsync'](`${FIRST_CACHE_NAME}::${KEY}`, valueNew)
+                await new Promise(resolve => setTimeout(resolve, 1000)) // Wait a bit then check again.
+
+                // Assert
+                const refetch = broadcastCache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]
+                expect(refetch).to.equal(valueNew)
+            }
+            finally {
+                client.quit()
+                await broadcastCache.delete(KEY)
+                await broadcastCache.dispose()
+            }
+        })
+
+        it('Should save a value then keep sync on non-zero database', (done) => {
+            // Arrange
+            const DB = 1
+            const value = 'a test string',
+                valueNew = 'another string',
+                client = redis.createClient({
+                    host: 'localhost',
+                    db: DB,
+                })
+            const dbCache = new RedisCacheProvider({
+                name: FIRST_CACHE_NAME,
+                single: {
+                    host: 'localhost',
+                    db: DB,
+                },
+            })
+            expect(dbCache['_eventPrefix']).to.equal(`__keyspace@${DB}__:`)
+
+            // Act
+            dbCache.setPrimitive(KEY, value, { level: CacheLevel.BOTH })
+                .then(async () => {
+                    await client['setAsync'](`${FIRST_CACHE_NAME}::${KEY}`, valueNew)
+                    client.quit()
+                })
+                .then(() => {
+                    setTimeout(async () => {
+                        // Assert
+                        const refetch = dbCache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]
+                        await dbCache.delete(KEY)
+                        await dbCache.dispose()
+                        expect(refetch).to.equal(valueNew)
+                        done()
+                    }, 1000) // Wait a bit then check again.
+                })
+        })
+
+        it('Should save a value with global option', async () => {
+            // Arrange
+            const value = 'saved globally'
+
+            // Act
+            await cache.setPrimitive(KEY, value, {
+                level: CacheLevel.REMOTE,
+                isGlobal: true,
+            })
+
+            // Assert: Remote value exists
+            const anotherCache = new RedisCacheProvider({
+                name: SECOND_CACHE_NAME,
+                single: {
+                    host: 'localhost',
+                },
+            })
+            try {
+                const refetch = await anotherCache.getPrimitive(KEY, {
+                    forceRemote: true,
+                    isGlobal: true,
+                })
+                expect(refetch.isJust).to.be.true
+                expect(refetch.value).to.equal(value)
+            }
+            finally {
+                await anotherCache.delete(KEY, { isGlobal: true })
+                await anotherCache.dispose()
+            }
+        })
+
+        it('Should not remove a LOCAL value by expiration of its previous value', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                })
+            await localCache.setPrimitive(KEY, 'a', { duration: 0.05 })
+
+            // Act
+            await localCache.setPrimitive(KEY, 'b')
+            await new Promise(resolve => setTimeout(resolve, 100))
+
+            // Assert
+            expect((await localCache.getPrimitive(KEY)).value).to.equal('b')
+            await localCache.dispose()
+        })
+
+    }) // describe 'setPrimitive'
+
+
+    describe('getPrimitive', () => {
+        it('Should get string value (remote)', async () => {
+            // Arrange
+            const value = 'a test string'
+            await cache.setPrimitive(KEY, value)
+
+            // Act
+            const refetch: Maybe<PrimitiveType> = await cache.getPrimitive(KEY, { forceRemote: true })
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.equal(value)
+        })
+
+        it('Should get string value (remote) from another cache provider instance', async () => {
+            // Arrange
+            const value = 'a test string'
+            const anotherCache = new RedisCacheProvider({
+                name: FIRST_CACHE_NAME,
+                single: {
+                    host: 'localhost',
+                },
+            })
+            try {
+                await anotherCache.setPrimitive(KEY, value)
+
+                // Act
+                const refetch: Maybe<PrimitiveType> = await cache.getPrimitive(KEY)
+
+                // Assert
+                expect(refetch.isJust).to.be.true
+                expect(refetch.value).to.equal(value)
+            }
+            finally {
+                await anotherCache.dispose()
+            }
+        })
+
+        it('Should get number value as string if no parsing (remote)', async () => {
+            // Arrange
+            const value = 123
+            await cache.setPrimitive(KEY, value)
+
+            // Act
+            const refetch: Maybe<PrimitiveType> = await cache.getPrimitive(KEY, {
+                forceRemote: true,
+                parseType: false,
+            })
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(typeof refetch.value).to.equal('string')
+            expect(refetch.value).to.equal(String(value))
+        })
+
+        it('Should get number value as number if parsing is enabled (remote)', async () => {
+            // Arrange
+            const value = 123
+            await cache.setPrimitive(KEY, value)
+
+            // Act
+            const refetch: Maybe<PrimitiveType> = await cache.getPrimitive(KEY, {
+                forceRemote: true,
+                parseType: true,
+            })
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(typeof refetch.value).to.equal('number')
+            expect(refetch.value).to.equal(value)
+        })
+
+        it('Should get boolean value as string if no parsing (remote)', async () => {
+            // Arrange
+            const value = true
+            await cache.setPrimitive(KEY, value)
+
+            // Act
+            const refetch: Maybe<PrimitiveType> = await cache.getPrimitive(KEY, {
+                forceRemote: true,
+                parseType: false,
+            })
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.equal(String(value))
+            expect(typeof refetch.value).to.equal('string')
+        })
+
+        it('Should get boolean value as boolean if parsing is enabled (remote)', async () => {
+            // Arrange
+            const value = true
+            await cache.setPrimitive(KEY, value)
+
+            // Act
+            const refetch = await cache.getPrimitive(KEY, {
+                forceRemote: true,
+                parseType: true,
+            })
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(typeof refetch.value).to.equal('boolean')
+            expect(refetch.value).to.equal(value)
+        })
+
+        it('Should get value locally if no cache service is provided', async () => {
+            // Arrange
+            const testCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                    /* No remote service */
+                }),
+                value = 'a test string'
+
+            // Inject value to local cache
+            testCache['_localCache'][`${LOCAL_CACHE_NAME}::${KEY}`] = value
+
+            // Act
+            const refetch: Maybe<PrimitiveType> = await testCache.getPrimitive(KEY)
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(typeof refetch.value).to.equal('string')
+            expect(refetch.value).to.equal(value)
+        })
+
+        it('Should return empty Maybe if not found (remote)', async () => {
+            // Act
+            const refetch: Maybe<PrimitiveType> = await cache.getPrimitive(NON_EXIST_KEY)
+
+            // Assert
+            expect(refetch.isJust).to.be.false
+        })
+
+        it('Should return empty Maybe if not found (local)', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                name: LOCAL_CACHE_NAME,
+                /* No remote service */
+            })
+
+            // Act
+            const refetch: Maybe<PrimitiveType> = await localCache.getPrimitive(NON_EXIST_KEY)
+
+            // Assert
+            expect(refetch.isJust).to.be.false
+        })
+    }) // describe 'getPrimitive'
+
+
+    describe('setArray', () => {
+        it('Should not allow null or undefined value', async () => {
+            // Arrange
+            const value: any = null
+            let exception: any
+
+            // Act
+            try {
+                await cache.setArray(KEY, value)
+            } catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(InvalidArgumentException)
+            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
+        })
+
+        it('Should save a primitive array', async () => {
+            // Arrange
+            const arr = [1, '2', false]
+
+            // Act
+            await cache.setArray(KEY, arr)
+
+            // Assert
+            const refetch = await cache.getArray(KEY, { forceRemote: true }) as Maybe<any> // Skip local cache
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.deep.equal(arr)
+        })
+
+        it('Should save an object array', async () => {
+            // Arrange
+            const arr = [
+                {
+                    name: 'Local Gennova',
+                    age: 55,
+                },
+                {
+                    address: 'A remote galaxy',
+                    since: 2017,
+                },
+            ]
+
+            // Act
+            await cache.setArray(KEY, arr)
+
+            // Assert
+            const refetch = await cache.getArray(KEY, { forceRemote: true }) as Maybe<any> // Skip local cache
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.deep.equal(arr)
+        })
+
+        it('Should save a value with global option', async () => {
+            // Arrange
+            const arr = [1, '2', false]
+
+            // Act
+            await cache.setArray(KEY, arr, {
+                level: CacheLevel.REMOTE,
+                isGlobal: true,
+            })
+
+            // Assert: Remote value exists
+            const anotherCache = new RedisCacheProvider({
+                name: SECOND_CACHE_NAME,
+                single: {
+                    host: 'localhost',
+                },
+            })
+            try {
+                const refetch = await anotherCache.getArray(KEY, {
+                    forceRemote: true,
+                    isGlobal: true,
+                })
+                expect(refetch.isJust).to.be.true
+                expect(refetch.value).to.deep.equal(arr)
+            }
+            finally {
+                await anotherCache.dispose()
+            }
+        })
+    }) // describe 'setArray'
+
+
+    describe('getArray', () => {
+        it('Should get a primitive array', async () => {
+            // Arrange
+            const arr = [1, '2', false]
+            await cache.setArray(KEY, arr)
+
+            // Act
+            const refetch: Maybe<PrimitiveType[]> = await cache.getArray(KEY, { forceRemote: true })
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.deep.equal(arr)
+        })
+
+        it('Should get a primitive array from another cache provider instance', async () => {
+            // Arrange
+            const arr = [1, '2', false]
+            const anotherCache = new RedisCacheProvider({
+                name: FIRST_CACHE_NAME,
+                single: {
+                    host: 'localhost',
+                },
+            })
+            try {
+                await anotherCache.setArray(KEY, arr)
+
+                // Act
+                const refetch: Maybe<PrimitiveType[]> = await cache.getArray(KEY)
+
+                // Assert
+                expect(refetch.isJust).to.be.true
+                expect(refetch.value).to.deep.equal(arr)
+            }
+            finally {
+                await anotherCache.dispose()
+            }
+        })
+
+        it('Should get an object array', async () => {
+            // Arrange
+            const arr = [
+                {
+                    name: 'Local Gennova',
+                    age: 55,
+                    alive: true,
+                },
+                {
+                    address: 'A remote galaxy',
+                    since: 2017,
+                },
+            ]
+            await cache.setArray(KEY, arr)
+
+            // Act
+            const refetch: Maybe<PrimitiveType[]> = await cache.getArray(KEY, { forceRemote: true })
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.deep.equal(arr)
+        })
+
+        it('Should get value locally if no cache service is provided', async () => {
+            // Arrange
+            const testCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                    /* No remote service */
+                }),
+                arr = [1, '2', false]
+
+            // await cache.setArray(KEY, arr)
+            testCache['_localCache'][`${LOCAL_CACHE_NAME}::${KEY}`] = JSON.stringify(arr)
+
+            // Act
+            const refetch: Maybe<PrimitiveType[]> = await testCache.getArray(KEY)
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.deep.equal(arr)
+        })
+
+        it('Should return empty Maybe if not found (remote)', async () => {
+            // Act
+            const refetch: Maybe<PrimitiveType[]> = await cache.getArray(NON_EXIST_KEY)
+
+            // Assert
+            expect(refetch.isJust).to.be.false
+        })
+
+        it('Should return empty Maybe if not found (local)', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                name: LOCAL_CACHE_NAME,
+                /* No remote service */
+            })
+
+            // Act
+            const refetch: Maybe<PrimitiveType[]> = await localCache.getArray(NON_EXIST_KEY)
+
+            // Assert
+            expect(refetch.isJust).to.be.false
+        })
+
+    }) // describe 'getArray'
+
+
+    describe('setObject', () => {
+        it('Should throw exception if value is null of undefined', async () => {
+            // Arrange
+            const obj: any = null
+            let exception: InvalidArgumentException
+
+            // Act
+            try {
+                await cache.setObject(KEY, obj)
+            } catch (ex) {
+                exception = ex
+            }
+
+            // Assert
+            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
+            expect(exception).to.exist
+            expect(exception).to.be.instanceOf(InvalidArgumentException)
+        })
+
+        it('Should save an object locally only', async () => {
+            // Arrange
+            const objOne = {
+                    name: 'Local Gennova',
+                    age: 55,
+                },
+                objTwo = {
+                    address: 'A remote galaxy',
+                    since: 2017,
+                },
+                client = redis.createClient({
+                    host: 'localhost',
+                })
+
+            // Act
+            await client['hmsetAsync'](`${FIRST_CACHE_NAME}::${KEY}`, objTwo)
+            await cache.setObject(KEY, objOne, { level: CacheLevel.LOCAL })
+
+            // Assert: Local value is different than remote value
+            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).to.deep.equal(objOne)
+
+            const remote = await cache.getObject(KEY, { forceRemote: true }) as Maybe<any> // Skip local cache
+            expect(remote.isJust).to.be.true
+            expect(remote.value).to.deep.equal(objTwo)
+
+            // Clean up
+            client.quit()
+        })
+
+        it('Should default to save an object locally only if no cache service is provided', async () => {
+            // Arrange
+            const testCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                    /* No remote service */
+                }),
+                obj = {
+                    name: 'Local Gennova',
+                    age: 55,
+                }
+
+            // Act
+            await testCache.setObject(KEY, obj)
+
+            // Assert: Local value is different than remote value
+            expect(testCache['_localCache'][`${LOCAL_CACHE_NAME}::${KEY}`]).to.deep.equal(obj)
+        })
+
+        it('Should save an object remote only', async () => {
+            // Arrange
+            const obj = {
+                    name: 'Remote Gennova',
+                    age: 99,
+                }
+
+            // Act
+            await cache.setObject(KEY, obj, { level: CacheLevel.REMOTE })
+
+            // Assert: Local value does not exist
+            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
+            expect(cache['_cacheExps'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
+
+            // Assert: Remote value exists
+            const refetch = await cache.getObject(KEY, { forceRemote: true }) as Maybe<any> // Skip local cache
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.deep.equal(obj)
+        })
+
+        it('Should save an object both remotely and locally', async () => {
+            // Arrange
+            const obj = {
+                    name: 'Gennova everywhere',
+                    age: 124,
+                }
+
+            // Act
+            await cache.setObject(KEY, obj, { level: CacheLevel.BOTH })
+
+            // Assert: Remote and local values are the same
+            const remote = await cache.getObject(KEY, { forceRemote: true }) as Maybe<any> // Skip local cache
+            const local = cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]
+            expect(remote.isJust).to.be.true
+            expect(remote.value).to.deep.equal(local)
+        })
+
+        it('Should save an object then expire locally', (done) => {
+            // Arrange
+            const obj = {
+                    name: 'Gennova everywhere',
+                    age: 124,
+                },
+                SECONDS = 1
+
+            // Act
+            cache.setObject(KEY, obj, { duration: SECONDS, level: CacheLevel.LOCAL })
+                .then(() => {
+                    setTimeout(async () => {
+                        // Assert
+                        const refetch = await cache.getObject(KEY, { forceRemote: false }) as Maybe<any>
+                        if (refetch.isJust) {
+                            console.log('Refetch:', refetch)
+                        }
+                        expect(refetch.isJust).to.be.false
+                        done()
+                    }, 1100) // Wait until key expires
+                })
+        })
+
+        it('Should save an object then expire remotely', (done) => {
+            // Arrange
+            const obj = {
+                    name: 'Gennova everywhere',
+                    age: 124,
+                },
+                SECONDS = 1
+
+            // Act
+            cache.setObject(KEY, obj, { duration: SECONDS, level: CacheLevel.REMOTE })
+                .then(() => {
+                    setTimeout(async () => {
+                        // Assert
+                        const refetch = await cache.getObject(KEY, { forceRemote: true }) as Maybe<any>
+                        if (refetch.isJust) {
+                            console.log('Refetch:', refetch)
+                        }
+                        expect(refetch.isJust).to.be.false
+                        done()
+                    }, 1100) // Wait until key expires
+                })
+
+        })
+
+        it('Should save an object then keep sync', (done) => {
+            // Arrange
+            const objOne = {
+                    name: 'Sync Gennova',
+                    age: 987,
+                },
+                objTwo = {
+                    address: 'The middle of nowhere',
+                    since: 2017,
+                },
+                client = redis.createClient({
+                    host: 'localhost',
+                })
+
+            // Act
+            cache.setObject(KEY, objOne, { level: CacheLevel.BOTH })
+                .then(async () => {
+                    await client.multi()
+                        .del(`${FIRST_CACHE_NAME}::${KEY}`)
+                        .hmset(`${FIRST_CACHE_NAME}::${KEY}`, objTwo)['execAsync']()
+                    client.quit()
+                })
+                .then(() => {
+                    setTimeout(() => {
+                        // Assert
+                        const refetch: any = cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]
+                        expect(refetch).to.exist
+                        expect(refetch.name).not.to.exist
+                        expect(refetch.age).not.to.exist
+                        expect(refetch).to.deep.equal(objTwo)
+                        done()
+                    }, 1000) // Wait a bit then check again.
+                })
+        })
+
+        it('Should save a value with global option', async () => {
+            // Arrange
+            const obj = {
+                    name: 'Remote Gennova',
+                    age: 99,
+                }
+
+            // Act
+            await cache.setObject(KEY, obj, {
+                level: CacheLevel.REMOTE,
+                isGlobal: true,
+            })
+
+            // Assert: Remote value exists
+            const anotherCache = new RedisCacheProvider({
+                name: SECOND_CACHE_NAME,
+                single: {
+                    host: 'localhost',
+                },
+            })
+            try {
+                const refetch = await cache.getObject(KEY, {
+                    forceRemote: true,
+                    isGlobal: true,
+                })
+                expect(refetch.isJust).to.be.true
+                expect(refetch.value).to.deep.equal(obj)
+            }
+            finally {
+                await anotherCache.dispose()
+            }
+        })
+
+        it('Should save a nested object in JSON layout', async () => {
+            // Arrange
+            const obj = {
+                    name: 'Remote Gennova',
+                    address: {
+                        city: 'Saigon',
+                        geo: [10.8, 106.6],
+                    },
+                    tags: ['a', { b: 1 }],
+                    deleted: null as any,
+                },
+                client = redis.createClient({
+                    host: 'localhost',
+                })
+
+            // Act
+            await cache.setObject(KEY, obj, { level: CacheLevel.REMOTE })
+
+            // Assert
+            const raw = await client['getAsync'](`${FIRST_CACHE_NAME}::${KEY}`)
+            expect(JSON.parse(raw)).to.deep.equal(obj)
+            const refetch = await cache.getObject(KEY, { forceRemote: true })
+            expect(refetch.value).to.deep.equal(obj)
+            client.quit()
+        })
+
+        it('Should save an object in hash layout if configured', async () => {
+            // Arrange
+            const testCache = new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                    },
+                    objectLayout: CacheObjectLayout.HASH,
+                }),
+                obj = {
+                    name: 'Remote Gennova',
+                    age: 99,
+                },
+                client = redis.createClient({
+                    host: 'localhost',
+                })
+
+            try {
+                // Act
+                await testCache.setObject(KEY, obj)
+
+                // Assert
+                const raw = await client['hgetallAsync'](`${FIRST_CACHE_NAME}::${KEY}`)
+                expect(raw).to.deep.equal({ name: 'Remote Gennova', age: '99' })
+                const refetch = await cache.getObject(KEY, { forceRemote: true })
+                expect(refetch.value).to.deep.equal(obj)
+            }
+            finally {
+                client.quit()
+                await testCache.dispose()
+            }
+        })
+    }) // describe 'setObject'
+
+
+    describe('getObject', () => {
+        it('Should get object with all string properties if saved in hash layout', async () => {
+            // Arrange
+            const obj = {
+                    name: 'Local Gennova',
+                    age: 55,
+                    alive: true,
+                }
+            await cache.setObject(KEY, obj, { objectLayout: CacheObjectLayout.HASH })
+
+            // Act
+            const refetch: Maybe<object> = await cache.getObject(KEY, {
+                forceRemote: true,
+                parseType: false,
+            })
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            const val = refetch.value
+            for (const p in val) {
+                expect(val[p]).to.equal(String(obj[p]))
+                expect(typeof val[p]).to.equal('string')
+            }
+        })
+
+        it('Should get object from another cache provider instance', async () => {
+            // Arrange
+            const obj = {
+                    name: 'Local Gennova',
+                    age: 55,
+                    alive: true,
+                }
+            const anotherCache = new RedisCacheProvider({
+                name: FIRST_CACHE_NAME,
+                single: {
+                    host: 'localhost',
+                },
+            })
+            try {
+                await anotherCache.setObject(KEY, obj, { objectLayout: CacheObjectLayout.HASH })
+
+                // Act
+                const refetch: Maybe<object> = await cache.getObject(KEY, {
+                    forceRemote: true,
+                    parseType: false,
+                })
+
+                // Assert
+                expect(refetch.isJust).to.be.true
+                const val = refetch.value
+                for (const p in val) {
+                    expect(val[p]).to.equal(String(obj[p]))
+                    expect(typeof val[p]).to.equal('string')
+                }
+            }
+            finally {
+                await anotherCache.dispose()
+            }
+        })
+
+        it('Should get object with properties of their original type', async () => {
+            // Arrange
+            const obj = {
+                    name: 'Local Gennova',
+                    age: 55,
+                    alive: true,
+                }
+            await cache.setObject(KEY, obj)
+
+            // Act
+            const refetch: Maybe<object> = await cache.getObject(KEY, {
+                forceRemote: true,
+                parseType: true,
+            })
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.deep.equal(obj)
+        })
+
+        it('Should get value locally if no cache service is provided', async () => {
+            // Arrange
+            const testCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                    /* No remote service */
+                }),
+                obj = {
+                    name: 'Local Gennova',
+                    age: 55,
+                    alive: true,
+                }
+            testCache['_localCache'][`${LOCAL_CACHE_NAME}::${KEY}`] = obj
+
+            // Act
+            const refetch: Maybe<object> = await testCache.getObject(KEY)
+
+            // Assert
+            expect(refetch.isJust).to.be.true
+            expect(refetch.value).to.deep.equal(obj)
+        })
+
+        it('Should return empty Maybe if not found', async () => {
+            // Act
+            const refetch: Maybe<object> = await cache.getObject(NON_EXIST_KEY)
+
+            // Assert
+            expect(refetch.isJust).to.be.false
+        })
+    }) // describe 'getPrimitive'
+
+    describe('delete', () => {
+        it('Should delete LOCAL keys matching pattern', async () => {
+            // Arrange
+            const MOCK_COUNT = 10
+            const testCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                    /* No remote service */
+                })
+            const getKey = () => Object.keys(testCache['_localCache'])
+            for (let i = 0; i < MOCK_COUNT; ++i) {
+                await testCache.setPrimitive(`DEL-${i}${SUFFIX}-ME`, `VAL-${i}`, { level: CacheLevel.LOCAL })
+            }
+
+            for (let i = 0; i < MOCK_COUNT; ++i) {
+                await testCache.setPrimitive(`REMOVE-${i}-ME-${i}`, `VAL-${i}`, { level: CacheLevel.LOCAL })
+            }
+            const FULL_COUNT = getKey().length
+            expect(FULL_COUNT).to.equal(21)
+
+            // Act 1
+            const PATTERN_ONE = `*${SUFFIX}*`
+            await testCache.delete(PATTERN_ONE, { isPattern: true })
+
+            // Assert 1
+            let keys = getKey()
+            expect(keys.length).to.equal(FULL_COUNT - MOCK_COUNT) // Should remain 11
+
+            // Act 2
+            const PATTERN_TWO = '*REMOVE-?-ME-?' // Remember: cache key is prefixed with cache name
+            await testCache.delete(PATTERN_TWO, { isPattern: true })
+
+            // Assert 2
+            keys = Object.keys(testCache['_localCache'])
+            expect(keys.length).to.equal(1)
+            expect(keys[0]).to.equal('@#!')
+        })
+
+        it('Should clear expiration timers of LOCAL keys matching pattern', async () => {
+            // Arrange
+            const testCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                    /* No remote service */
+                })
+            await testCache.setPrimitive('DEL-ONE', 'VAL-1', { duration: 100, level: CacheLevel.LOCAL })
+            await testCache.setPrimitive('KEEP-ONE', 'VAL-2', { duration: 100, level: CacheLevel.LOCAL })
+
+            // Act
+            await testCache.delete('*DEL-*', { isPattern: true })
+
+            // Assert
+            expect(testCache['_cacheExps'][`${LOCAL_CACHE_NAME}::DEL-ONE`]).not.to.exist
+            expect(testCache['_cacheExps'][`${LOCAL_CACHE_NAME}::KEEP-ONE`]).to.exist
+            await testCache.dispose()
+        })
+
+        it('Should delete REMOTE keys matching pattern', async () => {
+            // Arrange
+            const MOCK_COUNT = 25
+            for (let i = 0; i < MOCK_COUNT; ++i) {
+                await cache.setPrimitive(`DEL-ME-${i}${SUFFIX}`, `VAL-${i}`, { level: CacheLevel.REMOTE })
+            }
+
+            // Act
+            const PATTERN = `*${SUFFIX}`
+            await cache.delete(PATTERN, { isPattern: true })
+
+            // Assert
+            const client = redis.createClient({
+                host: 'localhost',
+            })
+            try {
+                const result: [string, string[]] = await client['scanAsync']('',
+                    'MATCH', PATTERN, 'COUNT', MOCK_COUNT * 2) // Double to MOCK_COUNT to search wider
+                expect(result[0]).to.equal('0')
+                expect(result[1].length).to.equal(0)
+            }
+            finally {
+                // Clean up
+                await client['quitAsync']()
+            }
+        })
+    }) // describe 'delete'
+
+    describe('codec', () => {
+        it('Should save values with codec name so other instances can decode them', async () => {
+            // Arrange
+            const writer = new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                    },
+                    codec: new MessagePackCodec(),
+                }),
+                obj = {
+                    at: new Date(1000),
+                    nested: { list: [1, 2] },
+                }
+
+            try {
+                // Act
+                await writer.setObject(KEY, obj, { level: CacheLevel.REMOTE })
+                const refetch = await cache.getObject(KEY, { forceRemote: true })
+
+                // Assert
+                expect(refetch.value).to.deep.equal(obj)
+            }
+            finally {
+                await writer.dispose()
+            }
+        })
+
+        it('Should use per-call codec for arrays', async () => {
+            // Arrange
+            const arr = [new Date(1000), BigInt(1)]
+            const raw = redis.createClient({
+                host: 'localhost',
+            })
+
+            // Act
+            await cache.setArray(KEY, arr, { codec: new TypedJsonCodec(), level: CacheLevel.REMOTE })
+            const refetch = await cache.getArray(KEY, { forceRemote: true })
+
+            // Assert
+            expect(refetch.value).to.deep.equal(arr)
+            const stored: string = await raw['getAsync'](`${FIRST_CACHE_NAME}::${KEY}`)
+            expect(stored).to.contain('typed-json')
+            raw.quit()
+        })
+    }) // describe 'codec'
+
+    describe('compression', () => {
+        it('Should compress large values and read them transparently', async () => {
+            // Arrange
+            const writer = new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                    },
+                    compression: {
+                        algorithm: CompressionAlgorithm.GZIP,
+                        threshold: 100,
+                    },
+                }),
+                arr = Array(50).fill({ name: 'Gennova', age: 55 }),
+                raw = redis.createClient({
+                    host: 'localhost',
+                })
+
+            try {
+                // Act
+                await writer.setArray(KEY, arr)
+                await writer.setPrimitive(KEY + '2', 'small')
+                const refetch = await cache.getArray(KEY, { forceRemote: true })
+                const many = await cache.getManyPrimitives([KEY + '2'], { forceRemote: true })
+
+                // Assert
+                const stored: string = await raw['getAsync'](`${FIRST_CACHE_NAME}::${KEY}`)
+                expect(stored.length).to.be.lessThan(JSON.stringify(arr).length)
+                expect(refetch.value).to.deep.equal(arr)
+                expect(many[0].value).to.equal('small')
+            }
+            finally {
+                raw.quit()
+                await writer.delete(KEY + '2')
+                await writer.dispose()
+            }
+        })
+
+        it('Should read old uncompressed values', async () => {
+            // Arrange
+            const reader = new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                    },
+                    compression: {
+                        threshold: 0,
+                    },
+                }),
+                obj = { name: 'Gennova', nested: { age: 55 } }
+            await cache.setObject(KEY, obj)
+
+            try {
+                // Act
+                const refetch = await reader.getObject(KEY, { forceRemote: true })
+
+                // Assert
+                expect(refetch.value).to.deep.equal(obj)
+            }
+            finally {
+                await reader.dispose()
+            }
+        })
+    }) // describe 'compression'
+
+    describe('batch operations', () => {
+        const KEYS = ['ONE', 'TWO', 'THREE'].map(k => k + SUFFIX)
+
+        afterEach(async () => {
+            await cache.deleteMany(KEYS)
+        })
+
+        it('Should merge local hits with remote values', async () => {
+            // Arrange
+            await cache.setPrimitive(KEYS[0], 'local', { level: CacheLevel.LOCAL })
+            await cache.setPrimitive(KEYS[1], 2, { level: CacheLevel.REMOTE })
+            const engine = cache['_engine']
+            const mgetSpy = chai.spy.on(engine, 'mget')
+
+            // Act
+            const results = await cache.getManyPrimitives(KEYS)
+
+            // Assert
+            expect(results.map(r => r.isJust)).to.deep.equal([true, true, false])
+            expect(results[0].value).to.equal('local')
+            expect(results[1].value).to.equal(2)
+            expect(mgetSpy).to.have.been.called.once
+            expect(mgetSpy).to.have.been.called.with([
+                `${FIRST_CACHE_NAME}::${KEYS[1]}`,
+                `${FIRST_CACHE_NAME}::${KEYS[2]}`,
+            ])
+        })
+
+        it('Should save values of different types in one pipeline', async () => {
+            // Arrange
+            const OBJ = { name: 'Gennova', age: 55 }
+            const engine = cache['_engine']
+            const batchSpy = chai.spy.on(engine, 'batch')
+
+            // Act
+            await cache.setMany({
+                [KEYS[0]]: 123,
+                [KEYS[1]]: ['a', 'b'],
+                [KEYS[2]]: OBJ,
+            }, { duration: 10 })
+
+            // Assert
+            expect(batchSpy).to.have.been.called.once
+            const primitive = await cache.getPrimitive(KEYS[0])
+            const arr = await cache.getArray(KEYS[1])
+            const objects = await cache.getManyObjects([KEYS[2], NON_EXIST_KEY])
+            expect(primitive.value).to.equal(123)
+            expect(arr.value).to.deep.equal(['a', 'b'])
+            expect(objects[0].value).to.deep.equal(OBJ)
+            expect(objects[1].isJust).to.be.false
+        })
+
+        it('Should delete many keys both locally and remotely', async () => {
+            // Arrange
+            await cache.setMany({
+                [KEYS[0]]: 1,
+                [KEYS[1]]: 2,
+                [KEYS[2]]: 3,
+            }, { level: CacheLevel.BOTH })
+
+            // Act
+            await cache.deleteMany([KEYS[0], KEYS[1]])
+
+            // Assert
+            const results = await cache.getManyPrimitives(KEYS, { forceRemote: true })
+            expect(results.map(r => r.isJust)).to.deep.equal([false, false, true])
+            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEYS[0]}`]).not.to.exist
+        })
+    }) // describe 'batch operations'
+
+    describe('getOrSet', () => {
+        it('Should invoke loader once for concurrent misses and save the result', async () => {
+            // Arrange
+            let calls = 0
+            const loader = async () => {
+                ++calls
+                await new Promise(resolve => setTimeout(resolve, 10))
+                return 'loaded'
+            }
+
+            // Act
+            const values = await Promise.all([
+                cache.getOrSet(KEY, loader),
+                cache.getOrSet(KEY, loader),
+            ])
+
+            // Assert
+            expect(calls).to.equal(1)
+            expect(values).to.deep.equal(['loaded', 'loaded'])
+            const refetch = await cache.getPrimitive(KEY)
+            expect(refetch.value).to.equal('loaded')
+        })
+
+        it('Should let only one instance invoke loader when using lock', async () => {
+            // Arrange
+            const secondCache = new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                    },
+                })
+            let calls = 0
+            const loader = async () => {
+                ++calls
+                await new Promise(resolve => setTimeout(resolve, 100))
+                return ['a', 'b']
+            }
+            const opts = {
+                valueType: CacheValueType.ARRAY,
+                lock: { ttl: 1000 },
+            }
+
+            try {
+                // Act
+                const values = await Promise.all([
+                    cache.getOrSet(KEY, loader, opts),
+                    secondCache.getOrSet(KEY, loader, opts),
+                ])
+
+                // Assert
+                expect(calls).to.equal(1)
+                expect(values).to.deep.equal([['a', 'b'], ['a', 'b']])
+                const lock = await cache.getPrimitive(`${FIRST_CACHE_NAME}::${KEY}::@lock`, { isGlobal: true })
+                expect(lock.isJust).to.be.false
+            }
+            finally {
+                await secondCache.dispose()
+            }
+        })
+
+        it('Should serve stale value while another instance is loading', async () => {
+            // Arrange
+            const REAL_KEY = `${FIRST_CACHE_NAME}::${KEY}`
+            await cache.setPrimitive(`${REAL_KEY}::@stale`, 'stale', { isGlobal: true })
+            await cache.setPrimitive(`${REAL_KEY}::@lock`, 'other-token', { isGlobal: true, duration: 1 })
+            let calls = 0
+
+            try {
+                // Act
+                const value = await cache.getOrSet(KEY, async () => {
+                    ++calls
+                    return 'fresh'
+                }, {
+                    duration: 10,
+                    lock: { ttl: 1000, staleDuration: 10 },
+                })
+
+                // Assert
+                expect(value).to.equal('stale')
+                expect(calls).to.equal(0)
+            }
+            finally {
+                await cache.delete(`${REAL_KEY}::@stale`, { isGlobal: true })
+                await cache.delete(`${REAL_KEY}::@lock`, { isGlobal: true })
+            }
+        })
+
+        it('Should not cache null result', async () => {
+            // Act
+            const value = await cache.getOrSet(KEY, async () => null)
+
+            // Assert
+            expect(value).to.be.null
+            const refetch = await cache.getPrimitive(KEY)
+            expect(refetch.isJust).to.be.false
+        })
+    }) // describe 'getOrSet'
+
+    describe('acquireLock', () => {
+        it('Should not let another instance acquire a held lock', async () => {
+            // Arrange
+            const secondCache = new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                    },
+                })
+            const first = await cache.acquireLock(KEY, { ttl: 1000 })
+
+            try {
+                // Act
+                const second = await secondCache.acquireLock(KEY, { ttl: 1000 })
+
+                // Assert
+                expect(first.isJust).to.be.true
+                expect(second.isJust).to.be.false
+            }
+            finally {
+                await first.value.release()
+                await secondCache.dispose()
+            }
+        })
+
+        it('Should only release lock owned by the same token', async () => {
+            // Arrange
+            const first = (await cache.acquireLock(KEY, { ttl: 50 })).value
+            await new Promise(resolve => setTimeout(resolve, 100))
+            const second = (await cache.acquireLock(KEY, { ttl: 1000 })).value
+
+            // Act
+            const firstReleased = await first.release()
+            const firstExtended = await first.extend(1000)
+
+            // Assert
+            expect(firstReleased).to.be.false
+            expect(firstExtended).to.be.false
+            expect(await second.extend(1000)).to.be.true
+            expect(await second.release()).to.be.true
+        })
+
+        it('Should fall back to process-local lock without remote service', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                })
+            const first = await localCache.acquireLock(KEY, { ttl: 1000 })
+
+            // Act
+            const second = await localCache.acquireLock(KEY, { ttl: 1000 })
+
+            // Assert
+            expect(first.isJust).to.be.true
+            expect(second.isJust).to.be.false
+            await localCache.dispose()
+        })
+    }) // describe 'acquireLock'
+
+    describe('invalidateTags', () => {
+        it('Should delete tagged values and the tag set in remote cache', async () => {
+            // Arrange
+            await cache.setPrimitive(KEY + '1', 'a', { tags: ['user:1'] })
+            await cache.setObject(KEY + '2', { name: 'b' }, { tags: ['user:1'] })
+            await cache.setPrimitive(KEY + '3', 'c')
+            const engine = cache['_engine']
+
+            // Act
+            await cache.invalidateTags(['user:1'])
+
+            // Assert
+            expect((await cache.getPrimitive(KEY + '1')).isJust).to.be.false
+            expect((await cache.getObject(KEY + '2')).isJust).to.be.false
+            expect((await cache.getPrimitive(KEY + '3')).value).to.equal('c')
+            expect(await engine.existsAsync(`${FIRST_CACHE_NAME}::@tag::user:1`)).to.equal(0)
+            await cache.delete(KEY + '3')
+        })
+
+        it('Should delete tagged values in both local and remote cache', async () => {
+            // Arrange
+            await cache.setPrimitive(KEY, 'a', { tags: ['user:1'], level: CacheLevel.BOTH })
+
+            // Act
+            await cache.invalidateTags(['user:1'])
+
+            // Assert
+            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
+            expect((await cache.getPrimitive(KEY, { forceRemote: true })).isJust).to.be.false
+        })
+
+        it('Should delete tagged values saved by another instance', async () => {
+            // Arrange
+            const secondCache = new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                    },
+                })
+            await secondCache.setPrimitive(KEY, 'a', { tags: ['user:1'] })
+
+            try {
+                // Act
+                await cache.invalidateTags(['user:1'])
+
+                // Assert
+                expect((await secondCache.getPrimitive(KEY)).isJust).to.be.false
+            }
+            finally {
+                await secondCache.dispose()
+            }
+        })
+
+        it('Should remove deleted keys from the tag set in remote cache', async () => {
+            // Arrange
+            await cache.setPrimitive(KEY + '1', 'a', { tags: ['user:1'] })
+            await cache.setPrimitive(KEY + '2', 'b', { tags: ['user:1'] })
+            await cache.setPrimitive(KEY + '3', 'c', { tags: ['user:1'] })
+            const engine = cache['_engine']
+
+            // Act
+            await cache.delete(KEY + '1')
+            await cache.deleteMany([KEY + '2'])
+
+            // Assert
+            expect(await engine.smembersAsync(`${FIRST_CACHE_NAME}::@tag::user:1`))
+                .to.deep.equal([`${FIRST_CACHE_NAME}::${KEY}3`])
+            expect(await engine.existsAsync(`${FIRST_CACHE_NAME}::${KEY}1::@tags`)).to.equal(0)
+            await cache.invalidateTags(['user:1'])
+        })
+
+        it('Should expire the tag set in remote cache no sooner than its values', async () => {
+            // Arrange
+            const engine = cache['_engine']
+            const tagKey = `${FIRST_CACHE_NAME}::@tag::user:1`
+
+            // Act
+            await cache.setPrimitive(KEY + '1', 'a', { tags: ['user:1'], duration: 100 })
+            const firstTtl = await engine.ttlAsync(tagKey)
+            await cache.setPrimitive(KEY + '2', 'b', { tags: ['user:1'], duration: 10 })
+            const secondTtl = await engine.ttlAsync(tagKey)
+            await cache.setPrimitive(KEY + '3', 'c', { tags: ['user:1'] })
+            const thirdTtl = await engine.ttlAsync(tagKey)
+
+            // Assert
+            expect(firstTtl).to.be.within(90, 100)
+            expect(secondTtl).to.be.within(90, 100)
+            expect(thirdTtl).to.equal(-1)
+            await cache.invalidateTags(['user:1'])
+        })
+    }) // describe 'invalidateTags'
+
+    describe('increment', () => {
+        const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+        it('Should count in remote cache starting from zero', async () => {
+            // Act
+            const first = await cache.increment(KEY)
+            const second = await cache.increment(KEY, 5)
+            const third = await cache.decrement(KEY, 2)
+
+            // Assert
+            expect([first, second, third]).to.deep.equal([1, 6, 4])
+            expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
+            const refetch = await cache.getPrimitive(KEY, { forceRemote: true })
+            expect(refetch.value).to.equal(4)
+        })
+
+        it('Should support float steps, then integer steps on a float counter', async () => {
+            // Act
+            await cache.increment(KEY, 1.5)
+            await cache.decrement(KEY, 0.25)
+            const value = await cache.increment(KEY, 2)
+
+            // Assert
+            expect(value).to.equal(3.25)
+            expect((await cache.getPrimitive(KEY, { forceRemote: true })).value).to.equal(3.25)
+        })
+
+        it('Should not prepend service slug to global counters', async () => {
+            // Arrange
+            const secondCache = new RedisCacheProvider({
+                    name: SECOND_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                    },
+                })
+
+            try {
+                // Act
+                await cache.increment(KEY, 1, { isGlobal: true })
+                const value = await secondCache.increment(KEY, 1, { isGlobal: true })
+
+                // Assert
+                expect(value).to.equal(2)
+                expect((await cache.getPrimitive(KEY)).isJust).to.be.false
+            }
+            finally {
+                await cache.delete(KEY, { isGlobal: true })
+                await secondCache.dispose()
+            }
+        })
+
+        it('Should set expiration only when the remote counter is created', async () => {
+            // Act
+            await cache.increment(KEY, 1, { duration: 1 })
+            await delay(600)
+            await cache.increment(KEY, 1, { duration: 1 })
+            await delay(600)
+
+            // Assert
+            expect((await cache.getPrimitive(KEY, { forceRemote: true })).isJust).to.be.false
+        })
+
+        it('Should keep local value in sync with remote counter', async () => {
+            // Arrange
+            const secondCache = new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                    },
+                })
+
+            try {
+                // Act
+                await cache.increment(KEY, 1, { level: CacheLevel.BOTH })
+                await secondCache.increment(KEY, 2)
+                await delay(100)
+
+                // Assert
+                expect(cache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).to.equal(3)
+                expect((await cache.getPrimitive(KEY)).value).to.equal(3)
+            }
+            finally {
+                await secondCache.dispose()
+            }
+        })
+
+        it('Should count in local cache only', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({ name: LOCAL_CACHE_NAME })
+
+            // Act
+            await localCache.increment(KEY, 2, { level: CacheLevel.LOCAL })
+            const value = await localCache.decrement(KEY, 0.5, { level: CacheLevel.LOCAL })
+
+            // Assert
+            expect(value).to.equal(1.5)
+            expect((await localCache.getPrimitive(KEY)).value).to.equal(1.5)
+            await localCache.dispose()
+        })
+
+        it('Should add to a number previously saved in local cache', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({ name: LOCAL_CACHE_NAME })
+            await localCache.setPrimitive(KEY, '10')
+
+            // Act
+            const value = await localCache.increment(KEY)
+
+            // Assert
+            expect(value).to.equal(11)
+            await localCache.dispose()
+        })
+
+        it('Should set expiration only when the local counter is created', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({ name: LOCAL_CACHE_NAME })
+
+            // Act
+            await localCache.increment(KEY, 1, { duration: 0.1 })
+            await delay(60)
+            await localCache.increment(KEY, 1, { duration: 0.1 })
+            await delay(60)
+
+            // Assert
+            expect((await localCache.getPrimitive(KEY)).isJust).to.be.false
+            await localCache.dispose()
+        })
+
+        it('Should reject if the local value is not a number', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({ name: LOCAL_CACHE_NAME })
+            await localCache.setPrimitive(KEY, 'abc')
+            let exception: any
+
+            // Act
+            try {
+                await localCache.increment(KEY)
+            } catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(MinorException)
+            expect((await localCache.getPrimitive(KEY)).value).to.equal('abc')
+            await localCache.dispose()
+        })
+
+        it('Should not allow a step which is not a finite number', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({ name: LOCAL_CACHE_NAME })
+            let exception: any
+
+            // Act
+            try {
+                await localCache.increment(KEY, NaN)
+            } catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(InvalidArgumentException)
+            expect((await localCache.getPrimitive(KEY)).isJust).to.be.false
+            await localCache.dispose()
+        })
+    }) // describe 'increment'
+
+    describe('stats', () => {
+        it('Should count local hits, misses, sets and deletes', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                })
+            await localCache.setPrimitive(KEY, 'a')
+            await localCache.setMany({ [KEY + '1']: 1, [KEY + '2']: 2 })
+
+            // Act
+            await localCache.getPrimitive(KEY)
+            await localCache.getPrimitive(NON_EXIST_KEY)
+            await localCache.getManyPrimitives([KEY + '1', NON_EXIST_KEY])
+            await localCache.delete(KEY)
+
+            // Assert
+            const stats = localCache.getStats()
+            expect(stats.localHits).to.equal(2)
+            expect(stats.remoteHits).to.equal(0)
+            expect(stats.misses).to.equal(2)
+            expect(stats.sets).to.equal(3)
+            expect(stats.deletes).to.equal(1)
+            expect(stats.latencies['getPrimitive'].count).to.equal(2)
+            expect(stats.latencies['setMany'].count).to.equal(1)
+            await localCache.dispose()
+        })
+
+        it('Should count remote hits', async () => {
+            // Arrange
+            await cache.setPrimitive(KEY, 'a')
+
+            // Act
+            await cache.getPrimitive(KEY)
+            await cache.getObject(NON_EXIST_KEY)
+
+            // Assert
+            const stats = cache.getStats()
+            expect(stats.remoteHits).to.equal(1)
+            expect(stats.misses).to.equal(1)
+            expect(stats.latencies['getObject'].count).to.equal(1)
+        })
+
+        it('Should count failed operations as errors', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                })
+
+            // Act
+            await localCache.getPrimitive(null).catch(() => { /* Expected */ })
+
+            // Assert
+            expect(localCache.getStats().errors).to.equal(1)
+            await localCache.dispose()
+        })
+
+        it('Should clear statistics on reset', async () => {
+            // Arrange
+            await cache.getPrimitive(NON_EXIST_KEY)
+
+            // Act
+            cache.resetStats()
+
+            // Assert
+            const stats = cache.getStats()
+            expect(stats.misses).to.equal(0)
+            expect(stats.latencies).to.be.empty
+        })
+    }) // describe 'stats'
+
+    describe('events', () => {
+        it('Should emit hit, miss, set and delete events', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                })
+            const received: [CacheEvent, CacheEventArgs][] = []
+            for (const event of [CacheEvent.HIT, CacheEvent.MISS, CacheEvent.SET, CacheEvent.DELETE]) {
+                localCache.on(event, (args: CacheEventArgs) => received.push([event, args]))
+            }
+
+            // Act
+            await localCache.setPrimitive(KEY, 'a')
+            await localCache.getPrimitive(KEY)
+            await localCache.getPrimitive(NON_EXIST_KEY)
+            await localCache.delete(KEY)
+
+            // Assert
+            expect(received.map(([event]) => event)).to.deep.equal([
+                CacheEvent.SET, CacheEvent.HIT, CacheEvent.MISS, CacheEvent.DELETE,
+            ])
+            const [, hitArgs] = received[1]
+            expect(hitArgs.key).to.equal(`${LOCAL_CACHE_NAME}::${KEY}`)
+            expect(hitArgs.level).to.equal(CacheLevel.LOCAL)
+            expect(hitArgs.operation).to.equal('getPrimitive')
+            expect(hitArgs.elapsed).to.be.a('number')
+            await localCache.dispose()
+        })
+
+        it('Should emit error and release the key if a synced value cannot be decoded', async () => {
+            // Arrange
+            const syncCache = new RedisCacheProvider({
+                    name: SECOND_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                        port: UNREACHABLE_PORT,
+                    },
+                    circuitBreaker: {},
+                })
+            const sub = syncCache['_createKeyspaceSubscriber'](syncCache['_engine'])
+            const realKey = `${SECOND_CACHE_NAME}::${KEY}`
+            chai.spy.on(syncCache, '_fetchPrimitive', () => Promise.reject(new SyntaxError('Unexpected token')))
+            const listener = chai.spy()
+            syncCache.on(CacheEvent.ERROR, listener)
+
+            // Act
+            sub.emit('message', `${syncCache['_eventPrefix']}${realKey}`, 'set')
+            await new Promise(resolve => setTimeout(resolve, 10))
+
+            // Assert
+            expect(listener).to.have.been.called.once
+            expect(syncCache['_cacheLocks'][realKey]).not.to.exist
+            await syncCache.dispose(100)
+        })
+
+        it('Should emit expire event when a LOCAL key expires', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                })
+            const listener = chai.spy()
+            localCache.on(CacheEvent.EXPIRE, listener)
+
+            // Act
+            await localCache.setPrimitive(KEY, 'a', { duration: 0.05 })
+            await new Promise(resolve => setTimeout(resolve, 100))
+
+            // Assert
+            expect(listener).to.have.been.called.once
+            expect(listener).to.have.been.called.with.exactly({ key: `${LOCAL_CACHE_NAME}::${KEY}`, level: CacheLevel.LOCAL })
+            await localCache.dispose()
+        })
+
+        it('Should emit evict event when exceeding max entries', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                    localStore: { maxEntries: 1 },
+                })
+            const listener = chai.spy()
+            localCache.on(CacheEvent.EVICT, listener)
+
+            // Act
+            await localCache.setPrimitive(KEY + '1', 1)
+            await localCache.setPrimitive(KEY + '2', 2)
+
+            // Assert
+            expect(listener).to.have.been.called.once
+            expect(listener).to.have.been.called.with.exactly({ key: `${LOCAL_CACHE_NAME}::${KEY}1`, level: CacheLevel.LOCAL })
+            await localCache.dispose()
+        })
+
+        it('Should emit error event when an operation fails', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                })
+            let args: CacheEventArgs
+            localCache.on(CacheEvent.ERROR, (a: CacheEventArgs) => args = a)
+
+            // Act
+            await localCache.getPrimitive(null).catch(() => { /* Expected */ })
+
+            // Assert
+            expect(args.operation).to.equal('getPrimitive')
+            expect(args.error).to.be.instanceOf(InvalidArgumentException)
+            await localCache.dispose()
+        })
+
+        it('Should not break operations if a listener throws', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                })
+            localCache.on(CacheEvent.SET, () => { throw new Error('Listener error') })
+
+            // Act
+            await localCache.setPrimitive(KEY, 'a')
+
+            // Assert
+            const value = await localCache.getPrimitive(KEY)
+            expect(value.value).to.equal('a')
+            await localCache.dispose()
+        })
+    }) // describe 'events'
+
+    describe('circuit breaker', () => {
+        let failOpenCache: RedisCacheProvider
+
+        beforeEach(() => {
+            failOpenCache = new RedisCacheProvider({
+                name: SECOND_CACHE_NAME,
+                single: {
+                    host: 'localhost',
+                    port: UNREACHABLE_PORT,
+                },
+                circuitBreaker: {
+                    failureThreshold: 2,
+                    resetTimeout: 1000,
+                    operationTimeout: 50,
+                    fallbackDuration: 1,
+                },
+            })
+        })
+
+        const openCircuit = async () => {
+            await failOpenCache.getPrimitive(KEY)
+            await failOpenCache.getPrimitive(KEY)
+            expect(failOpenCache.circuitState).to.equal(CircuitState.OPEN)
+        }
+
+        const closeCircuit = () => failOpenCache['_breaker']['_changeState'](CircuitState.CLOSED)
+
+        afterEach(async () => {
+            await failOpenCache.dispose()
+            failOpenCache = null
+        })
+
+        it('Should treat failed reads as not found', async () => {
+            // Arrange
+            const listener = chai.spy()
+            failOpenCache.on(CacheEvent.ERROR, listener)
+
+            // Act
+            const value = await failOpenCache.getPrimitive(KEY)
+
+            // Assert
+            expect(value.isNothing).to.be.true
+            expect(listener).to.have.been.called.once
+            expect(failOpenCache.circuitState).to.equal(CircuitState.CLOSED)
+        })
+
+        it('Should save to local cache only if remote write fails', async () => {
+            // Arrange
+            let args: CacheEventArgs
+            failOpenCache.on(CacheEvent.SET, (a: CacheEventArgs) => args = a)
+
+            // Act
+            await failOpenCache.setPrimitive(KEY, 'a', { level: CacheLevel.REMOTE })
+
+            // Assert
+            expect(failOpenCache['_localCache'][`${SECOND_CACHE_NAME}::${KEY}`]).to.equal('a')
+            expect(args.level).to.equal(CacheLevel.LOCAL)
+        })
+
+        it('Should count in local cache only if remote increment fails', async () => {
+            // Act
+            await failOpenCache.increment(KEY, 1, { level: CacheLevel.REMOTE })
+            const value = await failOpenCache.increment(KEY, 1, { level: CacheLevel.REMOTE })
+
+            // Assert
+            expect(value).to.equal(2)
+            expect(failOpenCache['_localCache'][`${SECOND_CACHE_NAME}::${KEY}`]).to.equal(2)
+        })
+
+        it('Should open circuit and skip remote cache after too many failures', async () => {
+            // Arrange
+            const listener = chai.spy()
+            failOpenCache.on(CacheEvent.CIRCUIT_CHANGE, listener)
+            await failOpenCache.getObject(KEY)
+            await failOpenCache.getObject(KEY)
+            const startedAt = Date.now()
+
+            // Act
+            await failOpenCache.setObject(KEY, { name: 'a' })
+            const value = await failOpenCache.getObject(KEY, { forceRemote: true })
+
+            // Assert
+            expect(Date.now() - startedAt).to.be.lessThan(50)
+            expect(value.value).to.deep.equal({ name: 'a' })
+            expect(failOpenCache.circuitState).to.equal(CircuitState.OPEN)
+            expect(listener).to.have.been.called.once
+        })
+
+        it('Should keep values saved to local cache only for fallback duration', async () => {
+            // Arrange
+            const realKey = `${SECOND_CACHE_NAME}::${KEY}`
+            await failOpenCache.setPrimitive(KEY, 'a', { duration: 100, level: CacheLevel.REMOTE })
+            expect(failOpenCache['_localCache'][realKey]).to.equal('a')
+
+            // Act
+            await new Promise(resolve => setTimeout(resolve, 1100))
+
+            // Assert
+            expect(failOpenCache['_localCache'].hasOwnProperty(realKey)).to.be.false
+        })
+
+        it('Should remove values saved to local cache only once the circuit is closed', async () => {
+            // Arrange
+            const realKey = `${SECOND_CACHE_NAME}::${KEY}`
+            await openCircuit()
+            await failOpenCache.setPrimitive(KEY, 'a', { level: CacheLevel.REMOTE })
+            await failOpenCache.setPrimitive('KEPT', 'b', { level: CacheLevel.LOCAL })
+            expect(failOpenCache['_engine'].enable_offline_queue).to.be.false
+
+            // Act
+            closeCircuit()
+
+            // Assert
+            expect(failOpenCache['_localCache'].hasOwnProperty(realKey)).to.be.false
+            expect(failOpenCache['_localCache'][`${SECOND_CACHE_NAME}::KEPT`]).to.equal('b')
+            expect(failOpenCache['_engine'].enable_offline_queue).to.be.true
+        })
+
+        it('Should retry skipped remote deletions once the circuit is closed', async () => {
+            // Arrange
+            const removeSpy = chai.spy.on(failOpenCache, '_deleteRemote', () => Promise.resolve())
+            await openCircuit()
+            await failOpenCache.delete(KEY)
+            await failOpenCache.deleteMany([KEY, 'OTHER'])
+            expect(removeSpy).not.to.have.been.called()
+
+            // Act
+            closeCircuit()
+            await failOpenCache.deadLetter()
+
+            // Assert
+            expect(removeSpy).to.have.been.called.twice
+            expect(removeSpy).to.have.been.called.with([`${SECOND_CACHE_NAME}::${KEY}`])
+            expect(removeSpy).to.have.been.called.with([`${SECOND_CACHE_NAME}::OTHER`])
+            expect(failOpenCache['_queuedDeletes'].size).to.equal(0)
+        })
+    }) // describe 'circuit breaker'
+
+    describe('waitUntilReady', () => {
+        it('Should resolve when connected to cache service', async () => {
+            // Act
+            await cache.waitUntilReady(1000)
+
+            // Assert
+            expect(cache['_engine'].ready).to.be.true
+        })
+
+        it('Should resolve immediately without remote cache service', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                })
+
+            // Act
+            await localCache.waitUntilReady(1)
+
+            // Assert
+            expect(localCache['_engine']).not.to.exist
+            await localCache.dispose()
+        })
+
+        it('Should reject if cache service is not ready within timeout', async () => {
+            // Arrange
+            const unreachableCache = new RedisCacheProvider({
+                    name: SECOND_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                        port: UNREACHABLE_PORT,
+                    },
+                })
+
+            // Act
+            let exception: MinorException
+            try {
+                await unreachableCache.waitUntilReady(100)
+            }
+            catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(MinorException)
+            expect(exception.message).to.contain('ECONNREFUSED')
+            // Stop reconnecting
+            unreachableCache['_engine'].end(false)
+        })
+
+        it('Should not crash on connection errors after timeout', async () => {
+            // Arrange
+            const unreachableCache = new RedisCacheProvider({
+                    name: SECOND_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                        port: UNREACHABLE_PORT,
+                    },
+                })
+            await unreachableCache.waitUntilReady(100).catch(() => null)
+
+            // Act
+            // Reconnection errors would be thrown as uncaught exceptions without listener
+            await new Promise(resolve => setTimeout(resolve, 1000))
+
+            // Assert
+            expect(unreachableCache['_engine'].listenerCount('error')).to.equal(1)
+            // Stop reconnecting
+            unreachableCache['_engine'].end(false)
+        })
+    }) // describe 'waitUntilReady'
+
+    describe('healthCheck', () => {
+        it('Should report ping latency and connection state', async () => {
+            // Arrange
+            await cache.setPrimitive(KEY, 'a', { level: CacheLevel.BOTH })
+
+            // Act
+            const health = await cache.healthCheck()
+
+            // Assert
+            expect(health.isHealthy).to.be.true
+            expect(health.pingLatency).to.be.a('number')
+            expect(health.nodes).to.deep.equal([{ address: 'localhost:6379', isConnected: true }])
+            expect(health.subscriber).to.deep.equal({ isConnected: true, syncedKeys: 1 })
+            expect(health.circuitState).to.equal(CircuitState.CLOSED)
+        })
+
+        it('Should report healthy without remote cache service', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                })
+
+            // Act
+            const health = await localCache.healthCheck()
+
+            // Assert
+            expect(health.isHealthy).to.be.true
+            expect(health.nodes).to.be.empty
+            expect(health.subscriber).not.to.exist
+            await localCache.dispose()
+        })
+
+        it('Should report unhealthy if cache service does not reply PING', async () => {
+            // Arrange
+            const unreachableCache = new RedisCacheProvider({
+                    name: SECOND_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                        port: UNREACHABLE_PORT,
+                    },
+                    circuitBreaker: {},
+                })
+
+            // Act
+            const health = await unreachableCache.healthCheck(50)
+
+            // Assert
+            expect(health.isHealthy).to.be.false
+            expect(health.error).to.contain('PING')
+            expect(health.nodes).to.deep.equal([{ address: `localhost:${UNREACHABLE_PORT}`, isConnected: false }])
+            await unreachableCache.dispose()
+        })
+    }) // describe 'healthCheck'
+
+    describe('deadLetter', () => {
+        it('Should wait for writes in progress', async () => {
+            // Arrange
+            const failOpenCache = new RedisCacheProvider({
+                    name: SECOND_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                        port: UNREACHABLE_PORT,
+                    },
+                    circuitBreaker: { operationTimeout: 50 },
+                })
+            const writing = failOpenCache.setPrimitive(KEY, 'a', { level: CacheLevel.REMOTE })
+
+            // Act
+            await failOpenCache.deadLetter()
+
+            // Assert
+            expect(failOpenCache['_pendingWrites'].size).to.equal(0)
+            expect(failOpenCache['_localCache'][`${SECOND_CACHE_NAME}::${KEY}`]).to.equal('a')
+            await writing
+            await failOpenCache.dispose()
+        })
+
+        it('Should stop waiting for writes in progress after timeout', async () => {
+            // Arrange
+            const failOpenCache = new RedisCacheProvider({
+                    name: SECOND_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                        port: UNREACHABLE_PORT,
+                    },
+                    circuitBreaker: { operationTimeout: 1000 },
+                })
+            const writing = failOpenCache.setPrimitive(KEY, 'a', { level: CacheLevel.REMOTE })
+
+            // Act
+            await failOpenCache.deadLetter(50)
+
+            // Assert
+            expect(failOpenCache['_pendingWrites'].size).to.equal(1)
+            await writing
+            await failOpenCache.dispose()
+        })
+
+        it('Should not keep values saved afterwards in sync', async () => {
+            // Arrange
+            await cache.deadLetter()
+
+            // Act
+            await cache.setPrimitive(KEY, 'a', { level: CacheLevel.BOTH })
+
+            // Assert
+            expect(cache['_syncKeys'].has(`${FIRST_CACHE_NAME}::${KEY}`)).to.be.false
+            expect(cache['_engineSub']).not.to.exist
+        })
+    }) // describe 'deadLetter'
+
+    describe('dispose', () => {
+        it('Should clear local expiration timers', async () => {
+            // Arrange
+            const localCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                })
+            const listener = chai.spy()
+            localCache.on(CacheEvent.EXPIRE, listener)
+            await localCache.setPrimitive(KEY, 'a', { duration: 0.05 })
+
+            // Act
+            await localCache.dispose()
+            await new Promise(resolve => setTimeout(resolve, 100))
+
+            // Assert
+            expect(listener).not.to.have.been.called()
+        })
+
+        it('Should unsubscribe from all channels', async () => {
+            // Arrange
+            const syncedCache = new RedisCacheProvider({
+                    name: SECOND_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                    },
+                })
+            await syncedCache.setPrimitive(KEY, 'a', { level: CacheLevel.BOTH, duration: 1 })
+            const sub = syncedCache['_engineSub']
+            const unsubscribeSpy = chai.spy.on(sub, 'unsubscribeAsync')
+
+            // Act
+            await syncedCache.dispose()
+
+            // Assert
+            expect(unsubscribeSpy).to.have.been.called.once
+            expect(sub.subscription_set).to.be.empty
+        })
+    }) // describe 'dispose'
+
+    describe('local store limits', () => {
+        it('Should evict least recently used LOCAL keys when exceeding max entries', async () => {
+            // Arrange
+            const testCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                    localStore: {
+                        maxEntries: 2,
+                        eviction: EvictionPolicy.LRU,
+                    },
+                })
+            await testCache.setPrimitive('ONE', 1, { level: CacheLevel.LOCAL, duration: 10 })
+            await testCache.setPrimitive('TWO', 2, { level: CacheLevel.LOCAL })
+            await testCache.getPrimitive('TWO')
+
+            // Act
+            await testCache.setPrimitive('THREE', 3, { level: CacheLevel.LOCAL })
+
+            // Assert
+            const one = await testCache.getPrimitive('ONE')
+            const two = await testCache.getPrimitive('TWO')
+            expect(one.isJust).to.be.false
+            expect(two.isJust).to.be.true
+            expect(testCache['_cacheExps'][`${LOCAL_CACHE_NAME}::ONE`]).not.to.exist
+            await testCache.dispose()
+        })
+
+        it('Should clean up expiration and tags of the key evicted by the next write', async () => {
+            // Arrange
+            const testCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                    localStore: {
+                        maxEntries: 1,
+                    },
+                })
+            await testCache.setPrimitive('ONE', 1, { level: CacheLevel.LOCAL, duration: 10, tags: ['numbers'] })
+
+            // Act
+            await testCache.setPrimitive('TWO', 2, { level: CacheLevel.LOCAL, duration: 10, tags: ['numbers'] })
+
+            // Assert
+            expect(testCache['_localCache'][`${LOCAL_CACHE_NAME}::ONE`]).not.to.exist
+            expect(testCache['_cacheExps'][`${LOCAL_CACHE_NAME}::ONE`]).not.to.exist
+            expect(testCache['_cacheExps'][`${LOCAL_CACHE_NAME}::TWO`]).to.exist
+            expect(testCache['_localTags'].take(`${LOCAL_CACHE_NAME}::@tag::numbers`))
+                .to.deep.equal([`${LOCAL_CACHE_NAME}::TWO`])
+            await testCache.dispose()
+        })
+
+        it('Should not set expiration or tags for a key evicted right after written', async () => {
+            // Arrange
+            const testCache = new RedisCacheProvider({
+                    name: LOCAL_CACHE_NAME,
+                    localStore: {
+                        maxBytes: 10,
+                    },
+                })
+
+            // Act
+            await testCache.setPrimitive('BIG', 'x'.repeat(40), { level: CacheLevel.LOCAL, duration: 10, tags: ['big'] })
+
+            // Assert
+            expect(testCache['_localCache'][`${LOCAL_CACHE_NAME}::BIG`]).not.to.exist
+            expect(testCache['_cacheExps'][`${LOCAL_CACHE_NAME}::BIG`]).not.to.exist
+            expect(testCache['_localTags'].take(`${LOCAL_CACHE_NAME}::@tag::big`)).to.be.empty
+            await testCache.dispose()
+        })
+
+        it('Should not keep in sync a key evicted right after written', async () => {
+            // Arrange
+            const testCache = new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                    },
+                    localStore: {
+                        maxBytes: 10,
+                    },
+                })
+            const syncOnSpy = chai.spy.on(testCache, '_syncOn')
+
+            try {
+                // Act
+                await testCache.setPrimitive(KEY, 'x'.repeat(40), { level: CacheLevel.BOTH })
+
+                // Assert
+                expect(testCache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
+                expect(syncOnSpy).not.to.have.been.called()
+                expect(testCache['_syncKeys'].size).to.equal(0)
+            }
+            finally {
+                await testCache.delete(KEY)
+                await testCache.dispose()
+            }
+        })
+
+        it('Should evict keys and stop syncing them when exceeding max bytes', async () => {
+            // Arrange
+            const testCache = new RedisCacheProvider({
+                    name: FIRST_CACHE_NAME,
+                    single: {
+                        host: 'localhost',
+                    },
+                    localStore: {
+                        maxBytes: 100,
+                    },
+                })
+            const bigValue = 'x'.repeat(40) // About 80 bytes
+            await testCache.setPrimitive(KEY, bigValue, { level: CacheLevel.BOTH })
+            const syncOffSpy = chai.spy.on(testCache, '_syncOff')
+
+            try {
+                // Act
+                await testCache.setPrimitive(KEY + '2', bigValue, { level: CacheLevel.BOTH })
+
+                // Assert
+                expect(testCache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}`]).not.to.exist
+                expect(testCache['_localCache'][`${FIRST_CACHE_NAME}::${KEY}2`]).to.equal(bigValue)
+                expect(syncOffSpy).to.have.been.called.with(`${FIRST_CACHE_NAME}::${KEY}`)
+            }
+            finally {
+                await testCache.delete(KEY)
+                await testCache.delete(KEY + '2')
+                await testCache.dispose()
+            }
+        })
+    }) // describe 'local store limits'
+})
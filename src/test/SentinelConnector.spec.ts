@@ -0,0 +1,72 @@
+import { EventEmitter } from 'events'
+import { expect } from 'chai'
+import { MinorException } from '@micro-fleet/common'
+
+import { SentinelConnector } from '../app/SentinelConnector'
+import { CacheConnectionDetail } from '../app'
+
+
+const MASTER_NAME = 'mymaster'
+
+class MockWatcher extends EventEmitter {
+    public subscribe(channel: string) {
+        // Empty
+    }
+
+    public quit(callback: Function) {
+        callback(null, 'OK')
+    }
+}
+
+describe('SentinelConnector', function () {
+    this.timeout(5000)
+
+    describe('resolveMaster', () => {
+        it('Should reject if no sentinel is reachable', async () => {
+            // Arrange
+            const connector = new SentinelConnector({
+                masterName: MASTER_NAME,
+                sentinels: [
+                    { host: '127.0.0.1', port: 1 },
+                ],
+            })
+            let exception: any
+
+            // Act
+            try {
+                await connector.resolveMaster()
+            } catch (err) {
+                exception = err
+            }
+
+            // Assert
+            expect(exception).to.be.instanceOf(MinorException)
+        })
+    }) // describe 'resolveMaster'
+
+    describe('watch', () => {
+        it('Should notify when watched master is switched', async () => {
+            // Arrange
+            const connector = new SentinelConnector({
+                masterName: MASTER_NAME,
+                sentinels: [
+                    { host: '127.0.0.1' },
+                ],
+            })
+            const watcher = new MockWatcher()
+            connector['_connect'] = () => watcher as any
+            const switches: CacheConnectionDetail[] = []
+
+            // Act
+            connector.watch(master => switches.push(master))
+            watcher.emit('message', '+switch-master', `${MASTER_NAME} 127.0.0.1 6379 127.0.0.2 6380`)
+            watcher.emit('message', '+switch-master', 'othermaster 127.0.0.1 6379 127.0.0.3 6381')
+
+            // Assert
+            expect(switches).to.deep.equal([
+                { host: '127.0.0.2', port: 6380 },
+            ])
+            await connector.dispose()
+        })
+    }) // describe 'watch'
+})
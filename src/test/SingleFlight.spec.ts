@@ -0,0 +1,78 @@
+import { expect } from 'chai'
+
+import { SingleFlight } from '../app/SingleFlight'
+
+
+describe('SingleFlight', () => {
+    let flight: SingleFlight
+
+    beforeEach(() => {
+        flight = new SingleFlight()
+    })
+
+    it('Should share one execution among concurrent calls with the same key', async () => {
+        // Arrange
+        let calls = 0
+        const fn = async () => {
+            ++calls
+            await new Promise(resolve => setTimeout(resolve, 10))
+            return calls
+        }
+
+        // Act
+        const results = await Promise.all([
+            flight.run('KEY', fn),
+            flight.run('KEY', fn),
+            flight.run('KEY', fn),
+        ])
+
+        // Assert
+        expect(calls).to.equal(1)
+        expect(results).to.deep.equal([1, 1, 1])
+        expect(flight.count).to.equal(0)
+    })
+
+    it('Should execute separately for different keys', async () => {
+        // Arrange
+        let calls = 0
+        const fn = async () => ++calls
+
+        // Act
+        await Promise.all([
+            flight.run('ONE', fn),
+            flight.run('TWO', fn),
+        ])
+
+        // Assert
+        expect(calls).to.equal(2)
+    })
+
+    it('Should execute again after previous execution has finished', async () => {
+        // Arrange
+        let calls = 0
+        const fn = async () => ++calls
+        await flight.run('KEY', fn)
+
+        // Act
+        const result = await flight.run('KEY', fn)
+
+        // Assert
+        expect(result).to.equal(2)
+    })
+
+    it('Should reject all concurrent calls and clean up if execution fails', async () => {
+        // Arrange
+        const ERROR = new Error('Failed')
+        const fn = () => Promise.reject(ERROR)
+
+        // Act
+        const results = await Promise.all([
+            flight.run('KEY', fn).catch(err => err),
+            flight.run('KEY', fn).catch(err => err),
+        ])
+
+        // Assert
+        expect(results).to.deep.equal([ERROR, ERROR])
+        expect(flight.count).to.equal(0)
+    })
+})
@@ -0,0 +1,83 @@
+import { expect } from 'chai'
+import { InvalidArgumentException, MinorException } from '@micro-fleet/common'
+
+import { CompressionAlgorithm } from '../app'
+import { ValueCompressor } from '../app/ValueCompressor'
+
+
+const LARGE_VALUE = JSON.stringify(Array(200).fill({ name: 'Gennova', age: 55 }))
+
+describe('ValueCompressor', () => {
+    for (const algorithm of [CompressionAlgorithm.GZIP, CompressionAlgorithm.DEFLATE, CompressionAlgorithm.BROTLI]) {
+        it(`Should compress and decompress with ${algorithm}`, async () => {
+            // Arrange
+            const compressor = new ValueCompressor({ algorithm })
+
+            // Act
+            const compressed = await compressor.compress(LARGE_VALUE)
+            const decompressed = await compressor.decompress(compressed)
+
+            // Assert
+            expect(compressed.length).to.be.lessThan(LARGE_VALUE.length)
+            expect(decompressed).to.equal(LARGE_VALUE)
+        })
+    }
+
+    it('Should not compress values smaller than threshold', async () => {
+        // Arrange
+        const compressor = new ValueCompressor({ threshold: 100 })
+        const value = 'x'.repeat(99)
+
+        // Act
+        const compressed = await compressor.compress(value)
+
+        // Assert
+        expect(compressed).to.equal(value)
+    })
+
+    it('Should not compress if not enabled, but still decompress', async () => {
+        // Arrange
+        const writer = new ValueCompressor({ algorithm: CompressionAlgorithm.DEFLATE })
+        const reader = new ValueCompressor()
+
+        // Act
+        const uncompressed = await reader.compress(LARGE_VALUE)
+        const decompressed = await reader.decompress(await writer.compress(LARGE_VALUE))
+
+        // Assert
+        expect(uncompressed).to.equal(LARGE_VALUE)
+        expect(decompressed).to.equal(LARGE_VALUE)
+    })
+
+    it('Should return uncompressed and null values as-is', async () => {
+        // Arrange
+        const compressor = new ValueCompressor({})
+
+        // Act
+        const plain = await compressor.decompress('plain value')
+        const nothing = await compressor.decompress(null)
+
+        // Assert
+        expect(plain).to.equal('plain value')
+        expect(nothing).to.be.null
+    })
+
+    it('Should throw if algorithm is not supported', async () => {
+        // Arrange
+        let ctorException: any
+        let readException: any
+
+        // Act
+        try {
+            new ValueCompressor({ algorithm: 'lzma' as any })
+        }
+        catch (err) {
+            ctorException = err
+        }
+        await new ValueCompressor().decompress('\u001dlzma\u001dabc').catch(err => readException = err)
+
+        // Assert
+        expect(ctorException).to.be.instanceOf(InvalidArgumentException)
+        expect(readException).to.be.instanceOf(MinorException)
+    })
+})
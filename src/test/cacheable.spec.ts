@@ -0,0 +1,680 @@
+import * as util from 'util'
+import { expect } from 'chai'
+import * as redis from 'redis'
+import { IDependencyContainer, DependencyContainer, serviceContext, Maybe } from '@micro-fleet/common'
+
+import { cacheable, cachePut, cacheEvict, RedisCacheProvider, MemoryCacheProvider, CacheLevel, CacheValueType,
+    CacheObjectLayout, CacheEvent, CacheEventArgs, Types as T } from '../app'
+
+
+const CACHE_NAME = 'decoratorcache',
+    KEY = 'PRODUCT'
+
+let depCon: IDependencyContainer
+let cache: RedisCacheProvider
+let calls: number
+let predicateContexts: any[]
+
+class ProductService {
+    public isDraft = false
+    public useCache = true
+    public isFailing = false
+
+    @cacheable({ cacheKey: KEY, cacheLevel: CacheLevel.LOCAL })
+    public getLocal(id: string): Promise<object> {
+        return Promise.resolve({ id, call: ++calls })
+    }
+
+    @cacheable({
+        cacheKey: KEY,
+        cacheLevel: CacheLevel.LOCAL,
+        cacheKeyBuilder: (cacheKey: string, serializedArgs: string) => `${cacheKey}#${serializedArgs}`,
+    })
+    public getCustomKey(id: string): Promise<object> {
+        return Promise.resolve({ id, call: ++calls })
+    }
+
+    @cacheable({ cacheKey: KEY, cacheLevel: CacheLevel.REMOTE })
+    public getRemote(id: string): Promise<object> {
+        return Promise.resolve({ id, call: ++calls })
+    }
+
+    @cacheable({ cacheKey: KEY, cacheLevel: CacheLevel.BOTH, forceRemote: false })
+    public getBoth(id: string): Promise<object> {
+        return Promise.resolve({ id, call: ++calls })
+    }
+
+    @cacheable({
+        cacheKey: KEY,
+        cacheLevel: CacheLevel.LOCAL,
+        valueType: CacheValueType.ARRAY,
+        resultSerializer: (result: number[]) => result,
+        resultRebuilder: (cached: string[]) => cached.map(Number),
+    })
+    public getCodes(id: string): Promise<number[]> {
+        return Promise.resolve([++calls, 10])
+    }
+
+    @cacheable({ cacheKey: KEY, provider: 'session' })
+    public getSession(id: string): Promise<object> {
+        return Promise.resolve({ id, call: ++calls })
+    }
+
+    @cacheable({
+        cacheKey: KEY,
+        cacheLevel: CacheLevel.LOCAL,
+        condition(this: ProductService, args: any[]) {
+            predicateContexts.push(this)
+            return this.useCache
+        },
+        unless(this: ProductService, result: any) {
+            predicateContexts.push(this)
+            return (result.id === 'draft')
+        },
+    })
+    public getConditional(id: string): Promise<object> {
+        return Promise.resolve({ id, call: ++calls })
+    }
+
+    @cacheable({ cacheKey: KEY, cacheLevel: CacheLevel.LOCAL })
+    public findNull(id: string): Promise<object> {
+        ++calls
+        return Promise.resolve(null)
+    }
+
+    @cacheable({ cacheKey: KEY, cacheLevel: CacheLevel.LOCAL })
+    public findMaybe(id: string): Promise<Maybe<object>> {
+        ++calls
+        return Promise.resolve(Maybe.Nothing())
+    }
+
+    @cacheable({ cacheKey: KEY, cacheLevel: CacheLevel.LOCAL, cacheNothing: true })
+    public findNullCached(id: string): Promise<object> {
+        ++calls
+        return Promise.resolve(null)
+    }
+
+    @cacheable({ cacheKey: KEY, cacheLevel: CacheLevel.LOCAL, cacheNothing: true, duration: 10, negativeDuration: 0.05 })
+    public findCachingNothing(id: string): Promise<object> {
+        ++calls
+        return Promise.resolve((id === 'none') ? null : { id, call: calls })
+    }
+
+    @cacheable({ cacheKey: KEY, cacheLevel: CacheLevel.LOCAL, duration: 0.05, staleDuration: 10 })
+    public getRevalidated(id: string): Promise<object> {
+        ++calls
+        return this.isFailing
+            ? Promise.reject(new Error('Failed'))
+            : Promise.resolve({ id, call: calls })
+    }
+
+    @cacheable({ cacheKey: KEY, provider: 'hash', duration: 0.05, staleDuration: 10 })
+    public getRevalidatedHash(id: string): Promise<object> {
+        return Promise.resolve({ id, call: ++calls })
+    }
+
+    @cachePut({ cacheKey: KEY, cacheLevel: CacheLevel.LOCAL, unless: (result: any) => result.isDraft })
+    public update(id: string): Promise<object> {
+        return Promise.resolve(this.isDraft ? { id, call: ++calls, isDraft: true } : { id, call: ++calls })
+    }
+
+    @cachePut({ cacheKey: KEY, cacheLevel: CacheLevel.LOCAL })
+    public remove(id: string): Promise<object> {
+        ++calls
+        return Promise.resolve(null)
+    }
+
+    @cacheEvict(KEY)
+    public evict(id: string): Promise<void> {
+        return Promise.resolve()
+    }
+
+    @cacheEvict({ cacheKey: KEY, allEntries: true })
+    public evictAll(): Promise<void> {
+        return Promise.resolve()
+    }
+
+    @cacheEvict({ cacheKey: `${KEY}:0:?`, isPattern: true })
+    public evictPattern(): Promise<void> {
+        return Promise.resolve()
+    }
+
+    @cacheEvict({ cacheKey: KEY, beforeInvocation: true })
+    public failBeforeEvict(id: string): Promise<void> {
+        return Promise.reject(new Error('Failed'))
+    }
+
+    @cacheEvict(KEY)
+    public failEvict(id: string): Promise<void> {
+        return Promise.reject(new Error('Failed'))
+    }
+}
+
+function useProvider(provider: RedisCacheProvider): void {
+    cache = provider
+    depCon.bindConstant(T.CACHE_PROVIDER, cache)
+}
+
+describe('@cacheable', function () {
+    this.timeout(5000)
+
+    let service: ProductService
+
+    beforeEach(() => {
+        depCon = new DependencyContainer()
+        serviceContext.setDependencyContainer(depCon)
+        service = new ProductService()
+        calls = 0
+        predicateContexts = []
+    })
+
+    afterEach(async () => {
+        await cache.dispose()
+        depCon.dispose()
+        depCon = cache = null
+    })
+
+    describe('CacheLevel.LOCAL', () => {
+        beforeEach(() => {
+            useProvider(new RedisCacheProvider({ name: CACHE_NAME }))
+        })
+
+        it('Should read from local cache despite option forceRemote', async () => {
+            // Act
+            const first = await service.getLocal('1')
+            const second = await service.getLocal('1')
+
+            // Assert
+            expect(calls).to.equal(1)
+            expect(second).to.deep.equal(first)
+        })
+
+        it('Should cache separately by arguments', async () => {
+            // Act
+            await service.getLocal('1')
+            const second = await service.getLocal('2')
+
+            // Assert
+            expect(calls).to.equal(2)
+            expect(second).to.deep.equal({ id: '2', call: 2 })
+        })
+
+        it('Should build cache key with cacheKeyBuilder', async () => {
+            // Act
+            await service.getCustomKey('1')
+
+            // Assert
+            expect(Object.keys(cache['_localCache']).some(k => k.includes(`${KEY}#`))).to.be.true
+        })
+
+        it('Should read with the specified value type', async () => {
+            // Act
+            const first = await service.getCodes('1')
+            const second = await service.getCodes('1')
+
+            // Assert
+            expect(calls).to.equal(1)
+            expect(second).to.deep.equal(first)
+        })
+    }) // describe 'CacheLevel.LOCAL'
+
+    describe('condition and unless', () => {
+        beforeEach(() => {
+            useProvider(new RedisCacheProvider({ name: CACHE_NAME }))
+        })
+
+        it('Should neither read nor save if condition returns false', async () => {
+            // Arrange
+            await service.getConditional('1')
+            service.useCache = false
+
+            // Act
+            const skipped = await service.getConditional('1')
+            service.useCache = true
+            const cached = await service.getConditional('1')
+
+            // Assert
+            expect(calls).to.equal(2)
+            expect(skipped).to.deep.equal({ id: '1', call: 2 })
+            expect(cached).to.deep.equal({ id: '1', call: 1 })
+        })
+
+        it('Should not save result if unless returns true', async () => {
+            // Act
+            await service.getConditional('draft')
+            const second = await service.getConditional('draft')
+
+            // Assert
+            expect(calls).to.equal(2)
+            expect(second).to.deep.equal({ id: 'draft', call: 2 })
+        })
+
+        it('Should invoke predicates with the same this as target method', async () => {
+            // Act
+            await service.getConditional('1')
+
+            // Assert
+            expect(predicateContexts).to.have.lengthOf(2)
+            predicateContexts.forEach(context => expect(context).to.equal(service))
+        })
+    }) // describe 'condition and unless'
+
+    describe('negative results', () => {
+        beforeEach(() => {
+            useProvider(new RedisCacheProvider({ name: CACHE_NAME }))
+        })
+
+        it('Should not cache null or Maybe.Nothing by default', async () => {
+            // Act
+            await service.findNull('1')
+            const secondNull = await service.findNull('1')
+            await service.findMaybe('2')
+            const secondMaybe = await service.findMaybe('2')
+
+            // Assert
+            expect(calls).to.equal(4)
+            expect(secondNull).to.be.null
+            expect(secondMaybe.isNothing).to.be.true
+            expect(Object.keys(cache['_localCache']).some(k => k.includes(KEY))).to.be.false
+        })
+
+        it('Should cache negative results if cacheNothing is true', async () => {
+            // Act
+            await service.findNullCached('1')
+            const second = await service.findNullCached('1')
+
+            // Assert
+            expect(calls).to.equal(1)
+            expect(second).to.be.null
+        })
+
+        it('Should expire negative results after negativeDuration', async () => {
+            // Arrange
+            await service.findCachingNothing('none')
+            await service.findCachingNothing('1')
+
+            // Act
+            await new Promise(resolve => setTimeout(resolve, 100))
+            const found = await service.findCachingNothing('1')
+
+            // Assert: Only the negative result has expired
+            expect(Object.keys(cache['_localCache']).filter(k => k.includes(KEY))).to.have.lengthOf(1)
+            expect(calls).to.equal(2)
+            expect(found).to.deep.equal({ id: '1', call: 2 })
+        })
+    }) // describe 'negative results'
+
+    describe('staleDuration', () => {
+        const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+        let hashCache: MemoryCacheProvider
+
+        beforeEach(() => {
+            useProvider(new RedisCacheProvider({ name: CACHE_NAME }))
+            hashCache = new MemoryCacheProvider({ name: CACHE_NAME, objectLayout: CacheObjectLayout.HASH })
+            depCon.bindConstant(T.cacheProvider('hash'), hashCache)
+        })
+
+        afterEach(async () => {
+            await hashCache.dispose()
+        })
+
+        it('Should return fresh value without refreshing', async () => {
+            // Act
+            const first = await service.getRevalidated('1')
+            const second = await service.getRevalidated('1')
+            await delay(10)
+
+            // Assert
+            expect(calls).to.equal(1)
+            expect(second).to.deep.equal(first)
+        })
+
+        it('Should return stale value and refresh it once in background', async () => {
+            // Arrange
+            await service.getRevalidated('1')
+            await delay(80)
+
+            // Act
+            const staleResults = await Promise.all([
+                service.getRevalidated('1'),
+                service.getRevalidated('1'),
+            ])
+            await delay(10)
+            const refreshed = await service.getRevalidated('1')
+
+            // Assert
+            expect(staleResults).to.deep.equal([{ id: '1', call: 1 }, { id: '1', call: 1 }])
+            expect(calls).to.equal(2)
+            expect(refreshed).to.deep.equal({ id: '1', call: 2 })
+        })
+
+        it('Should keep stale value and emit error if refreshing fails', async () => {
+            // Arrange
+            await service.getRevalidated('1')
+            await delay(80)
+            service.isFailing = true
+            const errors: CacheEventArgs[] = []
+            cache.on(CacheEvent.ERROR, (args: CacheEventArgs) => errors.push(args))
+
+            // Act
+            const stale = await service.getRevalidated('1')
+            await delay(10)
+
+            // Assert
+            expect(stale).to.deep.equal({ id: '1', call: 1 })
+            expect(calls).to.equal(2)
+            expect(errors).to.have.lengthOf(1)
+            expect(errors[0].operation).to.equal('revalidate')
+            expect(errors[0].key).to.equal(`${CACHE_NAME}::${KEY}:0:1`)
+            expect(errors[0].error.message).to.equal('Failed')
+            expect(await service.getRevalidated('1')).to.deep.equal({ id: '1', call: 1 })
+        })
+
+        it('Should refresh cached value whose fresh time is missing', async () => {
+            // Arrange
+            await service.getRevalidated('1')
+            await cache.delete(`${KEY}:0:1::@freshUntil`)
+
+            // Act
+            const stale = await service.getRevalidated('1')
+            await delay(10)
+            const refreshed = await service.getRevalidated('1')
+
+            // Assert
+            expect(stale).to.deep.equal({ id: '1', call: 1 })
+            expect(calls).to.equal(2)
+            expect(refreshed).to.deep.equal({ id: '1', call: 2 })
+        })
+
+        it('Should refresh the same key of different providers separately', async () => {
+            // Arrange
+            await service.getRevalidated('1')
+            await service.getRevalidatedHash('1')
+            await delay(80)
+
+            // Act
+            await Promise.all([
+                service.getRevalidated('1'),
+                service.getRevalidatedHash('1'),
+            ])
+            await delay(10)
+
+            // Assert
+            expect(calls).to.equal(4)
+        })
+
+        it('Should keep cached value intact in hash object layout', async () => {
+            // Act
+            const first = await service.getRevalidatedHash('1')
+            const second = await service.getRevalidatedHash('1')
+
+            // Assert
+            expect(calls).to.equal(1)
+            expect(second).to.deep.equal(first)
+        })
+    }) // describe 'staleDuration'
+
+    describe('provider', () => {
+        let sessionCache: MemoryCacheProvider
+
+        beforeEach(() => {
+            useProvider(new RedisCacheProvider({ name: CACHE_NAME }))
+            sessionCache = new MemoryCacheProvider({ name: CACHE_NAME })
+            depCon.bindConstant(T.cacheProvider('session'), sessionCache)
+        })
+
+        afterEach(async () => {
+            await sessionCache.dispose()
+        })
+
+        it('Should use the named cache provider', async () => {
+            // Act
+            const first = await service.getSession('1')
+            const second = await service.getSession('1')
+
+            // Assert
+            expect(calls).to.equal(1)
+            expect(second).to.deep.equal(first)
+            expect(sessionCache['_store'].size).to.equal(1)
+            expect(Object.keys(cache['_localCache']).some(k => k.includes(KEY))).to.be.false
+        })
+    }) // describe 'provider'
+
+    describe('CacheLevel.REMOTE', () => {
+        beforeEach(() => {
+            useProvider(new RedisCacheProvider({
+                name: CACHE_NAME,
+                single: {
+                    host: 'localhost',
+                },
+            }))
+        })
+
+        afterEach(async () => {
+            await cache.delete(`${CACHE_NAME}::${KEY}*`, { isPattern: true })
+        })
+
+        it('Should read from remote cache', async () => {
+            // Act
+            const first = await service.getRemote('1')
+            const second = await service.getRemote('1')
+
+            // Assert
+            expect(calls).to.equal(1)
+            expect(second).to.deep.equal(first)
+            expect(Object.keys(cache['_localCache']).some(k => k.includes(KEY))).to.be.false
+        })
+    }) // describe 'CacheLevel.REMOTE'
+
+    describe('CacheLevel.BOTH', () => {
+        beforeEach(() => {
+            useProvider(new RedisCacheProvider({
+                name: CACHE_NAME,
+                single: {
+                    host: 'localhost',
+                },
+            }))
+        })
+
+        afterEach(async () => {
+            await cache.delete(`${CACHE_NAME}::${KEY}*`, { isPattern: true })
+        })
+
+        it('Should read from local cache if forceRemote is false', async () => {
+            // Arrange
+            const first = await service.getBoth('1')
+            const realKey = `${CACHE_NAME}::${KEY}:0:1`
+            // Otherwise the local value is removed as soon as the remote value is deleted
+            await cache['_syncOff'](realKey)
+            const client = redis.createClient({ host: 'localhost' })
+            const del = util.promisify(client.del).bind(client)
+
+            try {
+                // Act
+                const deleted = await del(realKey)
+                const second = await service.getBoth('1')
+
+                // Assert
+                expect(deleted).to.equal(1)
+                expect(calls).to.equal(1)
+                expect(second).to.deep.equal(first)
+            }
+            finally {
+                client.quit()
+            }
+        })
+    }) // describe 'CacheLevel.BOTH'
+}) // describe '@cacheable'
+
+describe('@cachePut', function () {
+    this.timeout(5000)
+
+    let service: ProductService
+
+    beforeEach(() => {
+        depCon = new DependencyContainer()
+        serviceContext.setDependencyContainer(depCon)
+        useProvider(new RedisCacheProvider({ name: CACHE_NAME }))
+        service = new ProductService()
+        calls = 0
+    })
+
+    afterEach(async () => {
+        await cache.dispose()
+        depCon.dispose()
+        depCon = cache = null
+    })
+
+    it('Should always invoke method and replace cached value', async () => {
+        // Arrange
+        await service.getLocal('1')
+
+        // Act
+        const updated = await service.update('1')
+        const cached = await service.getLocal('1')
+
+        // Assert
+        expect(calls).to.equal(2)
+        expect(updated).to.deep.equal({ id: '1', call: 2 })
+        expect(cached).to.deep.equal(updated)
+    })
+
+    it('Should remove cached value if result is negative', async () => {
+        // Arrange
+        await service.getLocal('1')
+
+        // Act
+        const removed = await service.remove('1')
+        const reloaded = await service.getLocal('1')
+
+        // Assert
+        expect(removed).to.be.null
+        expect(calls).to.equal(3)
+        expect(reloaded).to.deep.equal({ id: '1', call: 3 })
+    })
+
+    it('Should remove cached value if unless vetoes saving', async () => {
+        // Arrange
+        await service.getLocal('1')
+
+        service.isDraft = true
+
+        // Act
+        await service.update('1')
+        const reloaded = await service.getLocal('1')
+
+        // Assert
+        expect(calls).to.equal(3)
+        expect(reloaded).to.deep.equal({ id: '1', call: 3 })
+    })
+}) // describe '@cachePut'
+
+describe('@cacheEvict', function () {
+    this.timeout(5000)
+
+    let service: ProductService
+
+    beforeEach(() => {
+        depCon = new DependencyContainer()
+        serviceContext.setDependencyContainer(depCon)
+        useProvider(new RedisCacheProvider({ name: CACHE_NAME }))
+        service = new ProductService()
+        calls = 0
+    })
+
+    afterEach(async () => {
+        await cache.dispose()
+        depCon.dispose()
+        depCon = cache = null
+    })
+
+    it('Should remove cached value by key built from arguments', async () => {
+        // Arrange
+        await service.getLocal('1')
+        await service.getLocal('2')
+
+        // Act
+        await service.evict('1')
+        await service.getLocal('1')
+        await service.getLocal('2')
+
+        // Assert
+        expect(calls).to.equal(3)
+    })
+
+    it('Should remove fresh time together with cached value', async () => {
+        // Arrange
+        await service.getRevalidated('1')
+
+        // Act
+        await service.evict('1')
+
+        // Assert
+        expect(Object.keys(cache['_localCache']).some(k => k.includes(KEY))).to.be.false
+    })
+
+    it('Should remove all cached values regardless of arguments', async () => {
+        // Arrange
+        await service.getLocal('1')
+        await service.getLocal('2')
+
+        // Act
+        await service.evictAll()
+        await service.getLocal('1')
+        await service.getLocal('2')
+
+        // Assert
+        expect(calls).to.equal(4)
+    })
+
+    it('Should remove cached values matching pattern', async () => {
+        // Arrange
+        await service.getLocal('1')
+        await service.getLocal('22')
+
+        // Act
+        await service.evictPattern()
+        await service.getLocal('1')
+        await service.getLocal('22')
+
+        // Assert: Only the single-character id matches
+        expect(calls).to.equal(3)
+    })
+
+    it('Should remove cached value before invocation even if method rejects', async () => {
+        // Arrange
+        await service.getLocal('1')
+        let exception: Error
+
+        // Act
+        try {
+            await service.failBeforeEvict('1')
+        } catch (err) {
+            exception = err
+        }
+        await service.getLocal('1')
+
+        // Assert
+        expect(exception.message).to.equal('Failed')
+        expect(calls).to.equal(2)
+    })
+
+    it('Should not remove cached value if method rejects', async () => {
+        // Arrange
+        await service.getLocal('1')
+        let exception: Error
+
+        // Act
+        try {
+            await service.failEvict('1')
+        } catch (err) {
+            exception = err
+        }
+        const cached = await service.getLocal('1')
+
+        // Assert
+        expect(exception.message).to.equal('Failed')
+        expect(calls).to.equal(1)
+        expect(cached).to.deep.equal({ id: '1', call: 1 })
+    })
+}) // describe '@cacheEvict'
@@ -0,0 +1,78 @@
+import * as chai from 'chai'
+import * as spies from 'chai-spies'
+import * as redis from 'redis'
+
+import { createRedisClient } from '../app/create-client'
+import { CacheConnectionDetail } from '../app'
+
+
+chai.use(spies)
+const expect = chai.expect
+
+describe('createRedisClient', () => {
+    let client: redis.RedisClient
+
+    afterEach(() => {
+        client.end(false)
+        client = null
+    })
+
+    function connect(detail: CacheConnectionDetail, extraOpts?: redis.ClientOpts): redis.RedisClient {
+        client = createRedisClient(detail, extraOpts)
+        // Nothing listens on this port, ignore connection errors
+        client.on('error', () => { /* Ignore */ })
+        return client
+    }
+
+    it('Should pass password and database index to node_redis', () => {
+        // Act
+        connect({
+            host: 'localhost',
+            port: 1,
+            password: 'secret',
+            db: 3,
+        })
+
+        // Assert
+        expect(client['auth_pass']).to.equal('secret')
+        expect(client['selected_db']).to.equal(3)
+    })
+
+    it('Should send ACL-style AUTH on connect if username is provided', () => {
+        // Arrange
+        connect({
+            host: 'localhost',
+            port: 1,
+            username: 'app',
+            password: 'secret',
+        })
+        const sendSpy = chai.spy.on(client, 'send_command', () => true)
+
+        // Act
+        client.emit('connect')
+
+        // Assert
+        expect(client['auth_pass']).not.to.exist
+        expect(sendSpy).to.have.been.called.with('auth', ['app', 'secret'])
+        expect(client['ready']).to.be.false
+    })
+
+    it('Should default TLS server name to host', () => {
+        // Act
+        connect({
+            host: 'localhost',
+            port: 1,
+            tls: {
+                ca: '--CA--',
+            },
+        }, {
+            retry_strategy: () => undefined,
+        })
+
+        // Assert
+        expect(client['options'].tls).to.deep.equal({
+            ca: '--CA--',
+            servername: 'localhost',
+        })
+    })
+})